@@ -0,0 +1,20 @@
+/**
+ * A Pokemon that can have a given ability
+ */
+export interface AbilityHolder {
+  id: number;
+  name: string;
+  spriteUrl: string;
+  isHidden: boolean; // true when the ability is this Pokemon's hidden ability
+}
+
+/**
+ * Ability with its effect text and the Pokemon that can have it
+ */
+export interface AbilityDetail {
+  id: number;
+  name: string;
+  effect: string; // full in-battle and overworld effect
+  shortEffect: string; // one-sentence summary
+  pokemon: AbilityHolder[];
+}
@@ -0,0 +1,41 @@
+import { PokemonComparison, PokemonStats } from './pokemon-detail.model';
+
+/**
+ * Relative weight of each base stat, used by the weighted strategy
+ */
+export type StatWeights = Record<keyof PokemonStats, number>;
+
+/**
+ * Weights applied when the user has not set any (every stat counts once)
+ */
+export const DEFAULT_STAT_WEIGHTS: StatWeights = {
+  hp: 1,
+  attack: 1,
+  defense: 1,
+  specialAttack: 1,
+  specialDefense: 1,
+  speed: 1
+};
+
+/**
+ * Comparison data a strategy scores: everything but the verdict it produces
+ */
+export type UnscoredComparison = Omit<PokemonComparison, 'overallWinner' | 'strategyResult'>;
+
+/**
+ * User-provided settings passed to a strategy when scoring a matchup
+ */
+export interface ComparisonStrategyOptions {
+  weights?: Partial<StatWeights>;
+}
+
+/**
+ * How a single strategy scored a two-Pokemon matchup
+ */
+export interface ComparisonStrategyResult {
+  strategyId: string;
+  strategyName: string;
+  pokemon1Score: number;
+  pokemon2Score: number;
+  winner: 'pokemon1' | 'pokemon2' | 'tie';
+}
@@ -0,0 +1,24 @@
+import { NumberRange } from './pokemon.model';
+import { TypeEffectivenessMultiplier } from './type-effectiveness.model';
+import { PokemonStatsEntry } from './stat-ranking.model';
+
+/**
+ * Which Pokemon may be suggested as counters
+ */
+export interface CounterOptions {
+  generation?: NumberRange; // generation the counter's species was introduced in
+  fullyEvolvedOnly?: boolean;
+  limit?: number; // number of counters returned, 10 by default
+}
+
+/**
+ * A Pokemon suggested to beat a target, with what makes it a good pick
+ */
+export interface PokemonCounter {
+  pokemon: PokemonStatsEntry;
+  score: number; // 0-100, higher is better
+  offense: TypeEffectivenessMultiplier; // best multiplier of the counter's types (STAB) against the target
+  defense: TypeEffectivenessMultiplier; // worst multiplier the counter takes from the target's types
+  category: 'physical' | 'special'; // attacking stat that hits the target's weaker defense hardest
+  outspeeds: boolean;
+}
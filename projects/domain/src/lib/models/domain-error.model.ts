@@ -0,0 +1,111 @@
+/**
+ * Kind of failure a port can report
+ */
+export type DomainErrorKind = 'not-found' | 'network' | 'rate-limited' | 'invalid-response' | 'unknown';
+
+/**
+ * Base class of the errors emitted by the ports
+ * Messages are meant to be shown to users as is
+ */
+export abstract class DomainErrorBase extends Error {
+  abstract readonly kind: DomainErrorKind;
+
+  /** Whether trying again later may succeed */
+  abstract readonly retryable: boolean;
+}
+
+/**
+ * The requested resource does not exist (e.g. Pokemon 99999)
+ */
+export class NotFoundError extends DomainErrorBase {
+  readonly kind = 'not-found';
+  readonly retryable = false;
+
+  /**
+   * @param resource - What was requested, for display (e.g. 'Pokémon 99999')
+   */
+  constructor(readonly resource: string) {
+    super(`${resource} doesn't exist.`);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * The data source could not be reached (offline, DNS, CORS, server unavailable)
+ */
+export class NetworkError extends DomainErrorBase {
+  readonly kind = 'network';
+  readonly retryable = true;
+
+  constructor() {
+    super("Couldn't reach the Pokémon database. Check your connection and try again.");
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The data source refused the request because too many were made
+ */
+export class RateLimitedError extends DomainErrorBase {
+  readonly kind = 'rate-limited';
+  readonly retryable = true;
+
+  /**
+   * @param retryAfter - Seconds to wait before trying again, if the data source said so
+   */
+  constructor(readonly retryAfter: number | null = null) {
+    super(retryAfter
+      ? `Too many requests. Please try again in ${retryAfter} seconds.`
+      : 'Too many requests. Please wait a moment and try again.');
+    this.name = 'RateLimitedError';
+  }
+}
+
+/**
+ * The data source answered with data that could not be understood
+ */
+export class InvalidResponseError extends DomainErrorBase {
+  readonly kind = 'invalid-response';
+  readonly retryable = false;
+
+  constructor() {
+    super('Received unexpected data from the Pokémon database.');
+    this.name = 'InvalidResponseError';
+  }
+}
+
+/**
+ * Any other failure
+ */
+export class UnknownError extends DomainErrorBase {
+  readonly kind = 'unknown';
+  readonly retryable = true;
+
+  /**
+   * @param cause - Original error, for logging
+   */
+  constructor(cause?: unknown) {
+    super('Something went wrong. Please try again.', { cause });
+    this.name = 'UnknownError';
+  }
+}
+
+/**
+ * Error emitted by the ports' observables
+ * Narrow on `kind` to tell failures apart
+ */
+export type DomainError = NotFoundError | NetworkError | RateLimitedError | InvalidResponseError | UnknownError;
+
+/**
+ * Checks whether an error is one of the domain errors
+ */
+export function isDomainError(error: unknown): error is DomainError {
+  return error instanceof DomainErrorBase;
+}
+
+/**
+ * Returns domain errors as is and wraps anything else in an UnknownError
+ */
+export function asDomainError(error: unknown): DomainError {
+  return isDomainError(error) ? error : new UnknownError(error);
+}
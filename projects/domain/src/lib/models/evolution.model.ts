@@ -0,0 +1,52 @@
+/**
+ * Broad category of what makes a Pokemon evolve
+ * Friendship is a level-up trigger with a happiness requirement, but is surfaced on its own
+ */
+export type EvolutionTriggerKind = 'level' | 'item' | 'trade' | 'friendship' | 'other';
+
+/**
+ * One way of evolving into a stage, with its conditions
+ * Only the conditions that apply are set
+ */
+export interface EvolutionTrigger {
+  kind: EvolutionTriggerKind;
+  trigger: string; // source trigger name (e.g. 'level-up', 'use-item', 'shed')
+  minLevel?: number;
+  item?: string; // item used on the Pokemon
+  heldItem?: string;
+  minHappiness?: number;
+  minAffection?: number;
+  minBeauty?: number;
+  knownMove?: string;
+  knownMoveType?: string;
+  location?: string;
+  timeOfDay?: string; // 'day' | 'night' | 'dusk'
+  gender?: 'female' | 'male';
+  tradeSpecies?: string;
+  partySpecies?: string;
+  partyType?: string;
+  relativePhysicalStats?: -1 | 0 | 1; // Attack compared to Defense
+  needsOverworldRain?: boolean;
+  turnUpsideDown?: boolean;
+}
+
+/**
+ * A species in an evolution chain and the stages it evolves into
+ * Branching evolutions (e.g. Eevee) have several `evolvesTo` entries
+ */
+export interface EvolutionStage {
+  speciesId: number;
+  name: string;
+  spriteUrl: string;
+  isBaby: boolean;
+  triggers: EvolutionTrigger[]; // how the previous stage evolves into this one (empty for the first stage)
+  evolvesTo: EvolutionStage[];
+}
+
+/**
+ * Complete evolution family, as a tree rooted at its first stage
+ */
+export interface EvolutionChain {
+  id: number;
+  root: EvolutionStage;
+}
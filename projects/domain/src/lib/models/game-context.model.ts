@@ -0,0 +1,67 @@
+/**
+ * A group of games sharing the same data, as a PokeAPI version group (e.g. 'x-y')
+ */
+export interface GameVersionGroup {
+  name: string;
+  generation: number;
+}
+
+/**
+ * Version groups of the main series games, oldest first
+ */
+export const GAME_VERSION_GROUPS: GameVersionGroup[] = [
+  { name: 'red-blue', generation: 1 },
+  { name: 'yellow', generation: 1 },
+  { name: 'gold-silver', generation: 2 },
+  { name: 'crystal', generation: 2 },
+  { name: 'ruby-sapphire', generation: 3 },
+  { name: 'emerald', generation: 3 },
+  { name: 'firered-leafgreen', generation: 3 },
+  { name: 'diamond-pearl', generation: 4 },
+  { name: 'platinum', generation: 4 },
+  { name: 'heartgold-soulsilver', generation: 4 },
+  { name: 'black-white', generation: 5 },
+  { name: 'black-2-white-2', generation: 5 },
+  { name: 'x-y', generation: 6 },
+  { name: 'omega-ruby-alpha-sapphire', generation: 6 },
+  { name: 'sun-moon', generation: 7 },
+  { name: 'ultra-sun-ultra-moon', generation: 7 },
+  { name: 'lets-go-pikachu-lets-go-eevee', generation: 7 },
+  { name: 'sword-shield', generation: 8 },
+  { name: 'brilliant-diamond-and-shining-pearl', generation: 8 },
+  { name: 'legends-arceus', generation: 8 },
+  { name: 'scarlet-violet', generation: 9 }
+];
+
+/**
+ * Games the data should match
+ * Null values stand for the latest games, i.e. the data as the source currently has it
+ */
+export interface GameContext {
+  versionGroup: string | null;
+  generation: number | null;
+}
+
+/**
+ * Context of the latest games
+ */
+export const LATEST_GAME_CONTEXT: GameContext = { versionGroup: null, generation: null };
+
+/**
+ * A value a Pokemon had in older games, up to and including the given generation
+ * (e.g. Clefairy was `{ generation: 5, value: [normal] }` before becoming Fairy-type)
+ */
+export interface PastValue<T> {
+  generation: number;
+  value: T;
+}
+
+/**
+ * Builds the context of a version group
+ * @param versionGroup - Version group name, or null for the latest games
+ * @returns The context of the version group; unknown version groups give the latest games
+ */
+export function toGameContext(versionGroup: string | null): GameContext {
+  const group = GAME_VERSION_GROUPS.find(g => g.name === versionGroup);
+  return group ? { versionGroup: group.name, generation: group.generation } : LATEST_GAME_CONTEXT;
+}
@@ -0,0 +1,22 @@
+/**
+ * Languages Pokemon names are offered in, as PokeAPI language codes
+ */
+export const SUPPORTED_LANGUAGES = ['en', 'fr', 'ja'] as const;
+
+/**
+ * One of the supported languages
+ */
+export type LanguageCode = typeof SUPPORTED_LANGUAGES[number];
+
+/**
+ * Official names of a Pokemon species per language (e.g. `{ en: 'Charmander', fr: 'Salamèche', ja: 'ヒトカゲ' }`)
+ * Languages the data source has no name for are missing
+ */
+export type LocalizedNames = Partial<Record<LanguageCode, string>>;
+
+/**
+ * Checks whether a language code is one of the supported languages
+ */
+export function isSupportedLanguage(code: string): code is LanguageCode {
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(code);
+}
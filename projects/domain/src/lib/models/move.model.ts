@@ -0,0 +1,76 @@
+/**
+ * Damage category of a move
+ */
+export type MoveCategory = 'physical' | 'special' | 'status';
+
+/**
+ * A move and its battle characteristics
+ */
+export interface Move {
+  id: number;
+  name: string;
+  type: string;
+  category: MoveCategory;
+  power: number | null; // null for status moves and variable-power moves
+  accuracy: number | null; // null for moves that never miss
+  pp: number | null;
+  priority: number;
+}
+
+/**
+ * A move a Pokemon learns, and at which level for level-up moves
+ */
+export interface LearnsetMove {
+  name: string;
+  level: number | null; // only set for level-up moves
+}
+
+/**
+ * Moves learned with one method in one version group (e.g. level-up in 'scarlet-violet')
+ */
+export interface LearnsetGroup {
+  versionGroup: string;
+  method: string; // e.g. 'level-up', 'machine', 'egg', 'tutor'
+  moves: LearnsetMove[];
+}
+
+/**
+ * All the moves a Pokemon can learn, grouped by version group and learn method
+ */
+export interface Learnset {
+  pokemonId: number;
+  versionGroups: string[]; // oldest first
+  groups: LearnsetGroup[];
+}
+
+/**
+ * A learnset move joined with its move data, as displayed in a moves table
+ */
+export interface LearnsetRow {
+  move: Move;
+  method: string;
+  level: number | null;
+}
+
+/**
+ * Criteria for filtering learnset rows; unset criteria match everything
+ */
+export interface MoveFilter {
+  search?: string;
+  type?: string;
+  category?: MoveCategory;
+  method?: string;
+}
+
+/**
+ * Column a moves table can be sorted by
+ */
+export type MoveSortKey = 'name' | 'type' | 'category' | 'power' | 'accuracy' | 'pp' | 'priority' | 'level';
+
+/**
+ * Sort order of a moves table
+ */
+export interface MoveSort {
+  key: MoveSortKey;
+  direction: 'asc' | 'desc';
+}
@@ -0,0 +1,64 @@
+import { PokemonDetail } from './pokemon-detail.model';
+import { OffensiveAdvantage } from './type-effectiveness.model';
+
+/** Minimum number of Pokemon in a comparison */
+export const MIN_COMPARISON_SIZE = 2;
+
+/** Maximum number of Pokemon in a comparison (a full team) */
+export const MAX_COMPARISON_SIZE = 6;
+
+/**
+ * Position of one entry for a single stat
+ * Tied entries share the same rank (1, 2, 2, 4...)
+ */
+export interface StatRanking {
+  index: number; // index of the entry in MultiPokemonComparison.entries
+  value: number;
+  rank: number;  // 1 = highest value
+}
+
+/**
+ * Comparison of a single stat across N Pokemon
+ */
+export interface MultiStatComparison {
+  name: string;
+  values: number[];        // indexed like MultiPokemonComparison.entries
+  rankings: StatRanking[]; // best first
+  winners: number[];       // indexes of the entries ranked 1st
+  isTie: boolean;          // more than one entry ranked 1st
+}
+
+/**
+ * Overall position of one entry in the comparison
+ */
+export interface ComparisonStanding {
+  index: number;
+  pokemon: PokemonDetail;
+  statsWon: number; // stats where this entry alone is ranked 1st
+  averageRank: number;
+  total: number;
+  rank: number;
+}
+
+/**
+ * Full comparison result between N Pokemon
+ */
+export interface MultiPokemonComparison {
+  entries: PokemonDetail[];
+  stats: {
+    hp: MultiStatComparison;
+    attack: MultiStatComparison;
+    defense: MultiStatComparison;
+    specialAttack: MultiStatComparison;
+    specialDefense: MultiStatComparison;
+    speed: MultiStatComparison;
+    total: MultiStatComparison;
+  };
+  physical: {
+    height: MultiStatComparison;
+    weight: MultiStatComparison;
+  };
+  typeMatchups: OffensiveAdvantage[][]; // [attacker index][defender index]
+  standings: ComparisonStanding[];      // best first
+  overallWinners: number[];             // indexes of the entries ranked 1st overall
+}
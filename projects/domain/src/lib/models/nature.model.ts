@@ -0,0 +1,68 @@
+import { PokemonStats } from './pokemon-detail.model';
+
+/**
+ * Stat that a nature can raise or lower (HP is never affected)
+ */
+export type NatureStat = Exclude<keyof PokemonStats, 'hp'>;
+
+/**
+ * A Pokemon nature
+ * Neutral natures have no increased/decreased stat
+ */
+export interface Nature {
+  name: string;
+  increased: NatureStat | null; // x1.1
+  decreased: NatureStat | null; // x0.9
+}
+
+/**
+ * The 25 natures of the mainline games
+ */
+export const NATURES: readonly Nature[] = [
+  { name: 'hardy', increased: null, decreased: null },
+  { name: 'lonely', increased: 'attack', decreased: 'defense' },
+  { name: 'brave', increased: 'attack', decreased: 'speed' },
+  { name: 'adamant', increased: 'attack', decreased: 'specialAttack' },
+  { name: 'naughty', increased: 'attack', decreased: 'specialDefense' },
+  { name: 'bold', increased: 'defense', decreased: 'attack' },
+  { name: 'docile', increased: null, decreased: null },
+  { name: 'relaxed', increased: 'defense', decreased: 'speed' },
+  { name: 'impish', increased: 'defense', decreased: 'specialAttack' },
+  { name: 'lax', increased: 'defense', decreased: 'specialDefense' },
+  { name: 'timid', increased: 'speed', decreased: 'attack' },
+  { name: 'hasty', increased: 'speed', decreased: 'defense' },
+  { name: 'serious', increased: null, decreased: null },
+  { name: 'jolly', increased: 'speed', decreased: 'specialAttack' },
+  { name: 'naive', increased: 'speed', decreased: 'specialDefense' },
+  { name: 'modest', increased: 'specialAttack', decreased: 'attack' },
+  { name: 'mild', increased: 'specialAttack', decreased: 'defense' },
+  { name: 'quiet', increased: 'specialAttack', decreased: 'speed' },
+  { name: 'bashful', increased: null, decreased: null },
+  { name: 'rash', increased: 'specialAttack', decreased: 'specialDefense' },
+  { name: 'calm', increased: 'specialDefense', decreased: 'attack' },
+  { name: 'gentle', increased: 'specialDefense', decreased: 'defense' },
+  { name: 'sassy', increased: 'specialDefense', decreased: 'speed' },
+  { name: 'careful', increased: 'specialDefense', decreased: 'specialAttack' },
+  { name: 'quirky', increased: null, decreased: null }
+];
+
+/**
+ * Input of an actual stat calculation
+ * Missing IVs default to 31, missing EVs to 0 and a missing nature to neutral
+ */
+export interface StatCalculationInput {
+  baseStats: PokemonStats;
+  level: number;
+  ivs?: Partial<PokemonStats>;
+  evs?: Partial<PokemonStats>;
+  nature?: string;
+}
+
+/**
+ * Result of validating a stat calculation input
+ */
+export interface StatValidationResult {
+  valid: boolean;
+  errors: string[];
+  evTotal: number;
+}
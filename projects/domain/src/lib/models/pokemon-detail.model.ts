@@ -1,4 +1,6 @@
 import { PokemonType } from './pokemon.model';
+import { OffensiveAdvantage } from './type-effectiveness.model';
+import { ComparisonStrategyResult } from './comparison-strategy.model';
 
 /**
  * Pokemon base stats
@@ -32,7 +34,8 @@ export interface PokemonAbility {
  * Detailed Pokemon information for comparison
  */
 export interface PokemonDetail {
-  id: number;
+  id: number; // Pokemon ID; alternate forms have IDs from 10000 on
+  speciesId: number; // Species this Pokemon is a form of
   name: string;
   spriteUrl: string;
   types: PokemonType[];
@@ -63,6 +66,8 @@ export interface TypeComparison {
   pokemon1Types: string[];
   pokemon2Types: string[];
   sharedTypes: string[];
+  pokemon1Advantage: OffensiveAdvantage; // pokemon1 attacking pokemon2
+  pokemon2Advantage: OffensiveAdvantage; // pokemon2 attacking pokemon1
 }
 
 /**
@@ -85,7 +90,8 @@ export interface PokemonComparison {
     weight: StatComparison;
   };
   typeComparison: TypeComparison;
-  overallWinner: 'pokemon1' | 'pokemon2' | 'tie';
+  overallWinner: 'pokemon1' | 'pokemon2' | 'tie'; // decided by strategyResult
   statsWonByPokemon1: number;
   statsWonByPokemon2: number;
+  strategyResult: ComparisonStrategyResult;
 }
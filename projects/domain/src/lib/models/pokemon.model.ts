@@ -1,3 +1,6 @@
+import { PokemonStats } from './pokemon-detail.model';
+import { LocalizedNames } from './language.model';
+
 /**
  * Represents a Pokemon's type (e.g., fire, water, grass)
  */
@@ -14,6 +17,7 @@ export interface PokemonSummary {
   name: string;
   spriteUrl: string;
   types: PokemonType[];
+  names?: LocalizedNames; // Species names; missing for alternate forms
 }
 
 /**
@@ -25,14 +29,35 @@ export interface PokemonPage {
   currentPage: number;
   pageSize: number;
   totalPages: number;
+  incomplete?: boolean; // Some rows failed to load and are left out; loading the page again may fill them
+}
+
+/**
+ * Inclusive numeric range; a missing bound leaves that side open
+ */
+export interface NumberRange {
+  min?: number;
+  max?: number;
 }
 
+/**
+ * Base stat ranges, keyed by stat (e.g. `{ speed: { min: 100 } }`)
+ */
+export type StatRanges = Partial<Record<keyof PokemonStats, NumberRange>>;
+
 /**
  * Filter criteria for querying Pokemon
  */
 export interface PokemonFilter {
-  search?: string;
-  types?: string[];
+  search?: string; // Name query in any supported language, matched against the whole dex
+  types?: string[]; // Pokemon must have all of these types
+  stats?: StatRanges;
+  baseStatTotal?: NumberRange;
+  generation?: NumberRange; // Generation the species was introduced in, e.g. { max: 4 }
+  isLegendary?: boolean; // true keeps only legendaries, false leaves them out
+  isMythical?: boolean; // true keeps only mythicals, false leaves them out
+  ability?: string; // Pokemon must be able to have this ability
+  ids?: number[]; // Pokemon must be one of these, e.g. the user's favorites
 }
 
 /**
@@ -42,3 +67,16 @@ export interface PaginationParams {
   page: number;
   pageSize: number;
 }
+
+/**
+ * Field the catalog can be sorted by
+ */
+export type PokemonSortKey = 'id' | 'name' | keyof PokemonStats | 'baseStatTotal' | 'height' | 'weight';
+
+/**
+ * Sort order of the catalog
+ */
+export interface PokemonSort {
+  key: PokemonSortKey;
+  direction: 'asc' | 'desc';
+}
@@ -0,0 +1,29 @@
+import { PokemonStatsEntry } from './stat-ranking.model';
+
+/**
+ * How stat profiles are compared:
+ * - cosine: shape of the stat spread only (a weaker Pokemon with the same role is similar)
+ * - euclidean: actual values, each stat scaled to 0-1
+ */
+export type SimilarityMetric = 'cosine' | 'euclidean';
+
+/**
+ * Options of a similarity search
+ */
+export interface SimilarityOptions {
+  metric?: SimilarityMetric; // cosine by default
+  typeWeight?: number; // weight of sharing types, relative to stats (weight 1); 0 by default
+  abilityWeight?: number; // weight of sharing abilities, relative to stats (weight 1); 0 by default
+  limit?: number; // number of Pokemon returned, 10 by default
+}
+
+/**
+ * A Pokemon close to the target, from the stats dataset
+ */
+export interface SimilarPokemon {
+  pokemon: PokemonStatsEntry;
+  distance: number; // 0 for identical, up to 1
+  similarity: number; // 0-100, higher is closer
+  sharedTypes: string[];
+  sharedAbilities: string[];
+}
@@ -0,0 +1,53 @@
+import { LocalizedNames } from './language.model';
+
+/**
+ * Pokedex entry text as written in one game version
+ */
+export interface FlavorTextEntry {
+  version: string; // e.g. 'red', 'sword'
+  text: string;
+}
+
+/**
+ * A Pokemon belonging to a species: its default form or an alternate form (e.g. 'raichu-alola')
+ */
+export interface PokemonVariety {
+  pokemonId: number;
+  name: string;
+  isDefault: boolean;
+}
+
+/**
+ * Broad category of a variety
+ */
+export type PokemonFormKind = 'default' | 'regional' | 'mega' | 'gigantamax' | 'other';
+
+/**
+ * A variety with its category and display label (e.g. 'Alolan', 'Mega X')
+ */
+export interface PokemonForm extends PokemonVariety {
+  kind: PokemonFormKind;
+  label: string;
+}
+
+/**
+ * Species-level data shared by all forms of a Pokemon
+ */
+export interface PokemonSpecies {
+  id: number;
+  name: string;
+  names: LocalizedNames;
+  genus: string; // e.g. 'Seed Pokémon'
+  generation: number; // generation the species was introduced in (1-based)
+  isLegendary: boolean;
+  isMythical: boolean;
+  isBaby: boolean;
+  captureRate: number; // 0-255, higher is easier
+  baseHappiness: number | null; // null when unknown
+  growthRate: string; // e.g. 'medium-slow'
+  eggGroups: string[];
+  habitat: string | null; // only set for Generation I-III species
+  color: string;
+  flavorTexts: FlavorTextEntry[]; // one entry per version, oldest first
+  varieties: PokemonVariety[]; // default form first
+}
@@ -0,0 +1,47 @@
+import { PokemonStats } from './pokemon-detail.model';
+
+/**
+ * Base stats of one Pokemon in the dex-wide stats dataset
+ */
+export interface PokemonStatsEntry {
+  id: number;
+  name: string;
+  speciesId: number;
+  spriteUrl: string;
+  generation: number | null; // generation the species was introduced in, if known
+  types: string[]; // type names, in slot order
+  abilities: string[]; // ability names, hidden ability included
+  isFullyEvolved: boolean; // true if no species evolves from this one
+  stats: PokemonStats;
+}
+
+/**
+ * A base stat or the base stat total
+ */
+export type RankedStat = keyof PokemonStats | 'baseStatTotal';
+
+/**
+ * Pokemon a ranking compares against; an empty scope means the whole dex
+ */
+export interface StatRankingScope {
+  generation?: number; // only species introduced in this generation
+  type?: string; // only Pokemon having this type
+}
+
+/**
+ * Where one stat value stands among the compared Pokemon
+ */
+export interface StatRank {
+  value: number;
+  rank: number; // 1 for the highest value; ties share the best rank
+  outOf: number; // number of Pokemon compared, this one included
+  percentile: number; // share of the other Pokemon with a lower value, 0-100
+}
+
+/**
+ * Rank of each base stat and of the base stat total
+ */
+export interface DexStatRanking {
+  scope: StatRankingScope;
+  stats: Record<RankedStat, StatRank>;
+}
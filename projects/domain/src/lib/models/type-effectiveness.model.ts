@@ -0,0 +1,96 @@
+/**
+ * The 18 Pokemon types, as named by PokeAPI
+ */
+export const POKEMON_TYPE_NAMES = [
+  'normal',
+  'fire',
+  'water',
+  'electric',
+  'grass',
+  'ice',
+  'fighting',
+  'poison',
+  'ground',
+  'flying',
+  'psychic',
+  'bug',
+  'rock',
+  'ghost',
+  'dragon',
+  'dark',
+  'steel',
+  'fairy'
+] as const;
+
+/**
+ * Name of one of the 18 Pokemon types
+ */
+export type PokemonTypeName = typeof POKEMON_TYPE_NAMES[number];
+
+/**
+ * Damage multiplier applied to a move against a single- or dual-type defender
+ */
+export type TypeEffectivenessMultiplier = 0 | 0.25 | 0.5 | 1 | 2 | 4;
+
+/**
+ * Attacking type -> defending type multipliers.
+ * Only non-neutral matchups are listed, any missing entry is 1x.
+ */
+export const TYPE_CHART: Readonly<Record<PokemonTypeName, Partial<Record<PokemonTypeName, 0 | 0.5 | 2>>>> = {
+  normal: { rock: 0.5, ghost: 0, steel: 0.5 },
+  fire: { fire: 0.5, water: 0.5, grass: 2, ice: 2, bug: 2, rock: 0.5, dragon: 0.5, steel: 2 },
+  water: { fire: 2, water: 0.5, grass: 0.5, ground: 2, rock: 2, dragon: 0.5 },
+  electric: { water: 2, electric: 0.5, grass: 0.5, ground: 0, flying: 2, dragon: 0.5 },
+  grass: {
+    fire: 0.5, water: 2, grass: 0.5, poison: 0.5, ground: 2,
+    flying: 0.5, bug: 0.5, rock: 2, dragon: 0.5, steel: 0.5
+  },
+  ice: { fire: 0.5, water: 0.5, grass: 2, ice: 0.5, ground: 2, flying: 2, dragon: 2, steel: 0.5 },
+  fighting: {
+    normal: 2, ice: 2, poison: 0.5, flying: 0.5, psychic: 0.5, bug: 0.5,
+    rock: 2, ghost: 0, dark: 2, steel: 2, fairy: 0.5
+  },
+  poison: { grass: 2, poison: 0.5, ground: 0.5, rock: 0.5, ghost: 0.5, steel: 0, fairy: 2 },
+  ground: { fire: 2, electric: 2, grass: 0.5, poison: 2, flying: 0, bug: 0.5, rock: 2, steel: 2 },
+  flying: { electric: 0.5, grass: 2, fighting: 2, bug: 2, rock: 0.5, steel: 0.5 },
+  psychic: { fighting: 2, poison: 2, psychic: 0.5, dark: 0, steel: 0.5 },
+  bug: {
+    fire: 0.5, grass: 2, fighting: 0.5, poison: 0.5, flying: 0.5, psychic: 2,
+    ghost: 0.5, dark: 2, steel: 0.5, fairy: 0.5
+  },
+  rock: { fire: 2, ice: 2, fighting: 0.5, ground: 0.5, flying: 2, bug: 2, steel: 0.5 },
+  ghost: { normal: 0, psychic: 2, ghost: 2, dark: 0.5 },
+  dragon: { dragon: 2, steel: 0.5, fairy: 0 },
+  dark: { fighting: 0.5, psychic: 2, ghost: 2, dark: 0.5, fairy: 0.5 },
+  steel: { fire: 0.5, water: 0.5, electric: 0.5, ice: 2, rock: 2, steel: 0.5, fairy: 2 },
+  fairy: { fire: 0.5, fighting: 2, poison: 0.5, dragon: 2, dark: 2, steel: 0.5 }
+};
+
+/**
+ * How every attacking type fares against a given (single or dual) typing
+ */
+export interface DefensiveProfile {
+  types: string[];
+  multipliers: Record<PokemonTypeName, TypeEffectivenessMultiplier>;
+  weaknesses: PokemonTypeName[];  // multiplier > 1
+  resistances: PokemonTypeName[]; // 0 < multiplier < 1
+  immunities: PokemonTypeName[];  // multiplier = 0
+}
+
+/**
+ * Multiplier achieved by a single attacking type against a defender
+ */
+export interface TypeMatchup {
+  type: string;
+  multiplier: TypeEffectivenessMultiplier;
+}
+
+/**
+ * Offensive advantage of one typing against another,
+ * assuming the attacker uses moves of its own types (STAB)
+ */
+export interface OffensiveAdvantage {
+  byType: TypeMatchup[];
+  bestMultiplier: TypeEffectivenessMultiplier;
+  bestTypes: string[];
+}
@@ -0,0 +1,21 @@
+import { InjectionToken } from '@angular/core';
+import { Observable } from 'rxjs';
+import { AbilityDetail } from '../models/ability.model';
+
+/**
+ * Port interface for fetching ability data
+ * Observables fail with a DomainError (see domain-error.model)
+ */
+export interface AbilityRepository {
+  /**
+   * Retrieves an ability by name
+   * @param name - Ability name (e.g. 'overgrow')
+   * @returns Observable of AbilityDetail
+   */
+  getAbility(name: string): Observable<AbilityDetail>;
+}
+
+/**
+ * Injection token for the AbilityRepository
+ */
+export const ABILITY_REPOSITORY = new InjectionToken<AbilityRepository>('AbilityRepository');
@@ -0,0 +1,32 @@
+import { InjectionToken } from '@angular/core';
+import {
+  ComparisonStrategyOptions,
+  ComparisonStrategyResult,
+  UnscoredComparison
+} from '../models/comparison-strategy.model';
+
+/**
+ * Port interface for deciding who wins a two-Pokemon comparison
+ */
+export interface ComparisonStrategy {
+  /** Stable identifier, e.g. used to remember the user's choice */
+  readonly id: string;
+  /** Human-readable name */
+  readonly name: string;
+  /** One-line explanation of how the score is computed */
+  readonly description: string;
+
+  /**
+   * Scores both Pokemon of a comparison and picks the winner
+   * @param comparison - Stat, physical and type comparison of the two Pokemon
+   * @param options - User-provided settings (e.g. stat weights)
+   * @returns ComparisonStrategyResult
+   */
+  evaluate(comparison: UnscoredComparison, options?: ComparisonStrategyOptions): ComparisonStrategyResult;
+}
+
+/**
+ * Injection token for the available ComparisonStrategy implementations
+ * The first strategy is used when none is requested explicitly
+ */
+export const COMPARISON_STRATEGIES = new InjectionToken<ComparisonStrategy[]>('ComparisonStrategies');
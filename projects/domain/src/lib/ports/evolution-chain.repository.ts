@@ -0,0 +1,28 @@
+import { InjectionToken } from '@angular/core';
+import { Observable } from 'rxjs';
+import { EvolutionChain } from '../models/evolution.model';
+
+/**
+ * Port interface for fetching evolution chains
+ * Observables fail with a DomainError (see domain-error.model)
+ */
+export interface EvolutionChainRepository {
+  /**
+   * Retrieves the evolution chain a species belongs to
+   * @param speciesId - Species ID (equal to the Pokemon ID for default forms)
+   * @returns Observable of EvolutionChain
+   */
+  getEvolutionChainBySpeciesId(speciesId: number): Observable<EvolutionChain>;
+
+  /**
+   * Retrieves an evolution chain by its own ID
+   * @param chainId - Evolution chain ID
+   * @returns Observable of EvolutionChain
+   */
+  getEvolutionChain(chainId: number): Observable<EvolutionChain>;
+}
+
+/**
+ * Injection token for the EvolutionChainRepository
+ */
+export const EVOLUTION_CHAIN_REPOSITORY = new InjectionToken<EvolutionChainRepository>('EvolutionChainRepository');
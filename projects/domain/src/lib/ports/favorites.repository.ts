@@ -0,0 +1,35 @@
+import { InjectionToken } from '@angular/core';
+import { Observable } from 'rxjs';
+
+/**
+ * Port interface for the Pokemon the user bookmarked
+ * Observables fail with a DomainError (see domain-error.model)
+ */
+export interface FavoritesRepository {
+  /**
+   * Watches the favorite Pokemon
+   * Implementations emit the current favorites at once, then on every change,
+   * including changes made by other microfrontends and other browser tabs
+   * @returns Observable of the favorite Pokemon IDs, in the order they were added
+   */
+  getFavorites(): Observable<number[]>;
+
+  /**
+   * Bookmarks a Pokemon; adding a favorite again does nothing
+   * @param id - Pokemon ID
+   * @returns Observable completing once the favorite is saved
+   */
+  addFavorite(id: number): Observable<void>;
+
+  /**
+   * Removes a Pokemon from the favorites; removing a Pokemon that is not a favorite does nothing
+   * @param id - Pokemon ID
+   * @returns Observable completing once the favorite is removed
+   */
+  removeFavorite(id: number): Observable<void>;
+}
+
+/**
+ * Injection token for the FavoritesRepository
+ */
+export const FAVORITES_REPOSITORY = new InjectionToken<FavoritesRepository>('FavoritesRepository');
@@ -0,0 +1,12 @@
+import { InjectionToken, Signal, signal } from '@angular/core';
+import { GameContext, LATEST_GAME_CONTEXT } from '../models/game-context.model';
+
+/**
+ * Injection token for the games the data should match, as a signal
+ * Adapters read it whenever they map types and stats, so that the user's choice of games
+ * applies to every request; the latest games are used when nothing provides it
+ */
+export const GAME_CONTEXT = new InjectionToken<Signal<GameContext>>('GameContext', {
+  providedIn: 'root',
+  factory: () => signal(LATEST_GAME_CONTEXT).asReadonly()
+});
@@ -0,0 +1,35 @@
+import { InjectionToken } from '@angular/core';
+import { Observable } from 'rxjs';
+import { Learnset, Move } from '../models/move.model';
+
+/**
+ * Port interface for fetching moves and learnsets
+ * Observables fail with a DomainError (see domain-error.model)
+ */
+export interface MoveRepository {
+  /**
+   * Retrieves the moves a Pokemon can learn
+   * @param pokemonId - Pokemon ID
+   * @returns Observable of Learnset
+   */
+  getLearnset(pokemonId: number): Observable<Learnset>;
+
+  /**
+   * Retrieves a move by name
+   * @param name - Move name (e.g. 'thunderbolt')
+   * @returns Observable of Move
+   */
+  getMove(name: string): Observable<Move>;
+
+  /**
+   * Retrieves several moves by name
+   * @param names - Move names
+   * @returns Observable of the moves, in the same order
+   */
+  getMoves(names: string[]): Observable<Move[]>;
+}
+
+/**
+ * Injection token for the MoveRepository
+ */
+export const MOVE_REPOSITORY = new InjectionToken<MoveRepository>('MoveRepository');
@@ -4,6 +4,7 @@ import { PokemonDetail } from '../models/pokemon-detail.model';
 
 /**
  * Port interface for fetching detailed Pokemon data
+ * Observables fail with a DomainError (see domain-error.model)
  */
 export interface PokemonDetailRepository {
   /**
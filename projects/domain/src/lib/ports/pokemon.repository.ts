@@ -1,19 +1,24 @@
 import { Observable } from 'rxjs';
-import { PokemonPage, PokemonFilter, PaginationParams, PokemonSummary } from '../models/pokemon.model';
+import { PokemonPage, PokemonFilter, PaginationParams, PokemonSummary, PokemonSort } from '../models/pokemon.model';
 import { InjectionToken } from '@angular/core';
 
 /**
  * Port interface for Pokemon data retrieval
  * Following hexagonal architecture, this is the outbound port that adapters will implement
+ * Observables fail with a DomainError (see domain-error.model)
  */
 export interface PokemonRepository {
   /**
    * Retrieves a paginated list of Pokemon
    * @param pagination - Pagination parameters
    * @param filter - Optional filter criteria
-   * @returns Observable of PokemonPage
+   * @param sort - Optional sort order, applied to all matches before paginating;
+   * without it, Pokemon come in dex order, or best match first when searching
+   * @returns Observable of PokemonPage; may emit the page several times as its rows load,
+   * the last emission being complete. Rows that fail to load are left out and the page is
+   * marked `incomplete`
    */
-  getPokemonList(pagination: PaginationParams, filter?: PokemonFilter): Observable<PokemonPage>;
+  getPokemonList(pagination: PaginationParams, filter?: PokemonFilter, sort?: PokemonSort): Observable<PokemonPage>;
 
   /**
    * Retrieves a single Pokemon by ID
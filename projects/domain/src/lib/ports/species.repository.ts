@@ -0,0 +1,21 @@
+import { InjectionToken } from '@angular/core';
+import { Observable } from 'rxjs';
+import { PokemonSpecies } from '../models/species.model';
+
+/**
+ * Port interface for fetching species data
+ * Observables fail with a DomainError (see domain-error.model)
+ */
+export interface SpeciesRepository {
+  /**
+   * Retrieves species data by ID
+   * @param speciesId - Species ID (equal to the Pokemon ID for default forms)
+   * @returns Observable of PokemonSpecies
+   */
+  getSpecies(speciesId: number): Observable<PokemonSpecies>;
+}
+
+/**
+ * Injection token for the SpeciesRepository
+ */
+export const SPECIES_REPOSITORY = new InjectionToken<SpeciesRepository>('SpeciesRepository');
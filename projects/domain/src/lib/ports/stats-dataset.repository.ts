@@ -0,0 +1,22 @@
+import { InjectionToken } from '@angular/core';
+import { Observable } from 'rxjs';
+import { PokemonStatsEntry } from '../models/stat-ranking.model';
+
+/**
+ * Port interface for fetching the base stats of every Pokemon at once
+ * Observables fail with a DomainError (see domain-error.model)
+ */
+export interface StatsDatasetRepository {
+  /**
+   * Retrieves the base stats of every Pokemon in the games of the game context, alternate forms included
+   * Pokemon introduced in later generations are left out
+   * Implementations are expected to cache the dataset, as it is large and rarely changes
+   * @returns Observable of the dataset, in dex order
+   */
+  getStatsDataset(): Observable<PokemonStatsEntry[]>;
+}
+
+/**
+ * Injection token for the StatsDatasetRepository
+ */
+export const STATS_DATASET_REPOSITORY = new InjectionToken<StatsDatasetRepository>('StatsDatasetRepository');
@@ -0,0 +1,43 @@
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+import { AbilityDetail } from '../models/ability.model';
+import { ABILITY_REPOSITORY } from '../ports/ability.repository';
+
+import { AbilityService } from './ability.service';
+
+describe('AbilityService', () => {
+  let service: AbilityService;
+
+  const overgrow: AbilityDetail = {
+    id: 65,
+    name: 'overgrow',
+    effect: 'When this Pokémon has 1/3 or less of its HP remaining, its grass-type moves inflict 1.5× as much regular damage.',
+    shortEffect: 'Strengthens grass moves to inflict 1.5× damage at 1/3 max HP or less.',
+    pokemon: [
+      { id: 152, name: 'chikorita', spriteUrl: '', isHidden: false },
+      { id: 2, name: 'ivysaur', spriteUrl: '', isHidden: false },
+      { id: 1, name: 'bulbasaur', spriteUrl: '', isHidden: false }
+    ]
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        AbilityService,
+        { provide: ABILITY_REPOSITORY, useValue: { getAbility: () => of(overgrow) } }
+      ]
+    });
+    service = TestBed.inject(AbilityService);
+  });
+
+  it('should fetch abilities through the repository', () => {
+    let ability: AbilityDetail | undefined;
+    service.getAbility('overgrow').subscribe(a => ability = a);
+
+    expect(ability?.shortEffect).toContain('grass');
+  });
+
+  it('should list the other holders by Pokedex number', () => {
+    expect(service.getOtherHolders(overgrow, 1).map(h => h.name)).toEqual(['ivysaur', 'chikorita']);
+  });
+});
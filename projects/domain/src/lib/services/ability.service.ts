@@ -0,0 +1,38 @@
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { AbilityDetail, AbilityHolder } from '../models/ability.model';
+import { ABILITY_REPOSITORY } from '../ports/ability.repository';
+
+/**
+ * Domain service for abilities
+ */
+@Injectable()
+export class AbilityService {
+  private readonly repository = inject(ABILITY_REPOSITORY);
+
+  /**
+   * Retrieves an ability with its effect and the Pokemon that can have it
+   * @param name - Ability name (e.g. 'overgrow')
+   * @returns Observable of AbilityDetail
+   */
+  getAbility(name: string): Observable<AbilityDetail> {
+    return this.repository.getAbility(name);
+  }
+
+  /**
+   * Lists the other Pokemon sharing an ability, by Pokedex number
+   * @param ability - Ability
+   * @param pokemonId - Pokemon to leave out (usually the one being viewed)
+   * @returns Holders other than the given Pokemon
+   */
+  getOtherHolders(ability: AbilityDetail, pokemonId: number): AbilityHolder[] {
+    return ability.pokemon
+      .filter(holder => holder.id !== pokemonId)
+      .sort((a, b) => a.id - b.id);
+  }
+}
+
+/**
+ * Injection token for the AbilityService
+ */
+export const ABILITY_SERVICE = new InjectionToken<AbilityService>('AbilityService');
@@ -0,0 +1,66 @@
+import { TestBed } from '@angular/core/testing';
+import { PokemonDetail, PokemonStats } from '../models/pokemon-detail.model';
+import { COMPARISON_STRATEGIES } from '../ports/comparison.strategy';
+
+import { ComparisonService } from './comparison.service';
+import { BaseStatTotalStrategy } from './comparison-strategies';
+
+describe('Comparison strategies', () => {
+  let service: ComparisonService;
+
+  const createPokemon = (id: number, name: string, types: string[], stats: PokemonStats): PokemonDetail => ({
+    id,
+    speciesId: id,
+    name,
+    spriteUrl: '',
+    types: types.map((type, i) => ({ name: type, slot: i + 1 })),
+    stats,
+    physical: { height: 10, weight: 100 },
+    abilities: [],
+    baseExperience: 100
+  });
+
+  const bulbasaur = createPokemon(1, 'bulbasaur', ['grass', 'poison'], {
+    hp: 45, attack: 49, defense: 49, specialAttack: 65, specialDefense: 65, speed: 45
+  });
+  const charmander = createPokemon(4, 'charmander', ['fire'], {
+    hp: 39, attack: 52, defense: 43, specialAttack: 60, specialDefense: 50, speed: 65
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ComparisonService);
+  });
+
+  it('should score a matchup with every built-in strategy', () => {
+    const results = service.evaluateAll(service.compare(bulbasaur, charmander));
+
+    expect(results.map(r => [r.strategyId, r.pokemon1Score, r.pokemon2Score, r.winner])).toEqual([
+      ['stat-wins', 4, 2, 'pokemon1'],
+      ['bst', 318, 309, 'pokemon1'],
+      ['weighted', 318, 309, 'pokemon1'],
+      ['offensive', 159, 354, 'pokemon2'],
+      ['defensive', 79.5, 132, 'pokemon2']
+    ]);
+  });
+
+  it('should apply user weights in the weighted strategy', () => {
+    const weighted = service.getStrategy('weighted')!;
+    const result = service.compare(bulbasaur, charmander, weighted, { weights: { speed: 3 } });
+
+    expect(result.strategyResult.pokemon1Score).toBe(408);
+    expect(result.strategyResult.pokemon2Score).toBe(439);
+    expect(result.overallWinner).toBe('pokemon2');
+  });
+
+  it('should use the first injected strategy by default', () => {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({
+      providers: [{ provide: COMPARISON_STRATEGIES, useValue: [new BaseStatTotalStrategy()] }]
+    });
+    service = TestBed.inject(ComparisonService);
+
+    expect(service.getStrategies().map(s => s.id)).toEqual(['bst']);
+    expect(service.compare(bulbasaur, charmander).strategyResult.strategyId).toBe('bst');
+  });
+});
@@ -0,0 +1,139 @@
+import { PokemonStats } from '../models/pokemon-detail.model';
+import {
+  ComparisonStrategyOptions,
+  ComparisonStrategyResult,
+  DEFAULT_STAT_WEIGHTS,
+  UnscoredComparison
+} from '../models/comparison-strategy.model';
+import { ComparisonStrategy } from '../ports/comparison.strategy';
+
+/**
+ * Counts stat wins; total base stats break a tie
+ * This is the historical behaviour of ComparisonService.compare
+ */
+export class StatWinsStrategy implements ComparisonStrategy {
+  readonly id = 'stat-wins';
+  readonly name = 'Stat wins';
+  readonly description = 'Most individual stats won, total base stats as tiebreaker';
+
+  evaluate(comparison: UnscoredComparison): ComparisonStrategyResult {
+    const score1 = comparison.statsWonByPokemon1;
+    const score2 = comparison.statsWonByPokemon2;
+    const winner = score1 === score2 ? comparison.stats.total.winner : toWinner(score1, score2);
+
+    return toResult(this, score1, score2, winner);
+  }
+}
+
+/**
+ * Highest total base stats (BST) wins
+ */
+export class BaseStatTotalStrategy implements ComparisonStrategy {
+  readonly id = 'bst';
+  readonly name = 'Base stat total';
+  readonly description = 'Highest sum of all six base stats';
+
+  evaluate(comparison: UnscoredComparison): ComparisonStrategyResult {
+    const { pokemon1Value, pokemon2Value } = comparison.stats.total;
+    return toResult(this, pokemon1Value, pokemon2Value, toWinner(pokemon1Value, pokemon2Value));
+  }
+}
+
+/**
+ * Sum of base stats multiplied by user-provided weights
+ * Stats without a weight count once
+ */
+export class WeightedStatsStrategy implements ComparisonStrategy {
+  readonly id = 'weighted';
+  readonly name = 'Weighted stats';
+  readonly description = 'Sum of base stats multiplied by your own stat weights';
+
+  evaluate(comparison: UnscoredComparison, options?: ComparisonStrategyOptions): ComparisonStrategyResult {
+    const weights = { ...DEFAULT_STAT_WEIGHTS, ...options?.weights };
+    const score = (stats: PokemonStats) => round(
+      (Object.keys(weights) as (keyof PokemonStats)[]).reduce((sum, stat) => sum + stats[stat] * weights[stat], 0)
+    );
+    const score1 = score(comparison.pokemon1.stats);
+    const score2 = score(comparison.pokemon2.stats);
+
+    return toResult(this, score1, score2, toWinner(score1, score2));
+  }
+}
+
+/**
+ * Favours either the offensive or the defensive side of a matchup, including types
+ * - offensive: (Attack + Sp. Attack + Speed) × best STAB multiplier against the opponent
+ * - defensive: (HP + Defense + Sp. Defense) ÷ the opponent's best STAB multiplier (immunities count as ×¼)
+ */
+export class StatBiasStrategy implements ComparisonStrategy {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+
+  constructor(private readonly bias: 'offensive' | 'defensive') {
+    this.id = bias;
+    this.name = bias === 'offensive' ? 'Offensive bias' : 'Defensive bias';
+    this.description = bias === 'offensive'
+      ? 'Attack, Sp. Attack and Speed, scaled by type advantage'
+      : 'HP, Defense and Sp. Defense, scaled by type resistance';
+  }
+
+  evaluate(comparison: UnscoredComparison): ComparisonStrategyResult {
+    const { pokemon1, pokemon2, typeComparison } = comparison;
+    const multiplier1 = typeComparison.pokemon1Advantage.bestMultiplier;
+    const multiplier2 = typeComparison.pokemon2Advantage.bestMultiplier;
+
+    const score1 = this.bias === 'offensive'
+      ? round(this.offense(pokemon1.stats) * multiplier1)
+      : round(this.defense(pokemon1.stats) / Math.max(multiplier2, 0.25));
+    const score2 = this.bias === 'offensive'
+      ? round(this.offense(pokemon2.stats) * multiplier2)
+      : round(this.defense(pokemon2.stats) / Math.max(multiplier1, 0.25));
+
+    return toResult(this, score1, score2, toWinner(score1, score2));
+  }
+
+  private offense(stats: PokemonStats): number {
+    return stats.attack + stats.specialAttack + stats.speed;
+  }
+
+  private defense(stats: PokemonStats): number {
+    return stats.hp + stats.defense + stats.specialDefense;
+  }
+}
+
+/**
+ * Built-in strategies, stat wins first so it stays the default
+ */
+export const DEFAULT_COMPARISON_STRATEGIES: ComparisonStrategy[] = [
+  new StatWinsStrategy(),
+  new BaseStatTotalStrategy(),
+  new WeightedStatsStrategy(),
+  new StatBiasStrategy('offensive'),
+  new StatBiasStrategy('defensive')
+];
+
+function toWinner(score1: number, score2: number): 'pokemon1' | 'pokemon2' | 'tie' {
+  if (score1 > score2) return 'pokemon1';
+  if (score2 > score1) return 'pokemon2';
+  return 'tie';
+}
+
+function toResult(
+  strategy: ComparisonStrategy,
+  pokemon1Score: number,
+  pokemon2Score: number,
+  winner: 'pokemon1' | 'pokemon2' | 'tie'
+): ComparisonStrategyResult {
+  return {
+    strategyId: strategy.id,
+    strategyName: strategy.name,
+    pokemon1Score,
+    pokemon2Score,
+    winner
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,76 @@
+import { TestBed } from '@angular/core/testing';
+import { PokemonDetail, PokemonStats } from '../models/pokemon-detail.model';
+
+import { ComparisonService } from './comparison.service';
+
+describe('ComparisonService', () => {
+  let service: ComparisonService;
+
+  const createPokemon = (id: number, name: string, types: string[], stats: PokemonStats): PokemonDetail => ({
+    id,
+    speciesId: id,
+    name,
+    spriteUrl: '',
+    types: types.map((type, i) => ({ name: type, slot: i + 1 })),
+    stats,
+    physical: { height: 10, weight: 100 },
+    abilities: [],
+    baseExperience: 100
+  });
+
+  const bulbasaur = createPokemon(1, 'bulbasaur', ['grass', 'poison'], {
+    hp: 45, attack: 49, defense: 49, specialAttack: 65, specialDefense: 65, speed: 45
+  });
+  const charmander = createPokemon(4, 'charmander', ['fire'], {
+    hp: 39, attack: 52, defense: 43, specialAttack: 60, specialDefense: 50, speed: 65
+  });
+  const squirtle = createPokemon(7, 'squirtle', ['water'], {
+    hp: 44, attack: 48, defense: 65, specialAttack: 50, specialDefense: 64, speed: 43
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ComparisonService);
+  });
+
+  it('should compare two Pokemon', () => {
+    const result = service.compare(bulbasaur, charmander);
+
+    expect(result.statsWonByPokemon1).toBe(4);
+    expect(result.statsWonByPokemon2).toBe(2);
+    expect(result.overallWinner).toBe('pokemon1');
+    expect(result.typeComparison.pokemon1Advantage.bestMultiplier).toBe(1);
+    expect(result.typeComparison.pokemon2Advantage.bestMultiplier).toBe(2);
+  });
+
+  it('should rank every stat across N Pokemon', () => {
+    const result = service.compareMany([bulbasaur, charmander, squirtle]);
+
+    expect(result.stats.speed.rankings.map(r => r.index)).toEqual([1, 0, 2]);
+    expect(result.stats.speed.winners).toEqual([1]);
+    expect(result.stats.defense.values).toEqual([49, 43, 65]);
+    expect(result.typeMatchups[2][1].bestMultiplier).toBe(2);
+  });
+
+  it('should share ranks between tied entries', () => {
+    const twin = { ...bulbasaur, id: 10001 };
+    const result = service.compareMany([bulbasaur, twin, charmander]);
+
+    expect(result.stats.hp.rankings.map(r => r.rank)).toEqual([1, 1, 3]);
+    expect(result.stats.hp.isTie).toBe(true);
+    expect(result.standings.map(s => s.pokemon.name)).toEqual(['charmander', 'bulbasaur', 'bulbasaur']);
+    expect(result.standings.map(s => s.rank)).toEqual([1, 2, 2]);
+  });
+
+  it('should order the overall standing by stat wins, then total', () => {
+    const result = service.compareMany([bulbasaur, charmander, squirtle]);
+
+    expect(result.standings.map(s => s.pokemon.name)).toEqual(['bulbasaur', 'charmander', 'squirtle']);
+    expect(result.overallWinners).toEqual([0]);
+  });
+
+  it('should reject fewer than 2 or more than 6 Pokemon', () => {
+    expect(() => service.compareMany([bulbasaur])).toThrow(RangeError);
+    expect(() => service.compareMany(new Array(7).fill(bulbasaur))).toThrow(RangeError);
+  });
+});
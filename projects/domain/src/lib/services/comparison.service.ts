@@ -1,24 +1,67 @@
-import { Injectable, InjectionToken } from '@angular/core';
+import { Injectable, InjectionToken, inject } from '@angular/core';
 import { 
   PokemonDetail, 
   PokemonComparison, 
   StatComparison, 
   TypeComparison 
 } from '../models/pokemon-detail.model';
+import {
+  ComparisonStanding,
+  MAX_COMPARISON_SIZE,
+  MIN_COMPARISON_SIZE,
+  MultiPokemonComparison,
+  MultiStatComparison,
+  StatRanking
+} from '../models/multi-comparison.model';
+import {
+  ComparisonStrategyOptions,
+  ComparisonStrategyResult,
+  UnscoredComparison
+} from '../models/comparison-strategy.model';
+import { COMPARISON_STRATEGIES, ComparisonStrategy } from '../ports/comparison.strategy';
+import { TypeEffectivenessService } from './type-effectiveness.service';
+import { DEFAULT_COMPARISON_STRATEGIES } from './comparison-strategies';
 
 /**
- * Service for comparing two Pokemon
+ * Service for comparing two or more Pokemon
  * This is a domain service that contains the core comparison logic
  */
 @Injectable({
   providedIn: 'root'
 })
 export class ComparisonService {
+  private readonly typeEffectivenessService = inject(TypeEffectivenessService);
+  private readonly strategies = inject(COMPARISON_STRATEGIES, { optional: true }) ?? DEFAULT_COMPARISON_STRATEGIES;
+
+  /**
+   * Returns the available comparison strategies, the default one first
+   */
+  getStrategies(): ComparisonStrategy[] {
+    return this.strategies;
+  }
+
+  /**
+   * Finds a comparison strategy by its id
+   * @param id - Strategy id (e.g. 'stat-wins')
+   * @returns The strategy, or undefined if it is not available
+   */
+  getStrategy(id: string): ComparisonStrategy | undefined {
+    return this.strategies.find(s => s.id === id);
+  }
 
   /**
    * Compares two Pokemon and returns a detailed comparison result
+   * @param pokemon1 - First Pokemon
+   * @param pokemon2 - Second Pokemon
+   * @param strategy - Strategy deciding the overall winner (defaults to the first available one)
+   * @param options - Settings passed to the strategy (e.g. stat weights)
    */
-  compare(pokemon1: PokemonDetail, pokemon2: PokemonDetail): PokemonComparison {
+  compare(
+    pokemon1: PokemonDetail,
+    pokemon2: PokemonDetail,
+    strategy: ComparisonStrategy = this.strategies[0],
+    options?: ComparisonStrategyOptions
+  ): PokemonComparison {
     const statsComparison = this.compareStats(pokemon1, pokemon2);
     const physicalComparison = this.comparePhysical(pokemon1, pokemon2);
     const typeComparison = this.compareTypes(pokemon1, pokemon2);
@@ -36,30 +79,84 @@ export class ComparisonService {
     const statsWonByPokemon1 = allStatComparisons.filter(s => s.winner === 'pokemon1').length;
     const statsWonByPokemon2 = allStatComparisons.filter(s => s.winner === 'pokemon2').length;
 
-    let overallWinner: 'pokemon1' | 'pokemon2' | 'tie';
-    if (statsWonByPokemon1 > statsWonByPokemon2) {
-      overallWinner = 'pokemon1';
-    } else if (statsWonByPokemon2 > statsWonByPokemon1) {
-      overallWinner = 'pokemon2';
-    } else {
-      // Tiebreaker: total base stats
-      if (statsComparison.total.winner !== 'tie') {
-        overallWinner = statsComparison.total.winner;
-      } else {
-        overallWinner = 'tie';
-      }
-    }
-
-    return {
+    const comparison: UnscoredComparison = {
       pokemon1,
       pokemon2,
       stats: statsComparison,
       physical: physicalComparison,
       typeComparison,
-      overallWinner,
       statsWonByPokemon1,
       statsWonByPokemon2
     };
+
+    const strategyResult = strategy.evaluate(comparison, options);
+    return { ...comparison, overallWinner: strategyResult.winner, strategyResult };
+  }
+
+  /**
+   * Scores a comparison with every available strategy
+   * @param comparison - Comparison returned by compare
+   * @param options - Settings passed to the strategies (e.g. stat weights)
+   * @returns One result per strategy, in the order of getStrategies
+   */
+  evaluateAll(comparison: PokemonComparison, options?: ComparisonStrategyOptions): ComparisonStrategyResult[] {
+    return this.strategies.map(strategy => strategy.evaluate(comparison, options));
+  }
+
+  /**
+   * Compares 2 to 6 Pokemon, ranking them on every stat and overall
+   * The overall standing uses stat wins, with total base stats as the tiebreaker
+   * @param pokemon - Pokemon to compare
+   * @returns MultiPokemonComparison
+   * @throws RangeError if fewer than 2 or more than 6 Pokemon are given
+   */
+  compareMany(pokemon: PokemonDetail[]): MultiPokemonComparison {
+    if (pokemon.length < MIN_COMPARISON_SIZE || pokemon.length > MAX_COMPARISON_SIZE) {
+      throw new RangeError(
+        `Between ${MIN_COMPARISON_SIZE} and ${MAX_COMPARISON_SIZE} Pokemon can be compared (got ${pokemon.length})`
+      );
+    }
+
+    const totals = pokemon.map(p => this.calculateTotalStats(p));
+    const stats = {
+      hp: this.createMultiStatComparison('HP', pokemon.map(p => p.stats.hp)),
+      attack: this.createMultiStatComparison('Attack', pokemon.map(p => p.stats.attack)),
+      defense: this.createMultiStatComparison('Defense', pokemon.map(p => p.stats.defense)),
+      specialAttack: this.createMultiStatComparison('Sp. Attack', pokemon.map(p => p.stats.specialAttack)),
+      specialDefense: this.createMultiStatComparison('Sp. Defense', pokemon.map(p => p.stats.specialDefense)),
+      speed: this.createMultiStatComparison('Speed', pokemon.map(p => p.stats.speed)),
+      total: this.createMultiStatComparison('Total', totals)
+    };
+
+    const physical = {
+      height: this.createMultiStatComparison('Height', pokemon.map(p => p.physical.height)),
+      weight: this.createMultiStatComparison('Weight', pokemon.map(p => p.physical.weight))
+    };
+
+    const typeMatchups = pokemon.map(attacker => pokemon.map(defender =>
+      this.typeEffectivenessService.getOffensiveAdvantage(
+        attacker.types.map(t => t.name),
+        defender.types.map(t => t.name)
+      )
+    ));
+
+    const standings = this.createStandings(pokemon, [
+      stats.hp,
+      stats.attack,
+      stats.defense,
+      stats.specialAttack,
+      stats.specialDefense,
+      stats.speed
+    ], totals);
+
+    return {
+      entries: pokemon,
+      stats,
+      physical,
+      typeMatchups,
+      standings,
+      overallWinners: standings.filter(s => s.rank === 1).map(s => s.index)
+    };
   }
 
   private compareStats(pokemon1: PokemonDetail, pokemon2: PokemonDetail) {
@@ -92,7 +189,9 @@ export class ComparisonService {
     return {
       pokemon1Types: types1,
       pokemon2Types: types2,
-      sharedTypes
+      sharedTypes,
+      pokemon1Advantage: this.typeEffectivenessService.getOffensiveAdvantage(types1, types2),
+      pokemon2Advantage: this.typeEffectivenessService.getOffensiveAdvantage(types2, types1)
     };
   }
 
@@ -117,6 +216,56 @@ export class ComparisonService {
     };
   }
 
+  private createMultiStatComparison(name: string, values: number[]): MultiStatComparison {
+    const rankings: StatRanking[] = this.rank(
+      values.map((value, index) => ({ index, value })),
+      (a, b) => b.value - a.value
+    );
+    const winners = rankings.filter(r => r.rank === 1).map(r => r.index);
+
+    return {
+      name,
+      values,
+      rankings,
+      winners,
+      isTie: winners.length > 1
+    };
+  }
+
+  private createStandings(
+    pokemon: PokemonDetail[],
+    statComparisons: MultiStatComparison[],
+    totals: number[]
+  ): ComparisonStanding[] {
+    const entries = pokemon.map((p, index) => ({
+      index,
+      pokemon: p,
+      // Shared first places are not wins, as in the two-Pokemon comparison
+      statsWon: statComparisons.filter(s => !s.isTie && s.winners[0] === index).length,
+      averageRank: statComparisons.reduce(
+        (sum, s) => sum + (s.rankings.find(r => r.index === index)?.rank ?? 0), 0
+      ) / statComparisons.length,
+      total: totals[index]
+    }));
+
+    return this.rank(entries, (a, b) => (b.statsWon - a.statsWon) || (b.total - a.total));
+  }
+
+  /**
+   * Sorts entries and assigns competition ranks: entries comparing equal share a rank
+   */
+  private rank<T>(entries: T[], compareFn: (a: T, b: T) => number): (T & { rank: number })[] {
+    const sorted = [...entries].sort(compareFn);
+    const ranked: (T & { rank: number })[] = [];
+
+    sorted.forEach((entry, i) => {
+      const rank = i > 0 && compareFn(sorted[i - 1], entry) === 0 ? ranked[i - 1].rank : i + 1;
+      ranked.push({ ...entry, rank });
+    });
+
+    return ranked;
+  }
+
   private calculateTotalStats(pokemon: PokemonDetail): number {
     return (
       pokemon.stats.hp +
@@ -0,0 +1,76 @@
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom, of } from 'rxjs';
+import { PokemonDetail } from '../models/pokemon-detail.model';
+import { PokemonStatsEntry } from '../models/stat-ranking.model';
+import { STATS_DATASET_REPOSITORY } from '../ports/stats-dataset.repository';
+
+import { CounterService } from './counter.service';
+
+describe('CounterService', () => {
+  let service: CounterService;
+
+  const createEntry = (
+    id: number, speciesId: number, generation: number, isFullyEvolved: boolean, types: string[], values: number[]
+  ): PokemonStatsEntry => {
+    const [hp, attack, defense, specialAttack, specialDefense, speed] = values;
+    return {
+      id,
+      name: `pokemon-${id}`,
+      speciesId,
+      spriteUrl: '',
+      generation,
+      types,
+      abilities: [],
+      isFullyEvolved,
+      stats: { hp, attack, defense, specialAttack, specialDefense, speed }
+    };
+  };
+
+  const dataset: PokemonStatsEntry[] = [
+    createEntry(3, 3, 1, true, ['grass', 'poison'], [80, 82, 83, 100, 100, 80]),
+    createEntry(8, 8, 1, false, ['water'], [59, 63, 80, 65, 80, 58]),
+    createEntry(9, 9, 1, true, ['water'], [79, 83, 100, 85, 105, 78]),
+    createEntry(76, 76, 1, true, ['rock', 'ground'], [80, 120, 130, 55, 65, 45]),
+    createEntry(409, 409, 4, true, ['rock'], [97, 165, 60, 65, 50, 58]),
+    createEntry(10034, 6, 6, true, ['fire', 'dragon'], [78, 130, 111, 130, 85, 100])
+  ];
+
+  const charizard: PokemonDetail = {
+    id: 6,
+    speciesId: 6,
+    name: 'charizard',
+    spriteUrl: '',
+    types: [{ name: 'fire', slot: 1 }, { name: 'flying', slot: 2 }],
+    stats: { hp: 78, attack: 84, defense: 78, specialAttack: 109, specialDefense: 85, speed: 100 },
+    physical: { height: 17, weight: 905 },
+    abilities: [],
+    baseExperience: 267
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        CounterService,
+        { provide: STATS_DATASET_REPOSITORY, useValue: { getStatsDataset: () => of(dataset) } }
+      ]
+    });
+    service = TestBed.inject(CounterService);
+  });
+
+  it('should rank counters by type advantage, resistance and stats', async () => {
+    const counters = await firstValueFrom(service.findCounters(charizard));
+
+    expect(counters.map(c => c.pokemon.id)).toEqual([409, 76, 9, 8, 3]);
+    expect(counters[0]).toMatchObject({ offense: 4, defense: 0.5, category: 'physical', outspeeds: false });
+  });
+
+  it('should filter by generation and evolution stage', () => {
+    const counters = service.rank(charizard, dataset, { generation: { max: 1 }, fullyEvolvedOnly: true });
+
+    expect(counters.map(c => c.pokemon.id)).toEqual([76, 9, 3]);
+  });
+
+  it('should return the requested number of counters', () => {
+    expect(service.rank(charizard, dataset, { limit: 2 }).length).toBe(2);
+  });
+});
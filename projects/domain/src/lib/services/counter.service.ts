@@ -0,0 +1,105 @@
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { Observable, map } from 'rxjs';
+import { PokemonDetail } from '../models/pokemon-detail.model';
+import { CounterOptions, PokemonCounter } from '../models/counter.model';
+import { PokemonStatsEntry } from '../models/stat-ranking.model';
+import { TypeEffectivenessMultiplier } from '../models/type-effectiveness.model';
+import { STATS_DATASET_REPOSITORY } from '../ports/stats-dataset.repository';
+import { PokemonFilterService } from './pokemon-filter.service';
+import { TypeEffectivenessService } from './type-effectiveness.service';
+
+/**
+ * Share of each criterion in a counter's score
+ * Types matter most: a resisted attacker rarely wins whatever its stats
+ */
+const COUNTER_WEIGHTS = {
+  offense: 0.35,
+  defense: 0.3,
+  power: 0.2,
+  speed: 0.15
+};
+
+const DEFAULT_LIMIT = 10;
+
+/**
+ * Domain service ranking the Pokemon best suited to beat a target:
+ * super effective STAB, resistance to the target's STAB, attacking power and speed
+ */
+@Injectable()
+export class CounterService {
+  private readonly repository = inject(STATS_DATASET_REPOSITORY);
+  private readonly typeEffectivenessService = inject(TypeEffectivenessService);
+  private readonly filterService = inject(PokemonFilterService);
+
+  /**
+   * Finds the best counters to a target across the whole dex
+   * @param target - Pokemon to beat
+   * @param options - Generation and evolution filters, number of results
+   * @returns Observable of the counters, best first
+   */
+  findCounters(target: PokemonDetail, options: CounterOptions = {}): Observable<PokemonCounter[]> {
+    return this.repository.getStatsDataset().pipe(
+      map(dataset => this.rank(target, dataset, options))
+    );
+  }
+
+  /**
+   * Ranks a dataset by how well each Pokemon counters a target
+   * Forms of the target's species are left out
+   * @param target - Pokemon to beat
+   * @param dataset - Candidate counters
+   * @param options - Generation and evolution filters, number of results
+   * @returns The best counters, best first; ties are broken by ID
+   */
+  rank(target: PokemonDetail, dataset: PokemonStatsEntry[], options: CounterOptions = {}): PokemonCounter[] {
+    return dataset
+      .filter(entry => entry.speciesId !== target.speciesId &&
+        (!options.fullyEvolvedOnly || entry.isFullyEvolved) &&
+        this.filterService.isInRange(entry.generation ?? undefined, options.generation))
+      .map(entry => this.evaluate(target, entry))
+      .sort((a, b) => (b.score - a.score) || (a.pokemon.id - b.pokemon.id))
+      .slice(0, options.limit ?? DEFAULT_LIMIT);
+  }
+
+  /**
+   * Scores one candidate; each criterion is scaled to 0-1 before weighting
+   */
+  private evaluate(target: PokemonDetail, counter: PokemonStatsEntry): PokemonCounter {
+    const targetTypes = target.types.map(t => t.name);
+    const offense = this.typeEffectivenessService.getOffensiveAdvantage(counter.types, targetTypes).bestMultiplier;
+    const defense = this.typeEffectivenessService.getOffensiveAdvantage(targetTypes, counter.types).bestMultiplier;
+
+    // Damage grows with attack over defense: use the side where the ratio is best
+    const physical = counter.stats.attack / Math.max(target.stats.defense, 1);
+    const special = counter.stats.specialAttack / Math.max(target.stats.specialDefense, 1);
+    const power = Math.max(physical, special);
+    const speed = counter.stats.speed / Math.max(counter.stats.speed + target.stats.speed, 1);
+
+    const score =
+      COUNTER_WEIGHTS.offense * this.scaleOffense(offense) +
+      COUNTER_WEIGHTS.defense * (1 - this.scaleOffense(defense)) +
+      COUNTER_WEIGHTS.power * (power / (1 + power)) +
+      COUNTER_WEIGHTS.speed * speed;
+
+    return {
+      pokemon: counter,
+      score: Math.round(score * 100),
+      offense,
+      defense,
+      category: physical >= special ? 'physical' : 'special',
+      outspeeds: counter.stats.speed > target.stats.speed
+    };
+  }
+
+  /**
+   * Scales a multiplier to 0-1 on a log scale: immune 0, x0.25 0, neutral 0.5, x4 1
+   */
+  private scaleOffense(multiplier: TypeEffectivenessMultiplier): number {
+    return multiplier === 0 ? 0 : (Math.log2(multiplier) + 2) / 4;
+  }
+}
+
+/**
+ * Injection token for the CounterService
+ */
+export const COUNTER_SERVICE = new InjectionToken<CounterService>('CounterService');
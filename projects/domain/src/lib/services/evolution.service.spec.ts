@@ -0,0 +1,65 @@
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+import { EvolutionChain, EvolutionStage, EvolutionTrigger } from '../models/evolution.model';
+import { EVOLUTION_CHAIN_REPOSITORY } from '../ports/evolution-chain.repository';
+
+import { EvolutionService } from './evolution.service';
+
+describe('EvolutionService', () => {
+  let service: EvolutionService;
+
+  const stage = (speciesId: number, name: string, triggers: EvolutionTrigger[], evolvesTo: EvolutionStage[] = []): EvolutionStage => ({
+    speciesId,
+    name,
+    spriteUrl: '',
+    isBaby: false,
+    triggers,
+    evolvesTo
+  });
+
+  const eeveeChain: EvolutionChain = {
+    id: 67,
+    root: stage(133, 'eevee', [], [
+      stage(134, 'vaporeon', [{ kind: 'item', trigger: 'use-item', item: 'water-stone' }]),
+      stage(135, 'jolteon', [{ kind: 'item', trigger: 'use-item', item: 'thunder-stone' }]),
+      stage(197, 'umbreon', [{ kind: 'friendship', trigger: 'level-up', minHappiness: 160, timeOfDay: 'night' }])
+    ])
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        EvolutionService,
+        { provide: EVOLUTION_CHAIN_REPOSITORY, useValue: {
+          getEvolutionChainBySpeciesId: () => of(eeveeChain),
+          getEvolutionChain: () => of(eeveeChain)
+        } }
+      ]
+    });
+    service = TestBed.inject(EvolutionService);
+  });
+
+  it('should fetch the chain through the repository', () => {
+    let chain: EvolutionChain | undefined;
+    service.getEvolutionChain(133).subscribe(c => chain = c);
+
+    expect(chain?.root.evolvesTo.length).toBe(3);
+  });
+
+  it('should list branching stages depth-first', () => {
+    expect(service.getStages(eeveeChain).map(s => s.name)).toEqual(['eevee', 'vaporeon', 'jolteon', 'umbreon']);
+  });
+
+  it('should find the path from the root to a species', () => {
+    expect(service.getPathTo(eeveeChain, 197).map(s => s.name)).toEqual(['eevee', 'umbreon']);
+    expect(service.getPathTo(eeveeChain, 1)).toEqual([]);
+  });
+
+  it('should describe triggers', () => {
+    expect(service.describeTrigger({ kind: 'level', trigger: 'level-up', minLevel: 16 })).toBe('Level 16');
+    expect(service.describeTrigger({ kind: 'item', trigger: 'use-item', item: 'thunder-stone' })).toBe('Use Thunder Stone');
+    expect(service.describeTrigger({ kind: 'trade', trigger: 'trade', heldItem: 'metal-coat' })).toBe('Trade holding Metal Coat');
+    expect(service.describeTrigger({ kind: 'friendship', trigger: 'level-up', minHappiness: 160, timeOfDay: 'night' }))
+      .toBe('High friendship during the night');
+  });
+});
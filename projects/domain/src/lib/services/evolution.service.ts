@@ -0,0 +1,109 @@
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { EvolutionChain, EvolutionStage, EvolutionTrigger } from '../models/evolution.model';
+import { EVOLUTION_CHAIN_REPOSITORY } from '../ports/evolution-chain.repository';
+
+/**
+ * Domain service for evolution chains
+ * Fetches chains through the repository port and describes evolution conditions
+ */
+@Injectable()
+export class EvolutionService {
+  private readonly repository = inject(EVOLUTION_CHAIN_REPOSITORY);
+
+  /**
+   * Retrieves the evolution chain a species belongs to
+   * @param speciesId - Species ID (equal to the Pokemon ID for default forms)
+   * @returns Observable of EvolutionChain
+   */
+  getEvolutionChain(speciesId: number): Observable<EvolutionChain> {
+    return this.repository.getEvolutionChainBySpeciesId(speciesId);
+  }
+
+  /**
+   * Lists every stage of a chain, depth-first from the root
+   * @param chain - Evolution chain
+   * @returns Stages in evolution order
+   */
+  getStages(chain: EvolutionChain): EvolutionStage[] {
+    const visit = (stage: EvolutionStage): EvolutionStage[] =>
+      [stage, ...stage.evolvesTo.flatMap(visit)];
+    return visit(chain.root);
+  }
+
+  /**
+   * Finds the stages leading from the root of a chain to a species
+   * @param chain - Evolution chain
+   * @param speciesId - Species to look for
+   * @returns Stages from the root to the species (inclusive), or an empty array if it is not in the chain
+   */
+  getPathTo(chain: EvolutionChain, speciesId: number): EvolutionStage[] {
+    const search = (stage: EvolutionStage): EvolutionStage[] => {
+      if (stage.speciesId === speciesId) return [stage];
+      for (const next of stage.evolvesTo) {
+        const path = search(next);
+        if (path.length > 0) return [stage, ...path];
+      }
+      return [];
+    };
+    return search(chain.root);
+  }
+
+  /**
+   * Describes an evolution trigger in plain English (e.g. "Level 16", "Use Thunder Stone")
+   * @param trigger - Evolution trigger
+   * @returns Human-readable description
+   */
+  describeTrigger(trigger: EvolutionTrigger): string {
+    let description: string;
+    switch (trigger.kind) {
+      case 'level':
+        description = trigger.minLevel ? `Level ${trigger.minLevel}` : 'Level up';
+        break;
+      case 'item':
+        description = trigger.item ? `Use ${this.formatName(trigger.item)}` : 'Use item';
+        break;
+      case 'trade':
+        description = 'Trade';
+        break;
+      case 'friendship':
+        description = 'High friendship';
+        break;
+      default:
+        description = this.formatName(trigger.trigger);
+    }
+
+    const conditions: string[] = [];
+    if (trigger.kind !== 'level' && trigger.minLevel) conditions.push(`from level ${trigger.minLevel}`);
+    if (trigger.heldItem) conditions.push(`holding ${this.formatName(trigger.heldItem)}`);
+    if (trigger.tradeSpecies) conditions.push(`for ${this.formatName(trigger.tradeSpecies)}`);
+    if (trigger.knownMove) conditions.push(`knowing ${this.formatName(trigger.knownMove)}`);
+    if (trigger.knownMoveType) conditions.push(`knowing a ${this.formatName(trigger.knownMoveType)}-type move`);
+    if (trigger.minAffection) conditions.push('with high affection');
+    if (trigger.minBeauty) conditions.push('with high beauty');
+    if (trigger.location) conditions.push(`at ${this.formatName(trigger.location)}`);
+    if (trigger.timeOfDay) conditions.push(`during the ${trigger.timeOfDay}`);
+    if (trigger.gender) conditions.push(`(${trigger.gender})`);
+    if (trigger.partySpecies) conditions.push(`with ${this.formatName(trigger.partySpecies)} in the party`);
+    if (trigger.partyType) conditions.push(`with a ${this.formatName(trigger.partyType)}-type in the party`);
+    if (trigger.relativePhysicalStats === 1) conditions.push('when Attack > Defense');
+    if (trigger.relativePhysicalStats === -1) conditions.push('when Attack < Defense');
+    if (trigger.relativePhysicalStats === 0) conditions.push('when Attack = Defense');
+    if (trigger.needsOverworldRain) conditions.push('while raining');
+    if (trigger.turnUpsideDown) conditions.push('holding the console upside down');
+
+    return [description, ...conditions].join(' ');
+  }
+
+  private formatName(name: string): string {
+    return name
+      .split('-')
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+}
+
+/**
+ * Injection token for the EvolutionService
+ */
+export const EVOLUTION_SERVICE = new InjectionToken<EvolutionService>('EvolutionService');
@@ -0,0 +1,47 @@
+import { TestBed } from '@angular/core/testing';
+import { BehaviorSubject, Observable, of } from 'rxjs';
+import { FAVORITES_REPOSITORY, FavoritesRepository } from '../ports/favorites.repository';
+
+import { FavoritesService } from './favorites.service';
+
+describe('FavoritesService', () => {
+  let service: FavoritesService;
+  let favorites$: BehaviorSubject<number[]>;
+
+  beforeEach(() => {
+    favorites$ = new BehaviorSubject<number[]>([25]);
+    const repository: FavoritesRepository = {
+      getFavorites: () => favorites$,
+      addFavorite: (id): Observable<void> => of(favorites$.next([...favorites$.value, id])),
+      removeFavorite: (id): Observable<void> => of(favorites$.next(favorites$.value.filter(f => f !== id)))
+    };
+
+    TestBed.configureTestingModule({
+      providers: [
+        FavoritesService,
+        { provide: FAVORITES_REPOSITORY, useValue: repository }
+      ]
+    });
+    service = TestBed.inject(FavoritesService);
+  });
+
+  it('should follow whether a Pokemon is a favorite', () => {
+    const states: boolean[] = [];
+    service.isFavorite(1).subscribe(state => states.push(state));
+
+    favorites$.next([25, 1]);
+    favorites$.next([25, 1, 4]);
+    favorites$.next([4]);
+
+    expect(states).toEqual([false, true, false]);
+  });
+
+  it('should toggle favorites', () => {
+    const results: boolean[] = [];
+    service.toggleFavorite(1).subscribe(result => results.push(result));
+    service.toggleFavorite(25).subscribe(result => results.push(result));
+
+    expect(results).toEqual([true, false]);
+    expect(favorites$.value).toEqual([1]);
+  });
+});
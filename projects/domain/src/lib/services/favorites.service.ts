@@ -0,0 +1,50 @@
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { Observable, distinctUntilChanged, map, take, switchMap } from 'rxjs';
+import { FAVORITES_REPOSITORY } from '../ports/favorites.repository';
+
+/**
+ * Domain service for the Pokemon the user bookmarked
+ */
+@Injectable()
+export class FavoritesService {
+  private readonly repository = inject(FAVORITES_REPOSITORY);
+
+  /**
+   * Watches the favorite Pokemon
+   * @returns Observable of the favorite Pokemon IDs, emitting on every change
+   */
+  getFavorites(): Observable<number[]> {
+    return this.repository.getFavorites();
+  }
+
+  /**
+   * Watches whether a Pokemon is a favorite
+   * @param id - Pokemon ID
+   * @returns Observable emitting when the Pokemon is added to or removed from the favorites
+   */
+  isFavorite(id: number): Observable<boolean> {
+    return this.repository.getFavorites().pipe(
+      map(favorites => favorites.includes(id)),
+      distinctUntilChanged()
+    );
+  }
+
+  /**
+   * Adds a Pokemon to the favorites, or removes it if it already is one
+   * @param id - Pokemon ID
+   * @returns Observable of whether the Pokemon is now a favorite
+   */
+  toggleFavorite(id: number): Observable<boolean> {
+    return this.repository.getFavorites().pipe(
+      take(1),
+      switchMap(favorites => favorites.includes(id)
+        ? this.repository.removeFavorite(id).pipe(map(() => false))
+        : this.repository.addFavorite(id).pipe(map(() => true)))
+    );
+  }
+}
+
+/**
+ * Injection token for the FavoritesService
+ */
+export const FAVORITES_SERVICE = new InjectionToken<FavoritesService>('FavoritesService');
@@ -0,0 +1,45 @@
+import { TestBed } from '@angular/core/testing';
+
+import { GameHistoryService } from './game-history.service';
+import { LATEST_GAME_CONTEXT, PastValue, toGameContext } from '../models/game-context.model';
+import { PokemonStats } from '../models/pokemon-detail.model';
+import { PokemonType } from '../models/pokemon.model';
+
+describe('GameHistoryService', () => {
+  let service: GameHistoryService;
+
+  const fairy: PokemonType[] = [{ name: 'fairy', slot: 1 }];
+  const clefairyPastTypes: PastValue<PokemonType[]>[] = [{ generation: 5, value: [{ name: 'normal', slot: 1 }] }];
+
+  const butterfree: PokemonStats = { hp: 60, attack: 45, defense: 50, specialAttack: 90, specialDefense: 80, speed: 70 };
+  const butterfreePastStats: PastValue<Partial<PokemonStats>>[] = [
+    { generation: 5, value: { specialAttack: 80 } },
+    { generation: 1, value: { specialAttack: 80, specialDefense: 80 } }
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(GameHistoryService);
+  });
+
+  it('should build contexts from version groups', () => {
+    expect(toGameContext('x-y')).toEqual({ versionGroup: 'x-y', generation: 6 });
+    expect(toGameContext('unknown-games')).toEqual(LATEST_GAME_CONTEXT);
+    expect(toGameContext(null)).toEqual(LATEST_GAME_CONTEXT);
+  });
+
+  it('should use past types up to their generation', () => {
+    expect(service.resolve(fairy, clefairyPastTypes, toGameContext('black-white'))[0].name).toBe('normal');
+    expect(service.resolve(fairy, clefairyPastTypes, toGameContext('red-blue'))[0].name).toBe('normal');
+    expect(service.resolve(fairy, clefairyPastTypes, toGameContext('x-y'))).toBe(fairy);
+    expect(service.resolve(fairy, clefairyPastTypes, LATEST_GAME_CONTEXT)).toBe(fairy);
+  });
+
+  it('should merge past stats over the current ones', () => {
+    expect(service.resolveStats(butterfree, butterfreePastStats, toGameContext('red-blue')))
+      .toEqual({ ...butterfree, specialAttack: 80, specialDefense: 80 });
+    expect(service.resolveStats(butterfree, butterfreePastStats, toGameContext('diamond-pearl')))
+      .toEqual({ ...butterfree, specialAttack: 80 });
+    expect(service.resolveStats(butterfree, butterfreePastStats, toGameContext('scarlet-violet'))).toEqual(butterfree);
+  });
+});
@@ -0,0 +1,56 @@
+import { Injectable, InjectionToken } from '@angular/core';
+import { GameContext, PastValue } from '../models/game-context.model';
+import { PokemonStats } from '../models/pokemon-detail.model';
+
+/**
+ * Picks the data a Pokemon had in the games of a context
+ * Adapters use it so that every data source applies past types and stats the same way
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GameHistoryService {
+  /**
+   * Returns the value in the games of a context
+   * A past value applies up to its generation, so the oldest one still covering the context wins
+   * @param current - Value in the latest games
+   * @param past - Values in older games, in any order
+   * @param context - Games the value should match
+   * @returns The past value covering the context's generation, or the current value
+   */
+  resolve<T>(current: T, past: PastValue<T>[], context: GameContext): T {
+    return this.covering(past, context)[0]?.value ?? current;
+  }
+
+  /**
+   * Returns the base stats in the games of a context
+   * Past stats may only list the stats that changed; the others keep their current value
+   * @param current - Base stats in the latest games
+   * @param past - Base stats in older games, in any order
+   * @param context - Games the stats should match
+   * @returns Base stats matching the context's generation
+   */
+  resolveStats(current: PokemonStats, past: PastValue<Partial<PokemonStats>>[], context: GameContext): PokemonStats {
+    // Apply the newest values first, so that older ones closer to the context overwrite them
+    return this.covering(past, context)
+      .reverse()
+      .reduce<PokemonStats>((stats, entry) => ({ ...stats, ...entry.value }), { ...current });
+  }
+
+  /**
+   * Past values covering a context, oldest first; none for the latest games
+   */
+  private covering<T>(past: PastValue<T>[], context: GameContext): PastValue<T>[] {
+    const generation = context.generation;
+    if (generation === null) return [];
+
+    return past
+      .filter(entry => entry.generation >= generation)
+      .sort((a, b) => a.generation - b.generation);
+  }
+}
+
+/**
+ * Injection token for the GameHistoryService
+ */
+export const GAME_HISTORY_SERVICE = new InjectionToken<GameHistoryService>('GameHistoryService');
@@ -0,0 +1,73 @@
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+import { Learnset, Move } from '../models/move.model';
+import { MOVE_REPOSITORY } from '../ports/move.repository';
+
+import { MoveService } from './move.service';
+
+describe('MoveService', () => {
+  let service: MoveService;
+
+  const moves: Move[] = [
+    { id: 33, name: 'tackle', type: 'normal', category: 'physical', power: 40, accuracy: 100, pp: 35, priority: 0 },
+    { id: 22, name: 'vine-whip', type: 'grass', category: 'physical', power: 45, accuracy: 100, pp: 25, priority: 0 },
+    { id: 73, name: 'leech-seed', type: 'grass', category: 'status', power: null, accuracy: 90, pp: 10, priority: 0 },
+    { id: 76, name: 'solar-beam', type: 'grass', category: 'special', power: 120, accuracy: 100, pp: 10, priority: 0 }
+  ];
+
+  const learnset: Learnset = {
+    pokemonId: 1,
+    versionGroups: ['red-blue', 'sword-shield'],
+    groups: [
+      { versionGroup: 'red-blue', method: 'level-up', moves: [
+        { name: 'tackle', level: 1 }, { name: 'leech-seed', level: 7 }, { name: 'vine-whip', level: 13 }
+      ] },
+      { versionGroup: 'red-blue', method: 'machine', moves: [{ name: 'solar-beam', level: null }] },
+      { versionGroup: 'sword-shield', method: 'level-up', moves: [{ name: 'tackle', level: 1 }] }
+    ]
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        MoveService,
+        { provide: MOVE_REPOSITORY, useValue: {
+          getLearnset: () => of(learnset),
+          getMove: () => of(moves[0]),
+          getMoves: () => of(moves)
+        } }
+      ]
+    });
+    service = TestBed.inject(MoveService);
+  });
+
+  it('should list the moves and methods of a version group', () => {
+    expect(service.getMoveNames(learnset, 'red-blue')).toEqual(['tackle', 'leech-seed', 'vine-whip', 'solar-beam']);
+    expect(service.getMethods(learnset, 'red-blue')).toEqual(['level-up', 'machine']);
+    expect(service.getMoveNames(learnset, 'sword-shield')).toEqual(['tackle']);
+  });
+
+  it('should join the learnset with move data', () => {
+    const rows = service.buildRows(learnset, moves, 'red-blue');
+
+    expect(rows.length).toBe(4);
+    expect(rows[3]).toEqual({ move: moves[3], method: 'machine', level: null });
+  });
+
+  it('should filter rows by name, type, category and method', () => {
+    const rows = service.buildRows(learnset, moves, 'red-blue');
+
+    expect(service.filterRows(rows, { search: 'Vine Whip' }).map(r => r.move.name)).toEqual(['vine-whip']);
+    expect(service.filterRows(rows, { type: 'grass', category: 'physical' }).map(r => r.move.name)).toEqual(['vine-whip']);
+    expect(service.filterRows(rows, { method: 'machine' }).map(r => r.move.name)).toEqual(['solar-beam']);
+  });
+
+  it('should sort rows with missing values last', () => {
+    const rows = service.buildRows(learnset, moves, 'red-blue');
+
+    expect(service.sortRows(rows, { key: 'power', direction: 'desc' }).map(r => r.move.name))
+      .toEqual(['solar-beam', 'vine-whip', 'tackle', 'leech-seed']);
+    expect(service.sortRows(rows, { key: 'level', direction: 'asc' }).map(r => r.move.name))
+      .toEqual(['tackle', 'leech-seed', 'vine-whip', 'solar-beam']);
+  });
+});
@@ -0,0 +1,124 @@
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { Learnset, LearnsetRow, Move, MoveFilter, MoveSort } from '../models/move.model';
+import { MOVE_REPOSITORY } from '../ports/move.repository';
+
+/**
+ * Domain service for moves and learnsets
+ * Fetches data through the repository port and builds sortable, filterable moves tables
+ */
+@Injectable()
+export class MoveService {
+  private readonly repository = inject(MOVE_REPOSITORY);
+
+  /**
+   * Retrieves the moves a Pokemon can learn
+   * @param pokemonId - Pokemon ID
+   * @returns Observable of Learnset
+   */
+  getLearnset(pokemonId: number): Observable<Learnset> {
+    return this.repository.getLearnset(pokemonId);
+  }
+
+  /**
+   * Retrieves several moves by name
+   * @param names - Move names
+   * @returns Observable of the moves, in the same order
+   */
+  getMoves(names: string[]): Observable<Move[]> {
+    return this.repository.getMoves(names);
+  }
+
+  /**
+   * Lists the names of the moves learned in a version group, without duplicates
+   * @param learnset - Learnset
+   * @param versionGroup - Version group (e.g. 'scarlet-violet')
+   * @returns Move names
+   */
+  getMoveNames(learnset: Learnset, versionGroup: string): string[] {
+    const names = learnset.groups
+      .filter(g => g.versionGroup === versionGroup)
+      .flatMap(g => g.moves.map(m => m.name));
+    return [...new Set(names)];
+  }
+
+  /**
+   * Lists the learn methods available in a version group
+   * @param learnset - Learnset
+   * @param versionGroup - Version group
+   * @returns Learn methods (e.g. 'level-up', 'machine')
+   */
+  getMethods(learnset: Learnset, versionGroup: string): string[] {
+    return [...new Set(
+      learnset.groups.filter(g => g.versionGroup === versionGroup).map(g => g.method)
+    )];
+  }
+
+  /**
+   * Joins the learnset of a version group with move data
+   * Moves without data are left out
+   * @param learnset - Learnset
+   * @param moves - Move data, e.g. from getMoves
+   * @param versionGroup - Version group
+   * @returns One row per move and learn method
+   */
+  buildRows(learnset: Learnset, moves: Move[], versionGroup: string): LearnsetRow[] {
+    const movesByName = new Map(moves.map(m => [m.name, m]));
+
+    return learnset.groups
+      .filter(g => g.versionGroup === versionGroup)
+      .flatMap(g => g.moves
+        .filter(m => movesByName.has(m.name))
+        .map(m => ({ move: movesByName.get(m.name)!, method: g.method, level: m.level }))
+      );
+  }
+
+  /**
+   * Filters rows by name, type, category and learn method
+   * @param rows - Rows to filter
+   * @param filter - Criteria; unset criteria match everything
+   * @returns Matching rows
+   */
+  filterRows(rows: LearnsetRow[], filter: MoveFilter): LearnsetRow[] {
+    const search = filter.search?.trim().toLowerCase().replace(/\s+/g, '-');
+
+    return rows.filter(row =>
+      (!search || row.move.name.includes(search)) &&
+      (!filter.type || row.move.type === filter.type) &&
+      (!filter.category || row.move.category === filter.category) &&
+      (!filter.method || row.method === filter.method)
+    );
+  }
+
+  /**
+   * Sorts rows by a column; missing values (e.g. no power) always come last
+   * Ties are broken by move name
+   * @param rows - Rows to sort
+   * @param sort - Column and direction
+   * @returns A sorted copy of the rows
+   */
+  sortRows(rows: LearnsetRow[], sort: MoveSort): LearnsetRow[] {
+    const direction = sort.direction === 'asc' ? 1 : -1;
+    const valueOf = (row: LearnsetRow): string | number | null =>
+      sort.key === 'level' ? row.level : row.move[sort.key];
+
+    return [...rows].sort((a, b) => {
+      const valueA = valueOf(a);
+      const valueB = valueOf(b);
+
+      if (valueA === valueB) return a.move.name.localeCompare(b.move.name);
+      if (valueA === null) return 1;
+      if (valueB === null) return -1;
+
+      const order = typeof valueA === 'number' && typeof valueB === 'number'
+        ? valueA - valueB
+        : String(valueA).localeCompare(String(valueB));
+      return order * direction;
+    });
+  }
+}
+
+/**
+ * Injection token for the MoveService
+ */
+export const MOVE_SERVICE = new InjectionToken<MoveService>('MoveService');
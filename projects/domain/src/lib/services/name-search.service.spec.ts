@@ -0,0 +1,55 @@
+import { TestBed } from '@angular/core/testing';
+
+import { NameSearchService } from './name-search.service';
+
+describe('NameSearchService', () => {
+  let service: NameSearchService;
+
+  const dex = [
+    { id: 4, name: 'charmander' },
+    { id: 5, name: 'charmeleon' },
+    { id: 6, name: 'charizard' },
+    { id: 122, name: 'mr-mime' },
+    { id: 439, name: 'mime-jr' },
+    { id: 1006, name: 'iron-valiant' },
+    { id: 10034, name: 'charizard-mega-x' }
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(NameSearchService);
+  });
+
+  it('should rank exact, prefix, word prefix and substring matches in that order', () => {
+    expect(service.rank(dex, 'mime').map(p => p.name)).toEqual(['mime-jr', 'mr-mime']);
+    expect(service.rank(dex, 'charizard').map(p => p.name)).toEqual(['charizard', 'charizard-mega-x']);
+    expect(service.rank(dex, 'valiant').map(p => p.name)).toEqual(['iron-valiant']);
+    expect(service.rank(dex, 'mand').map(p => p.name)).toEqual(['charmander']);
+  });
+
+  it('should keep dex order among equally good matches', () => {
+    expect(service.rank(dex, 'char').map(p => p.id)).toEqual([4, 5, 6, 10034]);
+  });
+
+  it('should tolerate typos', () => {
+    expect(service.rank(dex, 'charzard')[0].name).toBe('charizard');
+    expect(service.rank(dex, 'chra').map(p => p.name)).toContain('charmander');
+    expect(service.rank(dex, 'xyzzy')).toEqual([]);
+  });
+
+  it('should normalize spaces and punctuation', () => {
+    expect(service.normalize(' Mr. Mime ')).toBe('mr-mime');
+    expect(service.score('mr-mime', 'Mr. Mime')).toBe(0);
+  });
+
+  it('should match localized names, ignoring accents', () => {
+    const localized = [
+      { id: 4, name: 'charmander', names: { en: 'Charmander', fr: 'Salamèche', ja: 'ヒトカゲ' } },
+      { id: 133, name: 'eevee', names: { en: 'Eevee', fr: 'Évoli', ja: 'イーブイ' } }
+    ];
+
+    expect(service.rank(localized, 'salameche').map(p => p.id)).toEqual([4]);
+    expect(service.rank(localized, 'Évoli').map(p => p.id)).toEqual([133]);
+    expect(service.rank(localized, 'イーブイ').map(p => p.id)).toEqual([133]);
+  });
+});
@@ -0,0 +1,119 @@
+import { Injectable, InjectionToken } from '@angular/core';
+import { LocalizedNames } from '../models/language.model';
+
+/**
+ * How closely a name matches a search query
+ * Lower is better; fuzzy matches add their edit distance to the base rank
+ */
+export const NAME_MATCH_RANK = {
+  exact: 0,
+  prefix: 1,
+  wordPrefix: 2,
+  substring: 3,
+  fuzzy: 4
+} as const;
+
+/** Queries shorter than this are only matched literally */
+const MIN_FUZZY_QUERY_LENGTH = 3;
+
+/**
+ * Ranks names against a search query: exact, prefix, word prefix (e.g. "mime" in "mr-mime"),
+ * substring, then typo-tolerant fuzzy matches
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class NameSearchService {
+  /**
+   * Normalizes a query or name for comparison ("Mr. Mime" -> "mr-mime", "Évoli" -> "evoli")
+   * @param value - Raw text
+   * @returns Lowercase text with spaces as hyphens, and punctuation and accents removed
+   */
+  normalize(value: string): string {
+    return value
+      .trim()
+      .toLowerCase()
+      // Latin accents only: kana voicing marks change the name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .normalize('NFC')
+      .replace(/[.'’:]/g, '')
+      .replace(/\s+/g, '-');
+  }
+
+  /**
+   * Scores a name against a query
+   * @param name - Name to score (e.g. 'charizard')
+   * @param query - Search query
+   * @returns Score (lower is better), or null if the name does not match
+   */
+  score(name: string, query: string): number | null {
+    const target = this.normalize(name);
+    const search = this.normalize(query);
+
+    if (!search) return null;
+    if (target === search) return NAME_MATCH_RANK.exact;
+    if (target.startsWith(search)) return NAME_MATCH_RANK.prefix;
+    if (target.split('-').some(word => word.startsWith(search))) return NAME_MATCH_RANK.wordPrefix;
+    if (target.includes(search)) return NAME_MATCH_RANK.substring;
+    if (search.length < MIN_FUZZY_QUERY_LENGTH) return null;
+
+    // Compare with the start of the name so that partial queries with a typo still match
+    const maxDistance = search.length <= 5 ? 1 : 2;
+    const distance = Math.min(
+      this.editDistance(target.slice(0, search.length), search),
+      this.editDistance(target, search)
+    );
+    return distance <= maxDistance ? NAME_MATCH_RANK.fuzzy + distance : null;
+  }
+
+  /**
+   * Keeps the entries matching a query, best matches first
+   * Entries match on their slug or on any of their localized names, whichever scores best
+   * Entries with the same score keep their original order
+   * @param entries - Entries to search (e.g. the full dex index)
+   * @param query - Search query
+   * @returns Matching entries, ranked
+   */
+  rank<T extends { name: string; names?: LocalizedNames }>(entries: T[], query: string): T[] {
+    return entries
+      .map((entry, index) => ({ entry, index, score: this.bestScore(entry, query) }))
+      .filter((match): match is { entry: T; index: number; score: number } => match.score !== null)
+      .sort((a, b) => (a.score - b.score) || (a.index - b.index))
+      .map(match => match.entry);
+  }
+
+  private bestScore(entry: { name: string; names?: LocalizedNames }, query: string): number | null {
+    const scores = [entry.name, ...Object.values(entry.names ?? {})]
+      .map(name => this.score(name, query))
+      .filter((score): score is number => score !== null);
+    return scores.length > 0 ? Math.min(...scores) : null;
+  }
+
+  /**
+   * Optimal string alignment distance: insertions, deletions, substitutions
+   * and transpositions of adjacent characters each cost 1
+   */
+  private editDistance(a: string, b: string): number {
+    const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+      Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+    );
+
+    for (let i = 1; i <= a.length; i++) {
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+        }
+      }
+    }
+
+    return d[a.length][b.length];
+  }
+}
+
+/**
+ * Injection token for the NameSearchService
+ */
+export const NAME_SEARCH_SERVICE = new InjectionToken<NameSearchService>('NameSearchService');
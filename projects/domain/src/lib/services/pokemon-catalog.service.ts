@@ -4,7 +4,8 @@ import {
   PokemonPage, 
   PokemonFilter, 
   PaginationParams, 
-  PokemonSummary 
+  PokemonSummary,
+  PokemonSort
 } from '../models/pokemon.model';
 import { POKEMON_REPOSITORY } from '../ports/pokemon.repository';
 
@@ -19,11 +20,12 @@ export class PokemonCatalogService {
   /**
    * Retrieves a paginated list of Pokemon with optional filtering
    * @param pagination - Pagination parameters (page, pageSize)
-   * @param filter - Optional filter criteria (search, types)
+   * @param filter - Optional filter criteria (search, types, stats...)
+   * @param sort - Optional sort order (dex order, or best match first when searching, by default)
    * @returns Observable of PokemonPage containing the results
    */
-  getPokemonList(pagination: PaginationParams, filter?: PokemonFilter): Observable<PokemonPage> {
-    return this.repository.getPokemonList(pagination, filter);
+  getPokemonList(pagination: PaginationParams, filter?: PokemonFilter, sort?: PokemonSort): Observable<PokemonPage> {
+    return this.repository.getPokemonList(pagination, filter, sort);
   }
 
   /**
@@ -45,10 +47,11 @@ export class PokemonCatalogService {
   }
 
   /**
-   * Search Pokemon by name (convenience method with default pagination)
+   * Search Pokemon by name across the whole dex (convenience method with default pagination)
+   * Best matches come first; small typos are tolerated
    * @param query - Search query
    * @param limit - Maximum results to return (default: 5)
-   * @returns Observable of PokemonSummary array
+   * @returns Observable of the first page of ranked matches
    */
   searchPokemon(query: string, limit = 5): Observable<PokemonPage> {
     return this.repository.getPokemonList(
@@ -1,6 +1,11 @@
 import { Injectable, InjectionToken, inject } from '@angular/core';
-import { Observable, forkJoin, map } from 'rxjs';
+import { Observable, forkJoin, map, throwError } from 'rxjs';
 import { PokemonDetail, PokemonComparison } from '../models/pokemon-detail.model';
+import {
+  MAX_COMPARISON_SIZE,
+  MIN_COMPARISON_SIZE,
+  MultiPokemonComparison
+} from '../models/multi-comparison.model';
 import { POKEMON_DETAIL_REPOSITORY } from '../ports/pokemon-detail.repository';
 import { ComparisonService } from './comparison.service';
 
@@ -47,6 +52,24 @@ export class PokemonDetailService {
     );
   }
 
+  /**
+   * Compares 2 to 6 Pokemon by their IDs
+   * Fetches all Pokemon details and returns a ranked comparison result
+   * @param ids - Pokemon IDs, in display order
+   * @returns Observable of MultiPokemonComparison, erroring with a RangeError on an invalid count
+   */
+  compareMany(ids: number[]): Observable<MultiPokemonComparison> {
+    if (ids.length < MIN_COMPARISON_SIZE || ids.length > MAX_COMPARISON_SIZE) {
+      return throwError(() => new RangeError(
+        `Between ${MIN_COMPARISON_SIZE} and ${MAX_COMPARISON_SIZE} Pokemon can be compared (got ${ids.length})`
+      ));
+    }
+
+    return forkJoin(ids.map(id => this.repository.getPokemonDetail(id))).pipe(
+      map(pokemon => this.comparisonService.compareMany(pokemon))
+    );
+  }
+
   /**
    * Compares two Pokemon by their names
    * @param name1 - First Pokemon name
@@ -0,0 +1,59 @@
+import { TestBed } from '@angular/core/testing';
+import { PokemonStats } from '../models/pokemon-detail.model';
+
+import { PokemonFilterService } from './pokemon-filter.service';
+
+describe('PokemonFilterService', () => {
+  let service: PokemonFilterService;
+
+  // Jolteon: base stat total 525
+  const jolteon: PokemonStats = {
+    hp: 65, attack: 65, defense: 60, specialAttack: 110, specialDefense: 95, speed: 130
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(PokemonFilterService);
+  });
+
+  it('should treat missing bounds as open', () => {
+    expect(service.isInRange(100, { min: 100 })).toBe(true);
+    expect(service.isInRange(100, { max: 99 })).toBe(false);
+    expect(service.isInRange(undefined, {})).toBe(true);
+    expect(service.isInRange(undefined, { max: 4 })).toBe(false);
+  });
+
+  it('should tell which data a filter needs', () => {
+    expect(service.hasStatCriteria({ stats: { speed: {} } })).toBe(false);
+    expect(service.hasStatCriteria({ stats: { speed: { min: 100 } } })).toBe(true);
+    expect(service.hasStatCriteria({ baseStatTotal: { max: 500 } })).toBe(true);
+    expect(service.hasStatusCriteria({ search: 'pika' })).toBe(false);
+    expect(service.hasStatusCriteria({ isLegendary: false })).toBe(true);
+    expect(service.hasSpeciesCriteria({ generation: { max: 4 } })).toBe(true);
+  });
+
+  it('should match types and abilities as typed by users', () => {
+    const types = [{ name: 'water' }, { name: 'ground' }];
+    const abilities = [{ name: 'swift-swim' }, { name: 'damp' }];
+
+    expect(service.matchesTypes(types, { types: ['Water', ' GROUND '] })).toBe(true);
+    expect(service.matchesTypes(types, { types: ['water', 'grass'] })).toBe(false);
+    expect(service.matchesAbility(abilities, { ability: 'Swift Swim' })).toBe(true);
+    expect(service.matchesAbility(abilities, { ability: 'swift' })).toBe(false);
+    expect(service.matchesAbility(abilities, {})).toBe(true);
+  });
+
+  it('should match per-stat and base stat total ranges', () => {
+    expect(service.matchesStats(jolteon, { stats: { speed: { min: 100 } } })).toBe(true);
+    expect(service.matchesStats(jolteon, { stats: { speed: { min: 100 }, hp: { min: 70 } } })).toBe(false);
+    expect(service.matchesStats(jolteon, { baseStatTotal: { min: 500, max: 525 } })).toBe(true);
+    expect(service.matchesStats(jolteon, { baseStatTotal: { max: 524 } })).toBe(false);
+  });
+
+  it('should match generation and legendary status', () => {
+    expect(service.matchesGeneration(1, { generation: { max: 4 } })).toBe(true);
+    expect(service.matchesGeneration(5, { generation: { max: 4 } })).toBe(false);
+    expect(service.matchesStatus({ isLegendary: true, isMythical: false }, { isLegendary: false })).toBe(false);
+    expect(service.matchesStatus({ isLegendary: false, isMythical: true }, { isLegendary: false, isMythical: true })).toBe(true);
+  });
+});
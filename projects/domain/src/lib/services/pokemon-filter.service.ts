@@ -0,0 +1,130 @@
+import { Injectable, InjectionToken } from '@angular/core';
+import { NumberRange, PokemonFilter } from '../models/pokemon.model';
+import { PokemonStats } from '../models/pokemon-detail.model';
+
+/**
+ * Evaluates the catalog filter criteria (types, ability, stat ranges, generation, legendary status)
+ * Adapters use it to decide which data they need and which Pokemon to keep
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PokemonFilterService {
+  /**
+   * Checks whether a value lies within an inclusive range
+   * @param value - Value to check; an unknown value only matches an empty range
+   * @param range - Range; missing bounds are open
+   * @returns True if the value is within the range
+   */
+  isInRange(value: number | undefined, range: NumberRange | undefined): boolean {
+    if (!range || (range.min === undefined && range.max === undefined)) return true;
+    if (value === undefined) return false;
+    return (range.min === undefined || value >= range.min) &&
+      (range.max === undefined || value <= range.max);
+  }
+
+  /**
+   * Normalizes a type or ability as typed by a user to its resource name (e.g. `Swift Swim` to `swift-swim`)
+   * @param value - Type or ability name
+   * @returns The lowercase, hyphenated name
+   */
+  toResourceName(value: string): string {
+    return value.trim().toLowerCase().replace(/\s+/g, '-');
+  }
+
+  /**
+   * Checks that a Pokemon has every type of the filter
+   * @param types - Types of the Pokemon
+   * @param filter - Filter criteria; its types are normalized with toResourceName
+   * @returns True if the type criterion is met
+   */
+  matchesTypes(types: readonly { name: string }[], filter: PokemonFilter): boolean {
+    return (filter.types ?? [])
+      .map(type => this.toResourceName(type))
+      .every(name => types.some(t => t.name === name));
+  }
+
+  /**
+   * Checks that a Pokemon can have the ability of the filter
+   * @param abilities - Abilities of the Pokemon, hidden ones included
+   * @param filter - Filter criteria; its ability is normalized with toResourceName
+   * @returns True if the ability criterion is met
+   */
+  matchesAbility(abilities: readonly { name: string }[], filter: PokemonFilter): boolean {
+    if (!filter.ability) return true;
+    const name = this.toResourceName(filter.ability);
+    return abilities.some(a => a.name === name);
+  }
+
+  /**
+   * Checks whether a filter constrains base stats or the base stat total
+   * @param filter - Filter criteria
+   * @returns True if stats are needed to evaluate the filter
+   */
+  hasStatCriteria(filter: PokemonFilter): boolean {
+    return this.isSet(filter.baseStatTotal) ||
+      Object.values(filter.stats ?? {}).some(range => this.isSet(range));
+  }
+
+  /**
+   * Checks whether a filter constrains the generation or the legendary or mythical status
+   * @param filter - Filter criteria
+   * @returns True if the species is needed to evaluate the filter
+   */
+  hasSpeciesCriteria(filter: PokemonFilter): boolean {
+    return this.isSet(filter.generation) || this.hasStatusCriteria(filter);
+  }
+
+  /**
+   * Checks whether a filter constrains the legendary or mythical status
+   * @param filter - Filter criteria
+   * @returns True if species flags are needed to evaluate the filter
+   */
+  hasStatusCriteria(filter: PokemonFilter): boolean {
+    return filter.isLegendary !== undefined || filter.isMythical !== undefined;
+  }
+
+  /**
+   * Checks base stats against the per-stat ranges and the base stat total range
+   * @param stats - Base stats
+   * @param filter - Filter criteria
+   * @returns True if every stat criterion is met
+   */
+  matchesStats(stats: PokemonStats, filter: PokemonFilter): boolean {
+    const statRanges = Object.entries(filter.stats ?? {}) as [keyof PokemonStats, NumberRange][];
+    const total = Object.values(stats).reduce((sum, value) => sum + value, 0);
+
+    return statRanges.every(([stat, range]) => this.isInRange(stats[stat], range)) &&
+      this.isInRange(total, filter.baseStatTotal);
+  }
+
+  /**
+   * Checks the generation a species was introduced in
+   * @param generation - Generation number, if known
+   * @param filter - Filter criteria
+   * @returns True if the generation criterion is met
+   */
+  matchesGeneration(generation: number | undefined, filter: PokemonFilter): boolean {
+    return this.isInRange(generation, filter.generation);
+  }
+
+  /**
+   * Checks the legendary and mythical flags of a species
+   * @param status - Species flags
+   * @param filter - Filter criteria
+   * @returns True if both status criteria are met
+   */
+  matchesStatus(status: { isLegendary: boolean; isMythical: boolean }, filter: PokemonFilter): boolean {
+    return (filter.isLegendary === undefined || status.isLegendary === filter.isLegendary) &&
+      (filter.isMythical === undefined || status.isMythical === filter.isMythical);
+  }
+
+  private isSet(range: NumberRange | undefined): boolean {
+    return range?.min !== undefined || range?.max !== undefined;
+  }
+}
+
+/**
+ * Injection token for the PokemonFilterService
+ */
+export const POKEMON_FILTER_SERVICE = new InjectionToken<PokemonFilterService>('PokemonFilterService');
@@ -0,0 +1,24 @@
+import { TestBed } from '@angular/core/testing';
+
+import { PokemonNameService } from './pokemon-name.service';
+
+describe('PokemonNameService', () => {
+  let service: PokemonNameService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(PokemonNameService);
+  });
+
+  it('should show the name in the chosen language', () => {
+    const charmander = { name: 'charmander', names: { en: 'Charmander', fr: 'Salamèche', ja: 'ヒトカゲ' } };
+
+    expect(service.getDisplayName(charmander, 'fr')).toBe('Salamèche');
+    expect(service.getDisplayName(charmander, 'ja')).toBe('ヒトカゲ');
+  });
+
+  it('should fall back to English, then to the slug', () => {
+    expect(service.getDisplayName({ name: 'mr-mime', names: { en: 'Mr. Mime' } }, 'fr')).toBe('Mr. Mime');
+    expect(service.getDisplayName({ name: 'charizard-mega-x' }, 'fr')).toBe('Charizard-mega-x');
+  });
+});
@@ -0,0 +1,32 @@
+import { Injectable, InjectionToken } from '@angular/core';
+import { LanguageCode, LocalizedNames } from '../models/language.model';
+
+/**
+ * Picks the name to show for a Pokemon in the user's language
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PokemonNameService {
+  /**
+   * Returns the official name in a language, falling back to English, then to the formatted slug
+   * @param pokemon - Pokemon or species, with its localized names if known
+   * @param language - Language to show the name in
+   * @returns Display name (e.g. 'Salamèche' in French, 'Mr. Mime' in English)
+   */
+  getDisplayName(pokemon: { name: string; names?: LocalizedNames }, language: LanguageCode): string {
+    return pokemon.names?.[language] ?? pokemon.names?.en ?? this.formatSlug(pokemon.name);
+  }
+
+  /**
+   * Capitalizes a PokeAPI slug, for Pokemon without localized names (e.g. 'charizard-mega-x' -> 'Charizard-mega-x')
+   */
+  formatSlug(name: string): string {
+    return name.charAt(0).toUpperCase() + name.slice(1);
+  }
+}
+
+/**
+ * Injection token for the PokemonNameService
+ */
+export const POKEMON_NAME_SERVICE = new InjectionToken<PokemonNameService>('PokemonNameService');
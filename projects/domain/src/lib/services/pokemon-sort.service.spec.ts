@@ -0,0 +1,48 @@
+import { TestBed } from '@angular/core/testing';
+
+import { PokemonSortService, SortablePokemon } from './pokemon-sort.service';
+
+describe('PokemonSortService', () => {
+  let service: PokemonSortService;
+
+  const pokemon: SortablePokemon[] = [
+    { id: 25, name: 'pikachu',
+      stats: { hp: 35, attack: 55, defense: 40, specialAttack: 50, specialDefense: 50, speed: 90 },
+      physical: { height: 4, weight: 60 } },
+    { id: 1, name: 'bulbasaur',
+      stats: { hp: 45, attack: 49, defense: 49, specialAttack: 65, specialDefense: 65, speed: 45 },
+      physical: { height: 7, weight: 69 } },
+    { id: 10034, name: 'charizard-mega-x' },
+    { id: 135, name: 'jolteon',
+      stats: { hp: 65, attack: 65, defense: 60, specialAttack: 110, specialDefense: 95, speed: 130 },
+      physical: { height: 8, weight: 245 } }
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(PokemonSortService);
+  });
+
+  it('should tell which sort keys need details', () => {
+    expect(service.needsDetails({ key: 'name', direction: 'asc' })).toBe(false);
+    expect(service.needsDetails({ key: 'speed', direction: 'desc' })).toBe(true);
+  });
+
+  it('should sort by ID and name', () => {
+    expect(service.sort(pokemon, { key: 'id', direction: 'asc' }).map(p => p.id)).toEqual([1, 25, 135, 10034]);
+    expect(service.sort(pokemon, { key: 'name', direction: 'desc' }).map(p => p.name))
+      .toEqual(['pikachu', 'jolteon', 'charizard-mega-x', 'bulbasaur']);
+  });
+
+  it('should sort by stat, total and weight with missing values last', () => {
+    expect(service.sort(pokemon, { key: 'speed', direction: 'desc' }).map(p => p.id)).toEqual([135, 25, 1, 10034]);
+    expect(service.sort(pokemon, { key: 'baseStatTotal', direction: 'asc' }).map(p => p.id)).toEqual([1, 25, 135, 10034]);
+    expect(service.sort(pokemon, { key: 'weight', direction: 'asc' }).map(p => p.id)).toEqual([25, 1, 135, 10034]);
+  });
+
+  it('should break ties by ID', () => {
+    const twins: SortablePokemon[] = [{ id: 2, name: 'b' }, { id: 1, name: 'a' }];
+
+    expect(service.sort(twins, { key: 'speed', direction: 'desc' }).map(p => p.id)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,77 @@
+import { Injectable, InjectionToken } from '@angular/core';
+import { PokemonSort } from '../models/pokemon.model';
+import { PokemonPhysical, PokemonStats } from '../models/pokemon-detail.model';
+
+/**
+ * What a Pokemon needs to be sorted: stats and physical data are only needed for those keys
+ */
+export interface SortablePokemon {
+  id: number;
+  name: string;
+  stats?: PokemonStats;
+  physical?: PokemonPhysical;
+}
+
+/**
+ * Sorts Pokemon lists by a sort specification
+ * Adapters use it so that every data source orders the catalog the same way
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PokemonSortService {
+  /**
+   * Checks whether sorting needs more than the ID and name (stats, height or weight)
+   * @param sort - Sort order
+   * @returns True if stats and physical data are needed
+   */
+  needsDetails(sort: PokemonSort): boolean {
+    return sort.key !== 'id' && sort.key !== 'name';
+  }
+
+  /**
+   * Sorts Pokemon; missing values always come last and ties are broken by ID,
+   * so that the order, and therefore each page, is stable
+   * @param pokemon - Pokemon to sort
+   * @param sort - Sort order
+   * @returns A sorted copy of the list
+   */
+  sort<T extends SortablePokemon>(pokemon: T[], sort: PokemonSort): T[] {
+    const direction = sort.direction === 'asc' ? 1 : -1;
+
+    return [...pokemon].sort((a, b) => {
+      const valueA = this.valueOf(a, sort);
+      const valueB = this.valueOf(b, sort);
+
+      if (valueA === valueB) return a.id - b.id;
+      if (valueA === null) return 1;
+      if (valueB === null) return -1;
+
+      const order = typeof valueA === 'number' && typeof valueB === 'number'
+        ? valueA - valueB
+        : String(valueA).localeCompare(String(valueB));
+      return order * direction || a.id - b.id;
+    });
+  }
+
+  private valueOf(pokemon: SortablePokemon, sort: PokemonSort): string | number | null {
+    switch (sort.key) {
+      case 'id':
+        return pokemon.id;
+      case 'name':
+        return pokemon.name;
+      case 'baseStatTotal':
+        return pokemon.stats ? Object.values(pokemon.stats).reduce((sum, value) => sum + value, 0) : null;
+      case 'height':
+      case 'weight':
+        return pokemon.physical?.[sort.key] ?? null;
+      default:
+        return pokemon.stats?.[sort.key] ?? null;
+    }
+  }
+}
+
+/**
+ * Injection token for the PokemonSortService
+ */
+export const POKEMON_SORT_SERVICE = new InjectionToken<PokemonSortService>('PokemonSortService');
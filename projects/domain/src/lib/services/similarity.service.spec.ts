@@ -0,0 +1,86 @@
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom, of } from 'rxjs';
+import { PokemonDetail, PokemonStats } from '../models/pokemon-detail.model';
+import { PokemonStatsEntry } from '../models/stat-ranking.model';
+import { STATS_DATASET_REPOSITORY } from '../ports/stats-dataset.repository';
+
+import { SimilarityService } from './similarity.service';
+
+describe('SimilarityService', () => {
+  let service: SimilarityService;
+
+  const createEntry = (id: number, speciesId: number, types: string[], abilities: string[], values: number[]): PokemonStatsEntry => {
+    const [hp, attack, defense, specialAttack, specialDefense, speed] = values;
+    return {
+      id,
+      name: `pokemon-${id}`,
+      speciesId,
+      spriteUrl: '',
+      generation: 1,
+      types,
+      abilities,
+      isFullyEvolved: true,
+      stats: { hp, attack, defense, specialAttack, specialDefense, speed }
+    };
+  };
+
+  const charmander = createEntry(4, 4, ['fire'], ['blaze', 'solar-power'], [39, 52, 43, 60, 50, 65]);
+  const dataset: PokemonStatsEntry[] = [
+    charmander,
+    createEntry(5, 5, ['fire'], ['blaze', 'solar-power'], [58, 64, 58, 80, 65, 80]),
+    createEntry(213, 213, ['bug', 'rock'], ['sturdy'], [20, 10, 230, 10, 230, 5]),
+    createEntry(300, 300, ['normal'], ['run-away'], [40, 52, 43, 60, 50, 64]),
+    createEntry(900, 900, ['water'], ['torrent'], [78, 104, 86, 120, 100, 130]),
+    createEntry(10999, 4, ['fire'], ['blaze'], [39, 52, 43, 60, 50, 65])
+  ];
+
+  const target: PokemonDetail = {
+    id: charmander.id,
+    speciesId: charmander.speciesId,
+    name: 'charmander',
+    spriteUrl: '',
+    types: [{ name: 'fire', slot: 1 }],
+    stats: charmander.stats,
+    physical: { height: 6, weight: 85 },
+    abilities: [{ name: 'blaze', isHidden: false }, { name: 'solar-power', isHidden: true }],
+    baseExperience: 62
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        SimilarityService,
+        { provide: STATS_DATASET_REPOSITORY, useValue: { getStatsDataset: () => of(dataset) } }
+      ]
+    });
+    service = TestBed.inject(SimilarityService);
+  });
+
+  it('should rank by stat spread with the cosine metric, leaving out the same species', async () => {
+    const similar = await firstValueFrom(service.findSimilar(target));
+
+    expect(similar.map(s => s.pokemon.id)).toEqual([900, 300, 5, 213]);
+    expect(similar[0].similarity).toBe(100);
+  });
+
+  it('should rank by actual values with the euclidean metric', () => {
+    expect(service.rank(target, dataset, { metric: 'euclidean' })[0].pokemon.id).toBe(300);
+  });
+
+  it('should weight shared types and abilities', () => {
+    const similar = service.rank(target, dataset, { metric: 'euclidean', typeWeight: 1, abilityWeight: 1, limit: 2 });
+
+    expect(similar.map(s => s.pokemon.id)).toEqual([5, 300]);
+    expect(similar[0].sharedTypes).toEqual(['fire']);
+    expect(similar[0].sharedAbilities).toEqual(['blaze', 'solar-power']);
+  });
+
+  it('should measure distances from 0 to 1', () => {
+    const stats: PokemonStats = charmander.stats;
+    const maxed: PokemonStats = { hp: 255, attack: 255, defense: 255, specialAttack: 255, specialDefense: 255, speed: 255 };
+    const zero: PokemonStats = { hp: 0, attack: 0, defense: 0, specialAttack: 0, specialDefense: 0, speed: 0 };
+
+    expect(service.distance(stats, stats, 'cosine')).toBeCloseTo(0);
+    expect(service.distance(maxed, zero, 'euclidean')).toBe(1);
+  });
+});
@@ -0,0 +1,99 @@
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { Observable, map } from 'rxjs';
+import { PokemonDetail, PokemonStats } from '../models/pokemon-detail.model';
+import { SimilarPokemon, SimilarityMetric, SimilarityOptions } from '../models/similarity.model';
+import { PokemonStatsEntry } from '../models/stat-ranking.model';
+import { STATS_DATASET_REPOSITORY } from '../ports/stats-dataset.repository';
+
+const STAT_KEYS: (keyof PokemonStats)[] = ['hp', 'attack', 'defense', 'specialAttack', 'specialDefense', 'speed'];
+
+/** Highest possible base stat, used to scale stats for the euclidean metric */
+const MAX_BASE_STAT = 255;
+
+const DEFAULT_LIMIT = 10;
+
+/**
+ * Domain service finding the Pokemon closest to a target by stat profile,
+ * optionally weighting shared types and abilities
+ */
+@Injectable()
+export class SimilarityService {
+  private readonly repository = inject(STATS_DATASET_REPOSITORY);
+
+  /**
+   * Finds the Pokemon most similar to a target across the whole dex
+   * @param pokemon - Target Pokemon
+   * @param options - Metric, weights and number of results
+   * @returns Observable of the closest Pokemon, closest first
+   */
+  findSimilar(pokemon: PokemonDetail, options: SimilarityOptions = {}): Observable<SimilarPokemon[]> {
+    return this.repository.getStatsDataset().pipe(
+      map(dataset => this.rank(pokemon, dataset, options))
+    );
+  }
+
+  /**
+   * Ranks a dataset by distance to a target
+   * Other forms of the target's species are left out, as they are not replacements for it
+   * @param pokemon - Target Pokemon
+   * @param dataset - Candidate Pokemon
+   * @param options - Metric, weights and number of results
+   * @returns The closest Pokemon, closest first; ties are broken by ID
+   */
+  rank(pokemon: PokemonDetail, dataset: PokemonStatsEntry[], options: SimilarityOptions = {}): SimilarPokemon[] {
+    const metric = options.metric ?? 'cosine';
+    const typeWeight = Math.max(options.typeWeight ?? 0, 0);
+    const abilityWeight = Math.max(options.abilityWeight ?? 0, 0);
+    const types = pokemon.types.map(t => t.name);
+    const abilities = pokemon.abilities.map(a => a.name);
+
+    return dataset
+      .filter(entry => entry.id !== pokemon.id && entry.speciesId !== pokemon.speciesId)
+      .map(entry => {
+        const sharedTypes = entry.types.filter(type => types.includes(type));
+        const sharedAbilities = entry.abilities.filter(ability => abilities.includes(ability));
+        const distance = (
+          this.distance(pokemon.stats, entry.stats, metric) +
+          typeWeight * (1 - this.overlap(types, entry.types, sharedTypes.length)) +
+          abilityWeight * (1 - this.overlap(abilities, entry.abilities, sharedAbilities.length))
+        ) / (1 + typeWeight + abilityWeight);
+
+        return { pokemon: entry, distance, similarity: Math.round((1 - distance) * 100), sharedTypes, sharedAbilities };
+      })
+      .sort((a, b) => (a.distance - b.distance) || (a.pokemon.id - b.pokemon.id))
+      .slice(0, options.limit ?? DEFAULT_LIMIT);
+  }
+
+  /**
+   * Distance between two stat spreads, from 0 (identical) to 1
+   * @param a - First stats
+   * @param b - Second stats
+   * @param metric - Cosine (spread shape) or normalized euclidean (actual values)
+   */
+  distance(a: PokemonStats, b: PokemonStats, metric: SimilarityMetric): number {
+    const x = STAT_KEYS.map(key => a[key]);
+    const y = STAT_KEYS.map(key => b[key]);
+
+    if (metric === 'euclidean') {
+      const sum = x.reduce((total, value, i) => total + ((value - y[i]) / MAX_BASE_STAT) ** 2, 0);
+      return Math.sqrt(sum / STAT_KEYS.length);
+    }
+
+    const dot = x.reduce((total, value, i) => total + value * y[i], 0);
+    const norms = Math.hypot(...x) * Math.hypot(...y);
+    return norms > 0 ? Math.max(0, 1 - dot / norms) : 1;
+  }
+
+  /**
+   * Jaccard index of two name lists: shared names over all distinct names
+   */
+  private overlap(a: string[], b: string[], shared: number): number {
+    const union = new Set([...a, ...b]).size;
+    return union > 0 ? shared / union : 1;
+  }
+}
+
+/**
+ * Injection token for the SimilarityService
+ */
+export const SIMILARITY_SERVICE = new InjectionToken<SimilarityService>('SimilarityService');
@@ -0,0 +1,83 @@
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+import { PokemonSpecies } from '../models/species.model';
+import { SPECIES_REPOSITORY } from '../ports/species.repository';
+
+import { SpeciesService } from './species.service';
+
+describe('SpeciesService', () => {
+  let service: SpeciesService;
+
+  const mew: PokemonSpecies = {
+    id: 151,
+    name: 'mew',
+    names: { en: 'Mew', fr: 'Mew', ja: 'ミュウ' },
+    genus: 'New Species Pokémon',
+    generation: 1,
+    isLegendary: false,
+    isMythical: true,
+    isBaby: false,
+    captureRate: 45,
+    baseHappiness: 100,
+    growthRate: 'medium-slow',
+    eggGroups: ['no-eggs'],
+    habitat: 'rare',
+    color: 'pink',
+    flavorTexts: [
+      { version: 'red', text: 'So rare that it is still said to be a mirage by many experts.' },
+      { version: 'gold', text: 'When viewed through a microscope, its short, fine, delicate hair can be seen.' }
+    ],
+    varieties: [{ pokemonId: 151, name: 'mew', isDefault: true }]
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        SpeciesService,
+        { provide: SPECIES_REPOSITORY, useValue: { getSpecies: () => of(mew) } }
+      ]
+    });
+    service = TestBed.inject(SpeciesService);
+  });
+
+  it('should fetch species through the repository', () => {
+    let species: PokemonSpecies | undefined;
+    service.getSpecies(151).subscribe(s => species = s);
+
+    expect(species?.genus).toBe('New Species Pokémon');
+  });
+
+  it('should pick the entry of the requested version, or the latest one', () => {
+    expect(service.getVersions(mew)).toEqual(['red', 'gold']);
+    expect(service.getFlavorText(mew, 'red')?.version).toBe('red');
+    expect(service.getFlavorText(mew, 'sword')?.version).toBe('gold');
+    expect(service.getFlavorText({ ...mew, flavorTexts: [] })).toBeNull();
+  });
+
+  it('should treat mythical species as special', () => {
+    expect(service.isSpecial(mew)).toBe(true);
+    expect(service.isSpecial({ ...mew, isMythical: false })).toBe(false);
+  });
+
+  it('should label forms, default form first', () => {
+    const charizard: PokemonSpecies = {
+      ...mew,
+      id: 6,
+      name: 'charizard',
+      varieties: [
+        { pokemonId: 10034, name: 'charizard-mega-x', isDefault: false },
+        { pokemonId: 6, name: 'charizard', isDefault: true },
+        { pokemonId: 10196, name: 'charizard-gmax', isDefault: false }
+      ]
+    };
+
+    expect(service.getForms(charizard).map(f => [f.kind, f.label])).toEqual([
+      ['default', 'Base form'],
+      ['mega', 'Mega X'],
+      ['gigantamax', 'Gigantamax']
+    ]);
+    expect(service.getForms({ ...mew, name: 'darmanitan', varieties: [
+      { pokemonId: 10178, name: 'darmanitan-galar-zen', isDefault: false }
+    ] })[0]).toEqual({ pokemonId: 10178, name: 'darmanitan-galar-zen', isDefault: false, kind: 'regional', label: 'Galarian Zen' });
+  });
+});
@@ -0,0 +1,101 @@
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { FlavorTextEntry, PokemonForm, PokemonFormKind, PokemonSpecies, PokemonVariety } from '../models/species.model';
+import { SPECIES_REPOSITORY } from '../ports/species.repository';
+
+/** Name suffixes of regional forms, with the matching adjective */
+const REGIONS: Record<string, string> = {
+  alola: 'Alolan',
+  galar: 'Galarian',
+  hisui: 'Hisuian',
+  paldea: 'Paldean'
+};
+
+/**
+ * Domain service for species data (Pokedex entries, breeding and rarity information, forms)
+ */
+@Injectable()
+export class SpeciesService {
+  private readonly repository = inject(SPECIES_REPOSITORY);
+
+  /**
+   * Retrieves species data by ID
+   * @param speciesId - Species ID (equal to the Pokemon ID for default forms)
+   * @returns Observable of PokemonSpecies
+   */
+  getSpecies(speciesId: number): Observable<PokemonSpecies> {
+    return this.repository.getSpecies(speciesId);
+  }
+
+  /**
+   * Lists the game versions that have a Pokedex entry, oldest first
+   * @param species - Species data
+   * @returns Version names
+   */
+  getVersions(species: PokemonSpecies): string[] {
+    return species.flavorTexts.map(entry => entry.version);
+  }
+
+  /**
+   * Finds the Pokedex entry of a version
+   * @param species - Species data
+   * @param version - Game version; the most recent entry is returned when omitted or unknown
+   * @returns The entry, or null if the species has none
+   */
+  getFlavorText(species: PokemonSpecies, version?: string): FlavorTextEntry | null {
+    return species.flavorTexts.find(entry => entry.version === version)
+      ?? species.flavorTexts[species.flavorTexts.length - 1]
+      ?? null;
+  }
+
+  /**
+   * Tells whether a species is legendary or mythical
+   * @param species - Species data
+   * @returns True for legendary and mythical species
+   */
+  isSpecial(species: PokemonSpecies): boolean {
+    return species.isLegendary || species.isMythical;
+  }
+
+  /**
+   * Lists the forms of a species, default form first, then by Pokemon ID
+   * @param species - Species data
+   * @returns Varieties with their category and display label
+   */
+  getForms(species: PokemonSpecies): PokemonForm[] {
+    return [...species.varieties]
+      .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || a.pokemonId - b.pokemonId)
+      .map(variety => ({ ...variety, ...this.describeForm(species.name, variety) }));
+  }
+
+  /**
+   * Derives the category and label of a variety from what its name adds to the species name
+   * (e.g. 'charizard-mega-x' -> Mega X, 'darmanitan-galar-zen' -> Galarian Zen)
+   */
+  private describeForm(speciesName: string, variety: PokemonVariety): { kind: PokemonFormKind; label: string } {
+    const suffix = variety.name.startsWith(`${speciesName}-`)
+      ? variety.name.slice(speciesName.length + 1)
+      : variety.name === speciesName ? '' : variety.name;
+    const [first, ...rest] = suffix.split('-').filter(Boolean);
+    const label = (words: string[]) => words.map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+
+    if (variety.isDefault) {
+      return { kind: 'default', label: first ? label([first, ...rest]) : 'Base form' };
+    }
+    if (first === 'mega') {
+      return { kind: 'mega', label: label([first, ...rest]) };
+    }
+    if (first === 'gmax') {
+      return { kind: 'gigantamax', label: label(['gigantamax', ...rest]) };
+    }
+    if (first in REGIONS) {
+      return { kind: 'regional', label: [REGIONS[first], label(rest)].filter(Boolean).join(' ') };
+    }
+    return { kind: 'other', label: label([first, ...rest]) };
+  }
+}
+
+/**
+ * Injection token for the SpeciesService
+ */
+export const SPECIES_SERVICE = new InjectionToken<SpeciesService>('SpeciesService');
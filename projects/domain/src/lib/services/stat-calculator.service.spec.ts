@@ -0,0 +1,65 @@
+import { TestBed } from '@angular/core/testing';
+import { PokemonStats } from '../models/pokemon-detail.model';
+
+import { StatCalculatorService } from './stat-calculator.service';
+
+describe('StatCalculatorService', () => {
+  let service: StatCalculatorService;
+
+  const garchomp: PokemonStats = {
+    hp: 108, attack: 130, defense: 95, specialAttack: 80, specialDefense: 85, speed: 102
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(StatCalculatorService);
+  });
+
+  it('should compute actual stats with IVs, EVs and nature', () => {
+    const stats = service.calculateStats({
+      baseStats: garchomp,
+      level: 78,
+      ivs: { hp: 24, attack: 12, defense: 30, specialAttack: 16, specialDefense: 23, speed: 5 },
+      evs: { hp: 74, attack: 190, defense: 91, specialAttack: 48, specialDefense: 84, speed: 23 },
+      nature: 'adamant'
+    });
+
+    expect(stats).toEqual({
+      hp: 289, attack: 278, defense: 193, specialAttack: 135, specialDefense: 171, speed: 171
+    });
+  });
+
+  it('should default to perfect IVs, no EVs and a neutral nature', () => {
+    const stats = service.calculateStats({ baseStats: garchomp, level: 100 });
+
+    expect(stats.hp).toBe(357);
+    expect(stats.speed).toBe(240);
+  });
+
+  it('should always give Shedinja 1 HP', () => {
+    const stats = service.calculateStats({
+      baseStats: { ...garchomp, hp: 1 },
+      level: 100,
+      evs: { hp: 252 }
+    });
+
+    expect(stats.hp).toBe(1);
+  });
+
+  it('should reject EVs above the per-stat and total limits', () => {
+    const result = service.validate({
+      baseStats: garchomp,
+      level: 50,
+      evs: { hp: 253, attack: 252, speed: 252 }
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.evTotal).toBe(757);
+    expect(result.errors.length).toBe(2);
+  });
+
+  it('should throw on invalid input', () => {
+    expect(() => service.calculateStats({ baseStats: garchomp, level: 0 })).toThrow(RangeError);
+    expect(() => service.calculateStats({ baseStats: garchomp, level: 50, nature: 'grumpy' })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,155 @@
+import { Injectable, InjectionToken } from '@angular/core';
+import { PokemonStats } from '../models/pokemon-detail.model';
+import {
+  Nature,
+  NATURES,
+  NatureStat,
+  StatCalculationInput,
+  StatValidationResult
+} from '../models/nature.model';
+
+/** Maximum EVs a Pokemon can hold across all stats */
+export const MAX_TOTAL_EVS = 510;
+
+/** Maximum EVs a Pokemon can hold in a single stat */
+export const MAX_STAT_EVS = 252;
+
+/** Maximum IV of a single stat */
+export const MAX_IV = 31;
+
+const STAT_KEYS: (keyof PokemonStats)[] = [
+  'hp', 'attack', 'defense', 'specialAttack', 'specialDefense', 'speed'
+];
+
+/**
+ * Domain service computing actual in-game stats from base stats
+ * Uses the mainline formulas (Gen 3 onwards)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StatCalculatorService {
+
+  /**
+   * Lists the available natures
+   * @returns The 25 natures
+   */
+  getNatures(): readonly Nature[] {
+    return NATURES;
+  }
+
+  /**
+   * Looks a nature up by name
+   * @param name - Nature name (case-insensitive)
+   * @returns The Nature, or undefined if unknown
+   */
+  getNature(name: string): Nature | undefined {
+    const lower = name.toLowerCase();
+    return NATURES.find(n => n.name === lower);
+  }
+
+  /**
+   * Validates level, IVs, EVs and nature of a calculation input
+   * @param input - Calculation input
+   * @returns StatValidationResult listing every problem found
+   */
+  validate(input: StatCalculationInput): StatValidationResult {
+    const errors: string[] = [];
+    const evs = input.evs ?? {};
+    const ivs = input.ivs ?? {};
+
+    if (!Number.isInteger(input.level) || input.level < 1 || input.level > 100) {
+      errors.push('Level must be an integer between 1 and 100');
+    }
+
+    let evTotal = 0;
+    for (const stat of STAT_KEYS) {
+      const ev = evs[stat] ?? 0;
+      const iv = ivs[stat] ?? MAX_IV;
+      evTotal += ev;
+
+      if (!Number.isInteger(ev) || ev < 0 || ev > MAX_STAT_EVS) {
+        errors.push(`EVs for ${stat} must be between 0 and ${MAX_STAT_EVS}`);
+      }
+      if (!Number.isInteger(iv) || iv < 0 || iv > MAX_IV) {
+        errors.push(`IVs for ${stat} must be between 0 and ${MAX_IV}`);
+      }
+    }
+
+    if (evTotal > MAX_TOTAL_EVS) {
+      errors.push(`Total EVs must not exceed ${MAX_TOTAL_EVS} (got ${evTotal})`);
+    }
+
+    if (input.nature && !this.getNature(input.nature)) {
+      errors.push(`Unknown nature: ${input.nature}`);
+    }
+
+    return { valid: errors.length === 0, errors, evTotal };
+  }
+
+  /**
+   * Computes the actual stats of a Pokemon
+   * @param input - Base stats, level, IVs, EVs and nature
+   * @returns PokemonStats holding the in-game values
+   * @throws RangeError if the input is invalid
+   */
+  calculateStats(input: StatCalculationInput): PokemonStats {
+    const validation = this.validate(input);
+    if (!validation.valid) {
+      throw new RangeError(validation.errors.join('; '));
+    }
+
+    const nature = input.nature ? this.getNature(input.nature) : undefined;
+    const stats = {} as PokemonStats;
+
+    for (const stat of STAT_KEYS) {
+      const base = input.baseStats[stat];
+      const iv = input.ivs?.[stat] ?? MAX_IV;
+      const ev = input.evs?.[stat] ?? 0;
+
+      stats[stat] = stat === 'hp'
+        ? this.calculateHp(base, iv, ev, input.level)
+        : this.calculateOtherStat(base, iv, ev, input.level, this.getNatureModifier(nature, stat));
+    }
+
+    return stats;
+  }
+
+  /**
+   * HP = floor((2 * Base + IV + floor(EV / 4)) * Level / 100) + Level + 10
+   * A base HP of 1 (Shedinja) always yields 1
+   */
+  private calculateHp(base: number, iv: number, ev: number, level: number): number {
+    if (base === 1) {
+      return 1;
+    }
+    return Math.floor(((2 * base + iv + Math.floor(ev / 4)) * level) / 100) + level + 10;
+  }
+
+  /**
+   * Stat = floor((floor((2 * Base + IV + floor(EV / 4)) * Level / 100) + 5) * Nature)
+   */
+  private calculateOtherStat(base: number, iv: number, ev: number, level: number, natureModifier: number): number {
+    const raw = Math.floor(((2 * base + iv + Math.floor(ev / 4)) * level) / 100) + 5;
+    return Math.floor((raw * natureModifier) / 10);
+  }
+
+  /**
+   * Nature modifier expressed in tenths (11 = x1.1, 9 = x0.9)
+   * to avoid floating point errors such as 100 * 0.9
+   */
+  private getNatureModifier(nature: Nature | undefined, stat: NatureStat): number {
+    if (nature?.increased === stat) {
+      return 11;
+    }
+    if (nature?.decreased === stat) {
+      return 9;
+    }
+    return 10;
+  }
+}
+
+/**
+ * Injection token for the StatCalculatorService
+ */
+export const STAT_CALCULATOR_SERVICE = new InjectionToken<StatCalculatorService>('StatCalculatorService');
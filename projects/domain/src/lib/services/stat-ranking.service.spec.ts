@@ -0,0 +1,80 @@
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom, of } from 'rxjs';
+import { PokemonDetail, PokemonStats } from '../models/pokemon-detail.model';
+import { PokemonStatsEntry } from '../models/stat-ranking.model';
+import { STATS_DATASET_REPOSITORY } from '../ports/stats-dataset.repository';
+
+import { StatRankingService } from './stat-ranking.service';
+
+describe('StatRankingService', () => {
+  let service: StatRankingService;
+
+  const createEntry = (id: number, name: string, generation: number, types: string[], speed: number): PokemonStatsEntry => ({
+    id,
+    name,
+    speciesId: id,
+    spriteUrl: '',
+    generation,
+    types,
+    abilities: [],
+    isFullyEvolved: true,
+    stats: { hp: 50, attack: 50, defense: 50, specialAttack: 50, specialDefense: 50, speed }
+  });
+
+  const dataset: PokemonStatsEntry[] = [
+    createEntry(1, 'bulbasaur', 1, ['grass', 'poison'], 45),
+    createEntry(4, 'charmander', 1, ['fire'], 65),
+    createEntry(7, 'squirtle', 1, ['water'], 43),
+    createEntry(25, 'pikachu', 1, ['electric'], 90),
+    createEntry(255, 'torchic', 3, ['fire'], 45)
+  ];
+
+  const toDetail = (entry: PokemonStatsEntry, stats: Partial<PokemonStats> = {}): PokemonDetail => ({
+    id: entry.id,
+    speciesId: entry.speciesId,
+    name: entry.name,
+    spriteUrl: '',
+    types: entry.types.map((name, i) => ({ name, slot: i + 1 })),
+    stats: { ...entry.stats, ...stats },
+    physical: { height: 10, weight: 100 },
+    abilities: [],
+    baseExperience: 100
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        StatRankingService,
+        { provide: STATS_DATASET_REPOSITORY, useValue: { getStatsDataset: () => of(dataset) } }
+      ]
+    });
+    service = TestBed.inject(StatRankingService);
+  });
+
+  it('should rank each stat against the rest of the dex', async () => {
+    const ranking = await firstValueFrom(service.getRanking(toDetail(dataset[1])));
+
+    expect(ranking.stats.speed).toEqual({ value: 65, rank: 2, outOf: 5, percentile: 75 });
+    expect(ranking.stats.baseStatTotal.value).toBe(315);
+  });
+
+  it('should share ranks between tied values', () => {
+    const speed = service.rank(toDetail(dataset[0]), dataset).stats.speed;
+
+    expect(speed.rank).toBe(3);
+    expect(speed.percentile).toBe(25);
+  });
+
+  it('should rank within a generation or a type', () => {
+    const charmander = toDetail(dataset[1]);
+
+    expect(service.rank(charmander, dataset, { type: 'fire' }).stats.speed).toEqual({ value: 65, rank: 1, outOf: 2, percentile: 100 });
+    expect(service.rank(charmander, dataset, { generation: 1 }).stats.speed.outOf).toBe(4);
+  });
+
+  it('should rank Pokemon missing from the dataset', () => {
+    const custom = { ...toDetail(dataset[1], { speed: 200 }), id: 99999 };
+
+    expect(service.rank(custom, dataset).stats.speed).toEqual({ value: 200, rank: 1, outOf: 6, percentile: 100 });
+  });
+});
@@ -0,0 +1,78 @@
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { Observable, map } from 'rxjs';
+import { PokemonDetail, PokemonStats } from '../models/pokemon-detail.model';
+import { PokemonStatsEntry, RankedStat, StatRank, DexStatRanking, StatRankingScope } from '../models/stat-ranking.model';
+import { STATS_DATASET_REPOSITORY } from '../ports/stats-dataset.repository';
+
+const STAT_KEYS: (keyof PokemonStats)[] = ['hp', 'attack', 'defense', 'specialAttack', 'specialDefense', 'speed'];
+
+/**
+ * Domain service ranking a Pokemon's base stats against the whole dex, a generation or a type
+ */
+@Injectable()
+export class StatRankingService {
+  private readonly repository = inject(STATS_DATASET_REPOSITORY);
+
+  /**
+   * Ranks each base stat and the base stat total of a Pokemon
+   * @param pokemon - Pokemon to rank
+   * @param scope - Pokemon to compare against (whole dex by default)
+   * @returns Observable of the ranking
+   */
+  getRanking(pokemon: PokemonDetail, scope: StatRankingScope = {}): Observable<DexStatRanking> {
+    return this.repository.getStatsDataset().pipe(
+      map(dataset => this.rank(pokemon, dataset, scope))
+    );
+  }
+
+  /**
+   * Ranks a Pokemon against a dataset
+   * The Pokemon itself is left out of the compared Pokemon, whether the dataset has it or not
+   * @param pokemon - Pokemon to rank
+   * @param dataset - Base stats of every Pokemon
+   * @param scope - Pokemon to compare against (whole dex by default)
+   * @returns Rank and percentile of each stat
+   */
+  rank(pokemon: PokemonDetail, dataset: PokemonStatsEntry[], scope: StatRankingScope = {}): DexStatRanking {
+    const others = dataset.filter(entry => entry.id !== pokemon.id && this.isInScope(entry, scope));
+    const valueOf = (stats: PokemonStats, stat: RankedStat) =>
+      stat === 'baseStatTotal' ? STAT_KEYS.reduce((sum, key) => sum + stats[key], 0) : stats[stat];
+
+    const rankOf = (stat: RankedStat): StatRank => {
+      const value = valueOf(pokemon.stats, stat);
+      const values = others.map(entry => valueOf(entry.stats, stat));
+      const lower = values.filter(v => v < value).length;
+
+      return {
+        value,
+        rank: values.filter(v => v > value).length + 1,
+        outOf: others.length + 1,
+        percentile: others.length > 0 ? Math.round((lower / others.length) * 100) : 100
+      };
+    };
+
+    return {
+      scope,
+      stats: {
+        hp: rankOf('hp'),
+        attack: rankOf('attack'),
+        defense: rankOf('defense'),
+        specialAttack: rankOf('specialAttack'),
+        specialDefense: rankOf('specialDefense'),
+        speed: rankOf('speed'),
+        baseStatTotal: rankOf('baseStatTotal')
+      }
+    };
+  }
+
+  private isInScope(entry: PokemonStatsEntry, scope: StatRankingScope): boolean {
+    if (scope.generation !== undefined && entry.generation !== scope.generation) return false;
+    if (scope.type && !entry.types.includes(scope.type)) return false;
+    return true;
+  }
+}
+
+/**
+ * Injection token for the StatRankingService
+ */
+export const STAT_RANKING_SERVICE = new InjectionToken<StatRankingService>('StatRankingService');
@@ -0,0 +1,52 @@
+import { TestBed } from '@angular/core/testing';
+
+import { TypeEffectivenessService } from './type-effectiveness.service';
+
+describe('TypeEffectivenessService', () => {
+  let service: TypeEffectivenessService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(TypeEffectivenessService);
+  });
+
+  it('should compute single-type multipliers', () => {
+    expect(service.getMultiplier('water', ['fire'])).toBe(2);
+    expect(service.getMultiplier('fire', ['water'])).toBe(0.5);
+    expect(service.getMultiplier('normal', ['ghost'])).toBe(0);
+    expect(service.getMultiplier('normal', ['normal'])).toBe(1);
+  });
+
+  it('should compute dual-type multipliers', () => {
+    expect(service.getMultiplier('ice', ['dragon', 'flying'])).toBe(4);
+    expect(service.getMultiplier('fighting', ['poison', 'flying'])).toBe(0.25);
+    expect(service.getMultiplier('electric', ['water', 'ground'])).toBe(0);
+  });
+
+  it('should treat unknown types as neutral', () => {
+    expect(service.getMultiplier('shadow', ['fire'])).toBe(1);
+    expect(service.getMultiplier('fire', ['unknown'])).toBe(1);
+  });
+
+  it('should build a defensive profile', () => {
+    const profile = service.getDefensiveProfile(['steel', 'fairy']);
+
+    expect(profile.multipliers.poison).toBe(0);
+    expect(profile.multipliers.dragon).toBe(0);
+    expect(profile.immunities).toEqual(['poison', 'dragon']);
+    expect(profile.weaknesses).toEqual(['fire', 'ground']);
+    expect(profile.resistances).toContain('bug');
+    expect(profile.resistances).toContain('dark');
+  });
+
+  it('should compute the offensive advantage of a typing', () => {
+    const advantage = service.getOffensiveAdvantage(['grass', 'poison'], ['water', 'ground']);
+
+    expect(advantage.byType).toEqual([
+      { type: 'grass', multiplier: 4 },
+      { type: 'poison', multiplier: 0.5 }
+    ]);
+    expect(advantage.bestMultiplier).toBe(4);
+    expect(advantage.bestTypes).toEqual(['grass']);
+  });
+});
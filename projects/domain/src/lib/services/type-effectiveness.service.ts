@@ -0,0 +1,109 @@
+import { Injectable, InjectionToken } from '@angular/core';
+import {
+  DefensiveProfile,
+  OffensiveAdvantage,
+  POKEMON_TYPE_NAMES,
+  PokemonTypeName,
+  TYPE_CHART,
+  TypeEffectivenessMultiplier,
+  TypeMatchup
+} from '../models/type-effectiveness.model';
+
+/**
+ * Domain service computing type matchups from the built-in type chart
+ * Works offline: no repository is involved
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TypeEffectivenessService {
+
+  /**
+   * Checks whether a type name is one of the 18 known types
+   * @param type - Type name (case-insensitive)
+   */
+  isKnownType(type: string): boolean {
+    return (POKEMON_TYPE_NAMES as readonly string[]).includes(type.toLowerCase());
+  }
+
+  /**
+   * Computes the damage multiplier of an attacking type against a defender
+   * Unknown types are treated as neutral
+   * @param attackingType - Type of the move
+   * @param defendingTypes - One or two types of the defender
+   * @returns Multiplier among 0, 1/4, 1/2, 1, 2 and 4
+   */
+  getMultiplier(attackingType: string, defendingTypes: string[]): TypeEffectivenessMultiplier {
+    const attacking = attackingType.toLowerCase();
+    if (!this.isKnownType(attacking)) {
+      return 1;
+    }
+
+    const row = TYPE_CHART[attacking as PokemonTypeName];
+    return defendingTypes.reduce<number>((multiplier, defendingType) => {
+      const factor = row[defendingType.toLowerCase() as PokemonTypeName];
+      return multiplier * (factor ?? 1);
+    }, 1) as TypeEffectivenessMultiplier;
+  }
+
+  /**
+   * Builds the defensive profile of a typing against every attacking type
+   * @param defendingTypes - One or two types of the defender
+   * @returns DefensiveProfile with weaknesses, resistances and immunities
+   */
+  getDefensiveProfile(defendingTypes: string[]): DefensiveProfile {
+    const multipliers = {} as Record<PokemonTypeName, TypeEffectivenessMultiplier>;
+    const weaknesses: PokemonTypeName[] = [];
+    const resistances: PokemonTypeName[] = [];
+    const immunities: PokemonTypeName[] = [];
+
+    for (const attackingType of POKEMON_TYPE_NAMES) {
+      const multiplier = this.getMultiplier(attackingType, defendingTypes);
+      multipliers[attackingType] = multiplier;
+
+      if (multiplier === 0) {
+        immunities.push(attackingType);
+      } else if (multiplier < 1) {
+        resistances.push(attackingType);
+      } else if (multiplier > 1) {
+        weaknesses.push(attackingType);
+      }
+    }
+
+    return {
+      types: defendingTypes,
+      multipliers,
+      weaknesses,
+      resistances,
+      immunities
+    };
+  }
+
+  /**
+   * Computes how well an attacker's own types hit a defender
+   * @param attackingTypes - Types of the attacking Pokemon
+   * @param defendingTypes - Types of the defending Pokemon
+   * @returns OffensiveAdvantage with the per-type and best multipliers
+   */
+  getOffensiveAdvantage(attackingTypes: string[], defendingTypes: string[]): OffensiveAdvantage {
+    const byType: TypeMatchup[] = attackingTypes.map(type => ({
+      type,
+      multiplier: this.getMultiplier(type, defendingTypes)
+    }));
+
+    const bestMultiplier = byType.length > 0
+      ? Math.max(...byType.map(m => m.multiplier)) as TypeEffectivenessMultiplier
+      : 1;
+
+    return {
+      byType,
+      bestMultiplier,
+      bestTypes: byType.filter(m => m.multiplier === bestMultiplier).map(m => m.type)
+    };
+  }
+}
+
+/**
+ * Injection token for the TypeEffectivenessService
+ */
+export const TYPE_EFFECTIVENESS_SERVICE = new InjectionToken<TypeEffectivenessService>('TypeEffectivenessService');
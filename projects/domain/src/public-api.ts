@@ -5,12 +5,50 @@
 // Models
 export * from './lib/models/pokemon.model';
 export * from './lib/models/pokemon-detail.model';
+export * from './lib/models/type-effectiveness.model';
+export * from './lib/models/nature.model';
+export * from './lib/models/multi-comparison.model';
+export * from './lib/models/comparison-strategy.model';
+export * from './lib/models/evolution.model';
+export * from './lib/models/species.model';
+export * from './lib/models/move.model';
+export * from './lib/models/ability.model';
+export * from './lib/models/domain-error.model';
+export * from './lib/models/language.model';
+export * from './lib/models/stat-ranking.model';
+export * from './lib/models/similarity.model';
+export * from './lib/models/counter.model';
+export * from './lib/models/game-context.model';
 
 // Ports (internal - for infra adapters only)
 export * from './lib/ports/pokemon.repository';
 export * from './lib/ports/pokemon-detail.repository';
+export * from './lib/ports/comparison.strategy';
+export * from './lib/ports/evolution-chain.repository';
+export * from './lib/ports/species.repository';
+export * from './lib/ports/move.repository';
+export * from './lib/ports/ability.repository';
+export * from './lib/ports/stats-dataset.repository';
+export * from './lib/ports/game-context.provider';
+export * from './lib/ports/favorites.repository';
 
 // Services (public - for UI/app components)
 export * from './lib/services/comparison.service';
+export * from './lib/services/comparison-strategies';
 export * from './lib/services/pokemon-catalog.service';
 export * from './lib/services/pokemon-detail.service';
+export * from './lib/services/type-effectiveness.service';
+export * from './lib/services/stat-calculator.service';
+export * from './lib/services/evolution.service';
+export * from './lib/services/species.service';
+export * from './lib/services/move.service';
+export * from './lib/services/ability.service';
+export * from './lib/services/name-search.service';
+export * from './lib/services/pokemon-name.service';
+export * from './lib/services/stat-ranking.service';
+export * from './lib/services/similarity.service';
+export * from './lib/services/counter.service';
+export * from './lib/services/game-history.service';
+export * from './lib/services/favorites.service';
+export * from './lib/services/pokemon-filter.service';
+export * from './lib/services/pokemon-sort.service';
@@ -0,0 +1,35 @@
+import { HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { NotFoundError, RateLimitedError } from 'domain';
+
+import { toDomainError } from './http-error.mapper';
+
+describe('toDomainError', () => {
+  const httpError = (status: number, headers?: Record<string, string>) =>
+    new HttpErrorResponse({ status, headers: new HttpHeaders(headers) });
+
+  it('should map HTTP statuses to domain errors', () => {
+    expect(toDomainError(httpError(404), 'Pokémon 99999').kind).toBe('not-found');
+    expect(toDomainError(httpError(0), 'Pokémon 25').kind).toBe('network');
+    expect(toDomainError(httpError(503), 'Pokémon 25').kind).toBe('network');
+    expect(toDomainError(httpError(200), 'Pokémon 25').kind).toBe('invalid-response');
+    expect(toDomainError(httpError(500), 'Pokémon 25').kind).toBe('unknown');
+  });
+
+  it('should name the missing resource', () => {
+    expect(toDomainError(httpError(404), 'Pokémon 99999').message).toBe("Pokémon 99999 doesn't exist.");
+  });
+
+  it('should read the Retry-After delay of rate-limited requests', () => {
+    const error = toDomainError(httpError(429, { 'Retry-After': '30' }), 'Pokémon 25') as RateLimitedError;
+
+    expect(error.kind).toBe('rate-limited');
+    expect(error.retryAfter).toBe(30);
+  });
+
+  it('should map mapping failures and keep domain errors', () => {
+    const notFound = new NotFoundError('Move "splash-dance"');
+
+    expect(toDomainError(new TypeError('Cannot read properties of undefined'), 'Pokémon 25').kind).toBe('invalid-response');
+    expect(toDomainError(notFound, 'Pokémon 25')).toBe(notFound);
+  });
+});
@@ -0,0 +1,58 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { MonoTypeOperatorFunction, catchError, throwError } from 'rxjs';
+import {
+  DomainError,
+  InvalidResponseError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  UnknownError,
+  isDomainError
+} from 'domain';
+
+/** Statuses meaning the server is unreachable or temporarily unavailable */
+const UNAVAILABLE_STATUSES = [502, 503, 504];
+
+/**
+ * Translates a failed request or response mapping into a domain error
+ * @param error - Error raised by HttpClient or by the adapter's mapping code
+ * @param resource - What was requested, for display (e.g. 'Pokémon 25')
+ * @returns The matching domain error; domain errors are returned as is
+ */
+export function toDomainError(error: unknown, resource: string): DomainError {
+  if (isDomainError(error)) {
+    return error;
+  }
+
+  if (error instanceof HttpErrorResponse) {
+    if (error.status === 0 || UNAVAILABLE_STATUSES.includes(error.status)) return new NetworkError();
+    if (error.status === 404) return new NotFoundError(resource);
+    if (error.status === 429) return new RateLimitedError(parseRetryAfter(error.headers.get('Retry-After')));
+    // A successful status with an error means the body could not be parsed
+    if (error.status >= 200 && error.status < 300) return new InvalidResponseError();
+    return new UnknownError(error);
+  }
+
+  // Mapping code failing on a missing field
+  if (error instanceof TypeError) {
+    return new InvalidResponseError();
+  }
+
+  return new UnknownError(error);
+}
+
+/**
+ * Operator turning any failure of an adapter observable into a domain error
+ * @param resource - What was requested, for display (e.g. 'Pokémon 25')
+ */
+export function mapHttpError<T>(resource: string): MonoTypeOperatorFunction<T> {
+  return catchError(error => throwError(() => toDomainError(error, resource)));
+}
+
+/**
+ * Reads a Retry-After header given in seconds; HTTP dates are ignored
+ */
+function parseRetryAfter(value: string | null): number | null {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds > 0 ? Math.ceil(seconds) : null;
+}
@@ -0,0 +1,63 @@
+import { EnvironmentInjector, createEnvironmentInjector } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+
+import { LocalStorageFavoritesAdapter } from './local-storage-favorites.adapter';
+
+describe('LocalStorageFavoritesAdapter', () => {
+  /** Creates an adapter in its own injector, as each remote module does */
+  const create = (injector = createEnvironmentInjector([], TestBed.inject(EnvironmentInjector))) =>
+    injector.runInContext(() => new LocalStorageFavoritesAdapter());
+
+  beforeEach(() => localStorage.clear());
+
+  it('should persist favorites without duplicates', () => {
+    const adapter = create();
+
+    adapter.addFavorite(25).subscribe();
+    adapter.addFavorite(1).subscribe();
+    adapter.addFavorite(25).subscribe();
+    adapter.removeFavorite(1).subscribe();
+
+    let reloaded: number[] = [];
+    create().getFavorites().subscribe(f => reloaded = f);
+
+    expect(JSON.parse(localStorage.getItem('pc-favorites')!)).toEqual([25]);
+    expect(reloaded).toEqual([25]);
+  });
+
+  it('should share changes between instances of the page', () => {
+    const catalog = create();
+    const detail = create();
+    let favorites: number[] = [];
+    catalog.getFavorites().subscribe(f => favorites = f);
+
+    detail.addFavorite(6).subscribe();
+
+    expect(favorites).toEqual([6]);
+  });
+
+  it('should follow changes made in other tabs and ignore unreadable values', () => {
+    const adapter = create();
+    let favorites: number[] = [];
+    adapter.getFavorites().subscribe(f => favorites = f);
+
+    window.dispatchEvent(new StorageEvent('storage', { key: 'pc-favorites', newValue: '[4,7]' }));
+    expect(favorites).toEqual([4, 7]);
+
+    window.dispatchEvent(new StorageEvent('storage', { key: 'pc-favorites', newValue: 'not json' }));
+    expect(favorites).toEqual([]);
+  });
+
+  it('should stop following changes once its injector is destroyed', () => {
+    const injector = createEnvironmentInjector([], TestBed.inject(EnvironmentInjector));
+    const adapter = create(injector);
+    let favorites: number[] = [];
+    adapter.getFavorites().subscribe(f => favorites = f);
+
+    injector.destroy();
+    create().addFavorite(6).subscribe();
+    window.dispatchEvent(new StorageEvent('storage', { key: 'pc-favorites', newValue: '[4,7]' }));
+
+    expect(favorites).toEqual([]);
+  });
+});
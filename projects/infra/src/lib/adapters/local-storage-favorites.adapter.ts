@@ -0,0 +1,122 @@
+import { DestroyRef, Injectable, inject } from '@angular/core';
+import { BehaviorSubject, Observable, defer, of, throwError } from 'rxjs';
+import { FavoritesRepository, UnknownError } from 'domain';
+
+const FAVORITES_STORAGE_KEY = 'pc-favorites';
+
+// Global state key for cross-microfrontend communication
+const FAVORITES_STATE_KEY = '__pc_favorites_state__';
+
+interface GlobalFavoritesState {
+  listeners: Set<(favorites: number[]) => void>;
+}
+
+interface WindowWithFavoritesState extends Window {
+  [FAVORITES_STATE_KEY]?: GlobalFavoritesState;
+}
+
+function getGlobalState(): GlobalFavoritesState {
+  if (typeof window !== 'undefined') {
+    const win = window as WindowWithFavoritesState;
+    if (!win[FAVORITES_STATE_KEY]) {
+      win[FAVORITES_STATE_KEY] = { listeners: new Set() };
+    }
+    return win[FAVORITES_STATE_KEY];
+  }
+  return { listeners: new Set() };
+}
+
+/**
+ * Reads stored favorites; missing or unreadable values mean no favorites
+ */
+function parseFavorites(value: string | null): number[] {
+  try {
+    const parsed: unknown = JSON.parse(value ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((id): id is number => Number.isInteger(id)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * localStorage adapter implementing the FavoritesRepository port
+ * Every remote gets its own instance: changes are shared through a window-level listener set,
+ * and with other browser tabs through storage events; both listeners are removed when the
+ * injector providing the instance is destroyed
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LocalStorageFavoritesAdapter implements FavoritesRepository {
+  private readonly favorites$ = new BehaviorSubject<number[]>(this.read());
+
+  constructor() {
+    const onChange = (favorites: number[]) => this.favorites$.next(favorites);
+    // Only fired for changes made in other tabs
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === FAVORITES_STORAGE_KEY || event.key === null) {
+        this.favorites$.next(parseFavorites(event.newValue));
+      }
+    };
+
+    const state = getGlobalState();
+    state.listeners.add(onChange);
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', onStorage);
+    }
+
+    inject(DestroyRef).onDestroy(() => {
+      state.listeners.delete(onChange);
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('storage', onStorage);
+      }
+      this.favorites$.complete();
+    });
+  }
+
+  getFavorites(): Observable<number[]> {
+    return this.favorites$.asObservable();
+  }
+
+  addFavorite(id: number): Observable<void> {
+    return defer(() => {
+      const favorites = this.read();
+      return favorites.includes(id) ? of(undefined) : this.write([...favorites, id]);
+    });
+  }
+
+  removeFavorite(id: number): Observable<void> {
+    return defer(() => {
+      const favorites = this.read();
+      return favorites.includes(id) ? this.write(favorites.filter(favorite => favorite !== id)) : of(undefined);
+    });
+  }
+
+  /**
+   * Reads the favorites from storage rather than from memory, so that concurrent tabs do not
+   * overwrite each other's changes
+   */
+  private read(): number[] {
+    if (typeof window === 'undefined' || !window.localStorage) {
+      return this.favorites$?.value ?? [];
+    }
+    return parseFavorites(localStorage.getItem(FAVORITES_STORAGE_KEY));
+  }
+
+  /**
+   * Saves the favorites and notifies every remote of this page
+   * Fails with an UnknownError when storage is unavailable or full
+   */
+  private write(favorites: number[]): Observable<void> {
+    try {
+      if (typeof window !== 'undefined' && window.localStorage) {
+        localStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(favorites));
+      }
+    } catch (error) {
+      return throwError(() => new UnknownError(error));
+    }
+
+    getGlobalState().listeners.forEach(listener => listener(favorites));
+    return of(undefined);
+  }
+}
@@ -0,0 +1,97 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, map } from 'rxjs';
+import {
+  AbilityRepository,
+  AbilityDetail
+} from 'domain';
+import { mapHttpError } from './http-error.mapper';
+import { API_URL, ARTWORK_URL } from './pokeapi-urls';
+
+/**
+ * PokeAPI named resource reference
+ */
+interface PokeApiNamedResource {
+  name: string;
+  url: string;
+}
+
+/**
+ * PokeAPI ability response type
+ */
+interface PokeApiAbilityResponse {
+  id: number;
+  name: string;
+  effect_entries: {
+    effect: string;
+    short_effect: string;
+    language: PokeApiNamedResource;
+  }[];
+  flavor_text_entries: {
+    flavor_text: string;
+    language: PokeApiNamedResource;
+    version_group: PokeApiNamedResource;
+  }[];
+  pokemon: {
+    is_hidden: boolean;
+    slot: number;
+    pokemon: PokeApiNamedResource;
+  }[];
+}
+
+/** Language of the texts kept from the API */
+const LANGUAGE = 'en';
+
+/**
+ * PokeAPI adapter for abilities
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PokeApiAbilityAdapter implements AbilityRepository {
+  private readonly http = inject(HttpClient);
+
+  getAbility(name: string): Observable<AbilityDetail> {
+    return this.http.get<PokeApiAbilityResponse>(
+      `${API_URL}/ability/${name.toLowerCase()}`
+    ).pipe(
+      map(response => this.mapToAbility(response)),
+      mapHttpError(`Ability "${name}"`)
+    );
+  }
+
+  /**
+   * Recent abilities have no effect entries yet; their latest in-game description is used instead
+   */
+  private mapToAbility(response: PokeApiAbilityResponse): AbilityDetail {
+    const effectEntry = response.effect_entries.find(e => e.language.name === LANGUAGE);
+    const flavorText = response.flavor_text_entries
+      .filter(e => e.language.name === LANGUAGE)
+      .map(e => e.flavor_text.replace(/\s+/g, ' ').trim())
+      .pop() ?? '';
+
+    return {
+      id: response.id,
+      name: response.name,
+      effect: effectEntry?.effect.replace(/\s+/g, ' ').trim() ?? flavorText,
+      shortEffect: effectEntry?.short_effect.replace(/\s+/g, ' ').trim() ?? flavorText,
+      pokemon: response.pokemon.map(p => {
+        const id = this.extractId(p.pokemon.url);
+        return {
+          id,
+          name: p.pokemon.name,
+          spriteUrl: `${ARTWORK_URL}/${id}.png`,
+          isHidden: p.is_hidden
+        };
+      })
+    };
+  }
+
+  /**
+   * Extracts the numeric ID from a PokeAPI resource URL (e.g. `.../pokemon/25/`)
+   */
+  private extractId(url: string): number {
+    const segments = url.split('/').filter(Boolean);
+    return Number(segments[segments.length - 1]);
+  }
+}
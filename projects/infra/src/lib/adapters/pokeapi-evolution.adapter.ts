@@ -0,0 +1,48 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, map, switchMap } from 'rxjs';
+import { EvolutionChainRepository, EvolutionChain, NotFoundError } from 'domain';
+import { mapHttpError } from './http-error.mapper';
+import { PokeApiEvolutionChainResponse, mapToEvolutionChain } from './pokeapi-evolution.mapper';
+import { PokeApiSpeciesResponse } from './pokeapi-species.mapper';
+import { API_URL } from './pokeapi-urls';
+
+/**
+ * PokeAPI species response (only the field used here)
+ */
+type PokeApiSpeciesChainResponse = Pick<PokeApiSpeciesResponse, 'evolution_chain'>;
+
+/**
+ * PokeAPI adapter for evolution chains
+ * Resolves the chain of a species through `/pokemon-species`, then maps `/evolution-chain`
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PokeApiEvolutionAdapter implements EvolutionChainRepository {
+  private readonly http = inject(HttpClient);
+
+  getEvolutionChainBySpeciesId(speciesId: number): Observable<EvolutionChain> {
+    return this.http.get<PokeApiSpeciesChainResponse>(
+      `${API_URL}/pokemon-species/${speciesId}`
+    ).pipe(
+      switchMap(species => {
+        if (!species.evolution_chain) {
+          throw new NotFoundError(`Evolution chain of species ${speciesId}`);
+        }
+        return this.http.get<PokeApiEvolutionChainResponse>(species.evolution_chain.url);
+      }),
+      map(response => mapToEvolutionChain(response)),
+      mapHttpError(`Species ${speciesId}`)
+    );
+  }
+
+  getEvolutionChain(chainId: number): Observable<EvolutionChain> {
+    return this.http.get<PokeApiEvolutionChainResponse>(
+      `${API_URL}/evolution-chain/${chainId}`
+    ).pipe(
+      map(response => mapToEvolutionChain(response)),
+      mapHttpError(`Evolution chain ${chainId}`)
+    );
+  }
+}
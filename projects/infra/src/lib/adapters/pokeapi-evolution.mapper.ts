@@ -0,0 +1,118 @@
+import { EvolutionChain, EvolutionStage, EvolutionTrigger, EvolutionTriggerKind } from 'domain';
+import { extractResourceId } from './pokeapi-pokemon.mapper';
+import { ARTWORK_URL } from './pokeapi-urls';
+
+/**
+ * PokeAPI named resource reference
+ */
+interface PokeApiNamedResource {
+  name: string;
+  url: string;
+}
+
+/**
+ * PokeAPI evolution detail: conditions for one evolution
+ */
+interface PokeApiEvolutionDetail {
+  trigger: PokeApiNamedResource;
+  item: PokeApiNamedResource | null;
+  held_item: PokeApiNamedResource | null;
+  known_move: PokeApiNamedResource | null;
+  known_move_type: PokeApiNamedResource | null;
+  location: PokeApiNamedResource | null;
+  party_species: PokeApiNamedResource | null;
+  party_type: PokeApiNamedResource | null;
+  trade_species: PokeApiNamedResource | null;
+  gender: number | null;
+  min_level: number | null;
+  min_happiness: number | null;
+  min_beauty: number | null;
+  min_affection: number | null;
+  needs_overworld_rain: boolean;
+  relative_physical_stats: -1 | 0 | 1 | null;
+  time_of_day: string;
+  turn_upside_down: boolean;
+}
+
+/**
+ * PokeAPI evolution chain link (recursive)
+ */
+interface PokeApiChainLink {
+  is_baby: boolean;
+  species: PokeApiNamedResource;
+  evolution_details: PokeApiEvolutionDetail[];
+  evolves_to: PokeApiChainLink[];
+}
+
+/**
+ * PokeAPI `/evolution-chain/{id}` response, as read by the adapter and the snapshot builder
+ * Shared with tools/snapshot-builder like pokeapi-pokemon.mapper: keep this file free of runtime
+ * imports (domain types only)
+ */
+export interface PokeApiEvolutionChainResponse {
+  id: number;
+  chain: PokeApiChainLink;
+}
+
+/**
+ * Maps an evolution chain response to the domain model
+ */
+export function mapToEvolutionChain(response: PokeApiEvolutionChainResponse): EvolutionChain {
+  return {
+    id: response.id,
+    root: mapToStage(response.chain)
+  };
+}
+
+function mapToStage(link: PokeApiChainLink): EvolutionStage {
+  const speciesId = extractResourceId(link.species.url);
+
+  return {
+    speciesId,
+    name: link.species.name,
+    spriteUrl: `${ARTWORK_URL}/${speciesId}.png`,
+    isBaby: link.is_baby,
+    triggers: link.evolution_details.map(detail => mapToTrigger(detail)),
+    evolvesTo: link.evolves_to.map(next => mapToStage(next))
+  };
+}
+
+function mapToTrigger(detail: PokeApiEvolutionDetail): EvolutionTrigger {
+  const trigger: EvolutionTrigger = {
+    kind: mapTriggerKind(detail),
+    trigger: detail.trigger.name
+  };
+
+  if (detail.min_level !== null) trigger.minLevel = detail.min_level;
+  if (detail.item) trigger.item = detail.item.name;
+  if (detail.held_item) trigger.heldItem = detail.held_item.name;
+  if (detail.min_happiness !== null) trigger.minHappiness = detail.min_happiness;
+  if (detail.min_affection !== null) trigger.minAffection = detail.min_affection;
+  if (detail.min_beauty !== null) trigger.minBeauty = detail.min_beauty;
+  if (detail.known_move) trigger.knownMove = detail.known_move.name;
+  if (detail.known_move_type) trigger.knownMoveType = detail.known_move_type.name;
+  if (detail.location) trigger.location = detail.location.name;
+  if (detail.time_of_day) trigger.timeOfDay = detail.time_of_day;
+  if (detail.gender !== null) trigger.gender = detail.gender === 1 ? 'female' : 'male';
+  if (detail.trade_species) trigger.tradeSpecies = detail.trade_species.name;
+  if (detail.party_species) trigger.partySpecies = detail.party_species.name;
+  if (detail.party_type) trigger.partyType = detail.party_type.name;
+  if (detail.relative_physical_stats !== null) trigger.relativePhysicalStats = detail.relative_physical_stats;
+  if (detail.needs_overworld_rain) trigger.needsOverworldRain = true;
+  if (detail.turn_upside_down) trigger.turnUpsideDown = true;
+
+  return trigger;
+}
+
+function mapTriggerKind(detail: PokeApiEvolutionDetail): EvolutionTriggerKind {
+  switch (detail.trigger.name) {
+    case 'level-up':
+      return detail.min_happiness !== null ? 'friendship' : 'level';
+    case 'use-item':
+      return 'item';
+    case 'trade':
+      return 'trade';
+    default:
+      return 'other';
+  }
+}
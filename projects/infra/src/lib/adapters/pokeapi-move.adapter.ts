@@ -0,0 +1,142 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, forkJoin, map, of } from 'rxjs';
+import {
+  MoveRepository,
+  Move,
+  MoveCategory,
+  Learnset,
+  LearnsetGroup
+} from 'domain';
+import { mapHttpError } from './http-error.mapper';
+import { API_URL } from './pokeapi-urls';
+
+/**
+ * PokeAPI named resource reference
+ */
+interface PokeApiNamedResource {
+  name: string;
+  url: string;
+}
+
+/**
+ * PokeAPI Pokemon response (only the moves are used here)
+ */
+interface PokeApiPokemonMovesResponse {
+  id: number;
+  moves: {
+    move: PokeApiNamedResource;
+    version_group_details: {
+      level_learned_at: number;
+      move_learn_method: PokeApiNamedResource;
+      version_group: PokeApiNamedResource;
+    }[];
+  }[];
+}
+
+/**
+ * PokeAPI move response type
+ */
+interface PokeApiMoveResponse {
+  id: number;
+  name: string;
+  type: PokeApiNamedResource;
+  damage_class: PokeApiNamedResource;
+  power: number | null;
+  accuracy: number | null;
+  pp: number | null;
+  priority: number;
+}
+
+/**
+ * PokeAPI adapter for moves and learnsets
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PokeApiMoveAdapter implements MoveRepository {
+  private readonly http = inject(HttpClient);
+
+  getLearnset(pokemonId: number): Observable<Learnset> {
+    return this.http.get<PokeApiPokemonMovesResponse>(
+      `${API_URL}/pokemon/${pokemonId}`
+    ).pipe(
+      map(response => this.mapToLearnset(response)),
+      mapHttpError(`Pokémon ${pokemonId}`)
+    );
+  }
+
+  getMove(name: string): Observable<Move> {
+    return this.http.get<PokeApiMoveResponse>(
+      `${API_URL}/move/${name.toLowerCase()}`
+    ).pipe(
+      map(response => this.mapToMove(response)),
+      mapHttpError(`Move "${name}"`)
+    );
+  }
+
+  getMoves(names: string[]): Observable<Move[]> {
+    if (names.length === 0) {
+      return of([]);
+    }
+    return forkJoin(names.map(name => this.getMove(name)));
+  }
+
+  /**
+   * Regroups the per-move version details by version group and learn method
+   * Version groups are ordered by their PokeAPI ID, i.e. oldest first
+   */
+  private mapToLearnset(response: PokeApiPokemonMovesResponse): Learnset {
+    const groups = new Map<string, LearnsetGroup>();
+    const versionGroupIds = new Map<string, number>();
+
+    for (const { move, version_group_details } of response.moves) {
+      for (const detail of version_group_details) {
+        const versionGroup = detail.version_group.name;
+        const method = detail.move_learn_method.name;
+        const key = `${versionGroup}/${method}`;
+
+        versionGroupIds.set(versionGroup, this.extractId(detail.version_group.url));
+        if (!groups.has(key)) {
+          groups.set(key, { versionGroup, method, moves: [] });
+        }
+        groups.get(key)!.moves.push({
+          name: move.name,
+          level: method === 'level-up' ? detail.level_learned_at : null
+        });
+      }
+    }
+
+    const versionGroups = [...versionGroupIds.keys()]
+      .sort((a, b) => versionGroupIds.get(a)! - versionGroupIds.get(b)!);
+
+    return {
+      pokemonId: response.id,
+      versionGroups,
+      groups: [...groups.values()].sort((a, b) =>
+        versionGroups.indexOf(a.versionGroup) - versionGroups.indexOf(b.versionGroup)
+      )
+    };
+  }
+
+  private mapToMove(response: PokeApiMoveResponse): Move {
+    return {
+      id: response.id,
+      name: response.name,
+      type: response.type.name,
+      category: response.damage_class.name as MoveCategory,
+      power: response.power,
+      accuracy: response.accuracy,
+      pp: response.pp,
+      priority: response.priority
+    };
+  }
+
+  /**
+   * Extracts the numeric ID from a PokeAPI resource URL (e.g. `.../version-group/25/`)
+   */
+  private extractId(url: string): number {
+    const segments = url.split('/').filter(Boolean);
+    return Number(segments[segments.length - 1]);
+  }
+}
@@ -0,0 +1,68 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, finalize, of, shareReplay, tap } from 'rxjs';
+import { LruCache } from '../cache/lru-cache';
+import { RequestLimiter } from './request-limiter';
+import { PokeApiPokemonResponse } from './pokeapi-pokemon.mapper';
+import { API_URL } from './pokeapi-urls';
+
+/** Maximum number of `/pokemon` requests running at once, across the adapters */
+const MAX_CONCURRENT_REQUESTS = 10;
+
+/** Number of cache entries kept for reuse; each response is stored by ID and by name */
+const MAX_CACHED_RESPONSES = 600;
+
+/**
+ * Loads `/pokemon/{id or name}` responses for every adapter needing them
+ * Concurrent requests for the same Pokemon share one HTTP call, recent responses are reused
+ * whichever adapter fetched them (a detail page then a catalog page), and no more than
+ * MAX_CONCURRENT_REQUESTS run at once. Errors are left to the adapters to map
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PokeApiPokemonLoader {
+  private readonly http = inject(HttpClient);
+  private readonly limiter = new RequestLimiter(MAX_CONCURRENT_REQUESTS);
+  private readonly responses = new LruCache<PokeApiPokemonResponse>(MAX_CACHED_RESPONSES);
+  private readonly inFlight = new Map<string, Observable<PokeApiPokemonResponse>>();
+
+  /**
+   * Loads a Pokemon
+   * @param idOrName - Pokemon ID or name (e.g. 25 or 'pikachu')
+   * @returns Observable of the response
+   */
+  get(idOrName: number | string): Observable<PokeApiPokemonResponse> {
+    const key = String(idOrName).toLowerCase();
+
+    const cached = this.responses.get(key);
+    if (cached) {
+      return of(cached);
+    }
+
+    let request$ = this.inFlight.get(key);
+    if (!request$) {
+      request$ = this.limiter.schedule(() =>
+        this.http.get<PokeApiPokemonResponse>(`${API_URL}/pokemon/${key}`)
+      ).pipe(
+        tap(response => {
+          this.responses.set(String(response.id), response);
+          this.responses.set(response.name, response);
+        }),
+        finalize(() => this.inFlight.delete(key)),
+        shareReplay({ bufferSize: 1, refCount: true })
+      );
+      this.inFlight.set(key, request$);
+    }
+
+    return request$;
+  }
+
+  /**
+   * Returns a response already loaded, without any request
+   * @param id - Pokemon ID
+   */
+  peek(id: number): PokeApiPokemonResponse | undefined {
+    return this.responses.get(String(id));
+  }
+}
@@ -0,0 +1,209 @@
+import { PastValue, PokemonDetail, PokemonStats, PokemonSummary, PokemonType } from 'domain';
+
+/**
+ * PokeAPI `/pokemon/{id or name}` response, as read by the adapters and the snapshot builder
+ * The mapping below is shared with tools/snapshot-builder, which runs it in Node: keep this file
+ * free of runtime imports (domain types only)
+ */
+export interface PokeApiPokemonResponse {
+  id: number;
+  name: string;
+  height: number;
+  weight: number;
+  base_experience: number;
+  sprites: {
+    front_default: string;
+    other?: {
+      'official-artwork'?: {
+        front_default: string;
+      };
+    };
+  };
+  types: {
+    slot: number;
+    type: {
+      name: string;
+      url: string;
+    };
+  }[];
+  stats: {
+    base_stat: number;
+    effort: number;
+    stat: {
+      name: string;
+      url: string;
+    };
+  }[];
+  abilities: {
+    ability: {
+      name: string;
+      url: string;
+    };
+    is_hidden: boolean;
+    slot: number;
+  }[];
+  species: {
+    name: string;
+    url: string;
+  };
+  /** Types in older generations, for Pokemon whose types changed */
+  past_types?: {
+    generation: {
+      name: string;
+      url: string;
+    };
+    types: PokeApiPokemonResponse['types'];
+  }[];
+  /** Base stats in older generations, for Pokemon whose stats changed */
+  past_stats?: {
+    generation: {
+      name: string;
+      url: string;
+    };
+    stats: PokeApiPokemonResponse['stats'];
+  }[];
+}
+
+/** Domain stat keys by PokeAPI stat name */
+const STAT_KEYS: Record<string, keyof PokemonStats> = {
+  'hp': 'hp',
+  'attack': 'attack',
+  'defense': 'defense',
+  'special-attack': 'specialAttack',
+  'special-defense': 'specialDefense',
+  'speed': 'speed'
+};
+
+/**
+ * Maps a response to a catalog summary, as in the latest games
+ */
+export function mapToPokemonSummary(response: PokeApiPokemonResponse): PokemonSummary {
+  return {
+    id: response.id,
+    name: response.name,
+    spriteUrl: mapSpriteUrl(response),
+    types: mapTypes(response.types)
+  };
+}
+
+/**
+ * Maps a response to detailed data, as in the latest games
+ * Adapters apply past types and stats (see mapPastTypes and mapPastStats) for older games
+ */
+export function mapToPokemonDetail(response: PokeApiPokemonResponse): PokemonDetail {
+  return {
+    id: response.id,
+    speciesId: extractResourceId(response.species.url),
+    name: response.name,
+    spriteUrl: mapSpriteUrl(response),
+    types: mapTypes(response.types),
+    stats: mapStats(response.stats),
+    physical: {
+      height: response.height,
+      weight: response.weight
+    },
+    abilities: response.abilities.map(a => ({
+      name: a.ability.name,
+      isHidden: a.is_hidden
+    })),
+    baseExperience: response.base_experience
+  };
+}
+
+/**
+ * Types in older generations, each applying up to its generation
+ */
+export function mapPastTypes(response: PokeApiPokemonResponse): PastValue<PokemonType[]>[] {
+  return (response.past_types ?? []).map(past => ({
+    generation: extractResourceId(past.generation.url),
+    value: mapTypes(past.types)
+  }));
+}
+
+/**
+ * Base stats in older generations, each applying up to its generation; only the listed stats changed
+ */
+export function mapPastStats(response: PokeApiPokemonResponse): PastValue<Partial<PokemonStats>>[] {
+  return (response.past_stats ?? []).map(past => ({
+    generation: extractResourceId(past.generation.url),
+    value: mapPartialStats(past.stats)
+  }));
+}
+
+/**
+ * Builds base stats from values keyed by PokeAPI stat name; missing stats are 0
+ */
+export function toPokemonStats(stats: Record<string, number>): PokemonStats {
+  return {
+    hp: stats['hp'] ?? 0,
+    attack: stats['attack'] ?? 0,
+    defense: stats['defense'] ?? 0,
+    specialAttack: stats['special-attack'] ?? 0,
+    specialDefense: stats['special-defense'] ?? 0,
+    speed: stats['speed'] ?? 0
+  };
+}
+
+/**
+ * Builds the base stats listed in values keyed by PokeAPI stat name, leaving out the missing ones
+ */
+export function toPartialStats(stats: Record<string, number>): Partial<PokemonStats> {
+  const partial: Partial<PokemonStats> = {};
+
+  for (const [name, value] of Object.entries(stats)) {
+    const key = STAT_KEYS[name];
+    if (key) {
+      partial[key] = value;
+    }
+  }
+
+  return partial;
+}
+
+/**
+ * Extracts the numeric ID from a PokeAPI resource URL (e.g. `.../pokemon-species/6/`)
+ */
+export function extractResourceId(url: string): number {
+  const segments = url.split('/').filter(Boolean);
+  return Number(segments[segments.length - 1]);
+}
+
+/**
+ * Prefers the official artwork, falling back to the default sprite
+ */
+function mapSpriteUrl(response: PokeApiPokemonResponse): string {
+  return response.sprites.other?.['official-artwork']?.front_default
+    ?? response.sprites.front_default
+    ?? '';
+}
+
+function mapTypes(apiTypes: PokeApiPokemonResponse['types']): PokemonType[] {
+  return apiTypes.map(t => ({
+    name: t.type.name,
+    slot: t.slot
+  }));
+}
+
+function mapStats(apiStats: PokeApiPokemonResponse['stats']): PokemonStats {
+  const stats: Record<string, number> = {};
+  for (const stat of apiStats) {
+    stats[stat.stat.name] = stat.base_stat;
+  }
+  return toPokemonStats(stats);
+}
+
+/**
+ * Maps the stats listed in a response, leaving out the missing ones
+ */
+function mapPartialStats(apiStats: PokeApiPokemonResponse['stats']): Partial<PokemonStats> {
+  const stats: Partial<PokemonStats> = {};
+
+  for (const stat of apiStats) {
+    const key = STAT_KEYS[stat.stat.name];
+    if (key) {
+      stats[key] = stat.base_stat;
+    }
+  }
+
+  return stats;
+}
@@ -0,0 +1,26 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, map } from 'rxjs';
+import { SpeciesRepository, PokemonSpecies, SUPPORTED_LANGUAGES } from 'domain';
+import { mapHttpError } from './http-error.mapper';
+import { PokeApiSpeciesResponse, mapToPokemonSpecies } from './pokeapi-species.mapper';
+import { API_URL } from './pokeapi-urls';
+
+/**
+ * PokeAPI adapter for species data
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PokeApiSpeciesAdapter implements SpeciesRepository {
+  private readonly http = inject(HttpClient);
+
+  getSpecies(speciesId: number): Observable<PokemonSpecies> {
+    return this.http.get<PokeApiSpeciesResponse>(
+      `${API_URL}/pokemon-species/${speciesId}`
+    ).pipe(
+      map(response => mapToPokemonSpecies(response, SUPPORTED_LANGUAGES)),
+      mapHttpError(`Species ${speciesId}`)
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { FlavorTextEntry, LanguageCode, LocalizedNames, PokemonSpecies, PokemonVariety } from 'domain';
+import { extractResourceId } from './pokeapi-pokemon.mapper';
+
+/**
+ * PokeAPI named resource reference
+ */
+interface PokeApiNamedResource {
+  name: string;
+  url: string;
+}
+
+/**
+ * PokeAPI `/pokemon-species/{id}` response, as read by the adapters and the snapshot builder
+ * Shared with tools/snapshot-builder like pokeapi-pokemon.mapper: keep this file free of runtime
+ * imports (domain types only)
+ */
+export interface PokeApiSpeciesResponse {
+  id: number;
+  name: string;
+  base_happiness: number | null;
+  capture_rate: number;
+  color: PokeApiNamedResource;
+  egg_groups: PokeApiNamedResource[];
+  evolution_chain: {
+    url: string;
+  } | null;
+  flavor_text_entries: {
+    flavor_text: string;
+    language: PokeApiNamedResource;
+    version: PokeApiNamedResource;
+  }[];
+  genera: {
+    genus: string;
+    language: PokeApiNamedResource;
+  }[];
+  generation: PokeApiNamedResource;
+  growth_rate: PokeApiNamedResource;
+  habitat: PokeApiNamedResource | null;
+  is_baby: boolean;
+  is_legendary: boolean;
+  is_mythical: boolean;
+  names: {
+    name: string;
+    language: PokeApiNamedResource;
+  }[];
+  varieties: {
+    is_default: boolean;
+    pokemon: PokeApiNamedResource;
+  }[];
+}
+
+/** Language of the texts kept from the API */
+const LANGUAGE = 'en';
+
+/**
+ * Maps a species response to the domain model
+ * @param languages - Languages whose names are kept, i.e. the domain's SUPPORTED_LANGUAGES
+ */
+export function mapToPokemonSpecies(response: PokeApiSpeciesResponse, languages: readonly LanguageCode[]): PokemonSpecies {
+  return {
+    id: response.id,
+    name: response.name,
+    names: mapNames(response.names, languages),
+    genus: response.genera.find(g => g.language.name === LANGUAGE)?.genus ?? '',
+    generation: parseGeneration(response.generation.name),
+    isLegendary: response.is_legendary,
+    isMythical: response.is_mythical,
+    isBaby: response.is_baby,
+    captureRate: response.capture_rate,
+    baseHappiness: response.base_happiness,
+    growthRate: response.growth_rate.name,
+    eggGroups: response.egg_groups.map(g => g.name),
+    habitat: response.habitat?.name ?? null,
+    color: response.color.name,
+    flavorTexts: mapFlavorTexts(response.flavor_text_entries),
+    varieties: mapVarieties(response.varieties)
+  };
+}
+
+/**
+ * Converts a generation resource name (e.g. `generation-iv`) to its number
+ */
+function parseGeneration(name: string): number {
+  const numerals: Record<string, number> = { i: 1, v: 5, x: 10 };
+  const roman = name.replace('generation-', '');
+  let total = 0;
+
+  for (let i = 0; i < roman.length; i++) {
+    const value = numerals[roman[i]] ?? 0;
+    const next = numerals[roman[i + 1]] ?? 0;
+    total += value < next ? -value : value;
+  }
+
+  return total;
+}
+
+/**
+ * Keeps the official names in the given languages
+ */
+function mapNames(names: PokeApiSpeciesResponse['names'], languages: readonly LanguageCode[]): LocalizedNames {
+  const localized: LocalizedNames = {};
+
+  for (const entry of names) {
+    const language = languages.find(code => code === entry.language.name);
+    if (language) {
+      localized[language] = entry.name;
+    }
+  }
+
+  return localized;
+}
+
+/**
+ * Maps the Pokemon of a species, default form first
+ */
+function mapVarieties(varieties: PokeApiSpeciesResponse['varieties']): PokemonVariety[] {
+  return varieties
+    .map(v => ({
+      pokemonId: extractResourceId(v.pokemon.url),
+      name: v.pokemon.name,
+      isDefault: v.is_default
+    }))
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+}
+
+/**
+ * Keeps one entry per version, in API order, with the print control characters removed
+ */
+function mapFlavorTexts(entries: PokeApiSpeciesResponse['flavor_text_entries']): FlavorTextEntry[] {
+  const byVersion = new Map<string, string>();
+
+  for (const entry of entries) {
+    if (entry.language.name === LANGUAGE && !byVersion.has(entry.version.name)) {
+      byVersion.set(entry.version.name, cleanFlavorText(entry.flavor_text));
+    }
+  }
+
+  return [...byVersion].map(([version, text]) => ({ version, text }));
+}
+
+function cleanFlavorText(text: string): string {
+  return text
+    .replace(/\u00ad\n/g, '')
+    .replace(/[\f\n\r\u00ad]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,111 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Observable } from 'rxjs';
+import { GAME_CONTEXT, LATEST_GAME_CONTEXT, NetworkError, PokemonStatsEntry, toGameContext } from 'domain';
+
+import { PokeApiStatsDatasetAdapter } from './pokeapi-stats-dataset.adapter';
+import { GRAPHQL_URL } from './pokeapi-urls';
+
+describe('PokeApiStatsDatasetAdapter', () => {
+  const gameContext = signal(LATEST_GAME_CONTEXT);
+  let adapter: PokeApiStatsDatasetAdapter;
+  let httpMock: HttpTestingController;
+
+  /** Collects the emissions and the error of an observable */
+  const collect = <T>(source$: Observable<T>) => {
+    const result: { values: T[]; error: unknown } = { values: [], error: null };
+    source$.subscribe({ next: value => result.values.push(value), error: error => result.error = error });
+    return result;
+  };
+
+  const STAT_NAMES = ['hp', 'attack', 'defense', 'special-attack', 'special-defense', 'speed'];
+
+  const row = (
+    id: number,
+    name: string,
+    generation: number,
+    types: string[],
+    stats: number[],
+    past: { types?: [number, string[]]; stats?: [number, Record<string, number>] } = {}
+  ) => ({
+    id,
+    name,
+    pokemon_species_id: id,
+    pokemon_v2_pokemonspecy: { generation_id: generation },
+    pokemon_v2_pokemonstats: STAT_NAMES.map((stat, index) => ({ base_stat: stats[index], pokemon_v2_stat: { name: stat } })),
+    pokemon_v2_pokemontypes: types.map((type, index) => ({ slot: index + 1, pokemon_v2_type: { name: type } })),
+    pokemon_v2_pokemontypepasts: (past.types?.[1] ?? [])
+      .map((type, index) => ({ generation_id: past.types![0], slot: index + 1, pokemon_v2_type: { name: type } })),
+    pokemon_v2_pokemonstatpasts: Object.entries(past.stats?.[1] ?? {})
+      .map(([stat, base_stat]) => ({ generation_id: past.stats![0], base_stat, pokemon_v2_stat: { name: stat } })),
+    pokemon_v2_pokemonabilities: []
+  });
+
+  const flushDataset = () => httpMock.expectOne(GRAPHQL_URL).flush({
+    data: {
+      pokemon_v2_pokemon: [
+        row(25, 'pikachu', 1, ['electric'], [35, 55, 40, 50, 50, 90], { stats: [5, { 'defense': 30, 'special-defense': 40 }] }),
+        row(35, 'clefairy', 1, ['fairy'], [70, 45, 48, 60, 65, 35], { types: [5, ['normal']] }),
+        row(700, 'sylveon', 6, ['fairy'], [95, 65, 65, 110, 130, 60])
+      ],
+      pokemon_v2_pokemonspecies: [{ evolves_from_species_id: 35 }]
+    }
+  });
+
+  const entry = (dataset: PokemonStatsEntry[], name: string) => dataset.find(pokemon => pokemon.name === name)!;
+
+  beforeEach(() => {
+    gameContext.set(LATEST_GAME_CONTEXT);
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: GAME_CONTEXT, useValue: gameContext.asReadonly() }
+      ]
+    });
+    adapter = TestBed.inject(PokeApiStatsDatasetAdapter);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => httpMock.verify());
+
+  it('should serve the current data in the latest games, from one query', () => {
+    const result = collect(adapter.getStatsDataset());
+    flushDataset();
+    const dataset = result.values[0];
+
+    expect(dataset.map(pokemon => pokemon.name)).toEqual(['pikachu', 'clefairy', 'sylveon']);
+    expect(entry(dataset, 'clefairy').types).toEqual(['fairy']);
+    expect(entry(dataset, 'clefairy').isFullyEvolved).toBe(false);
+    expect(entry(dataset, 'pikachu').stats.defense).toBe(40);
+
+    expect(collect(adapter.getStatsDataset()).values[0]).toBe(dataset);
+  });
+
+  it('should apply past types and stats in older games and leave later Pokemon out, reusing the query', () => {
+    collect(adapter.getStatsDataset());
+    flushDataset();
+
+    gameContext.set(toGameContext('black-white'));
+    const dataset = collect(adapter.getStatsDataset()).values[0];
+    httpMock.expectNone(GRAPHQL_URL);
+
+    expect(dataset.map(pokemon => pokemon.name)).toEqual(['pikachu', 'clefairy']);
+    expect(entry(dataset, 'clefairy').types).toEqual(['normal']);
+    expect(entry(dataset, 'pikachu').stats).toEqual(
+      { hp: 35, attack: 55, defense: 30, specialAttack: 50, specialDefense: 40, speed: 90 }
+    );
+  });
+
+  it('should fail with a domain error and retry on the next call when the query fails', () => {
+    const failed = collect(adapter.getStatsDataset());
+    httpMock.expectOne(GRAPHQL_URL).flush(null, { status: 0, statusText: 'Unknown Error' });
+    expect(failed.error).toBeInstanceOf(NetworkError);
+
+    const retried = collect(adapter.getStatsDataset());
+    flushDataset();
+    expect(retried.values[0]).toHaveLength(3);
+  });
+});
@@ -0,0 +1,209 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, catchError, map, shareReplay } from 'rxjs';
+import {
+  StatsDatasetRepository,
+  PokemonStatsEntry,
+  GameContext,
+  GAME_CONTEXT,
+  GameHistoryService,
+  PastValue,
+  PokemonStats
+} from 'domain';
+import { mapHttpError } from './http-error.mapper';
+import { toPartialStats, toPokemonStats } from './pokeapi-pokemon.mapper';
+import { ARTWORK_URL, GRAPHQL_URL } from './pokeapi-urls';
+
+/**
+ * PokeAPI GraphQL response type
+ */
+interface PokeApiStatsDatasetResponse {
+  data: {
+    pokemon_v2_pokemon: {
+      id: number;
+      name: string;
+      pokemon_species_id: number;
+      pokemon_v2_pokemonspecy: { generation_id: number | null } | null;
+      pokemon_v2_pokemonstats: {
+        base_stat: number;
+        pokemon_v2_stat: { name: string };
+      }[];
+      pokemon_v2_pokemontypes: {
+        slot: number;
+        pokemon_v2_type: { name: string };
+      }[];
+      pokemon_v2_pokemontypepasts: {
+        generation_id: number;
+        slot: number;
+        pokemon_v2_type: { name: string };
+      }[];
+      pokemon_v2_pokemonstatpasts: {
+        generation_id: number;
+        base_stat: number;
+        pokemon_v2_stat: { name: string };
+      }[];
+      pokemon_v2_pokemonabilities: {
+        slot: number;
+        pokemon_v2_ability: { name: string };
+      }[];
+    }[];
+    pokemon_v2_pokemonspecies: {
+      evolves_from_species_id: number;
+    }[];
+  };
+}
+
+/**
+ * Base stats, types, their past values, abilities and generation of every Pokemon, and the species others evolve from
+ */
+const STATS_DATASET_QUERY = `query statsDataset {
+  pokemon_v2_pokemon(order_by: {id: asc}) {
+    id
+    name
+    pokemon_species_id
+    pokemon_v2_pokemonspecy { generation_id }
+    pokemon_v2_pokemonstats { base_stat pokemon_v2_stat { name } }
+    pokemon_v2_pokemontypes { slot pokemon_v2_type { name } }
+    pokemon_v2_pokemontypepasts { generation_id slot pokemon_v2_type { name } }
+    pokemon_v2_pokemonstatpasts { generation_id base_stat pokemon_v2_stat { name } }
+    pokemon_v2_pokemonabilities { slot pokemon_v2_ability { name } }
+  }
+  pokemon_v2_pokemonspecies(where: {evolves_from_species_id: {_is_null: false}}) {
+    evolves_from_species_id
+  }
+}`;
+
+type PokeApiStatsDatasetPokemon = PokeApiStatsDatasetResponse['data']['pokemon_v2_pokemon'][number];
+
+/**
+ * PokeAPI adapter for the dex-wide stats dataset
+ * Types and stats match the games picked in the game context, and Pokemon introduced later are left out
+ * The dataset of every context comes from a single GraphQL query
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PokeApiStatsDatasetAdapter implements StatsDatasetRepository {
+  private readonly http = inject(HttpClient);
+  private readonly gameContext = inject(GAME_CONTEXT);
+  private readonly gameHistory = inject(GameHistoryService);
+  private response$: Observable<PokeApiStatsDatasetResponse> | null = null;
+  /** Datasets by generation of the game context, null for the latest games */
+  private readonly datasets = new Map<number | null, Observable<PokemonStatsEntry[]>>();
+
+  /**
+   * Returns the dataset in the games of the game context
+   * Datasets are cached for the lifetime of the adapter, one per generation since past values change
+   * between generations only; failures are not cached, so the next call tries again
+   */
+  getStatsDataset(): Observable<PokemonStatsEntry[]> {
+    const context = this.gameContext();
+    let dataset$ = this.datasets.get(context.generation);
+
+    if (!dataset$) {
+      dataset$ = this.getResponse().pipe(
+        map(response => this.mapToDataset(response, context)),
+        mapHttpError('Stats dataset'),
+        catchError(err => {
+          this.datasets.delete(context.generation);
+          throw err;
+        }),
+        shareReplay(1)
+      );
+      this.datasets.set(context.generation, dataset$);
+    }
+
+    return dataset$;
+  }
+
+  /**
+   * Runs the GraphQL query, shared by the datasets of every game context; failures are not cached
+   */
+  private getResponse(): Observable<PokeApiStatsDatasetResponse> {
+    if (!this.response$) {
+      this.response$ = this.http.post<PokeApiStatsDatasetResponse>(GRAPHQL_URL, { query: STATS_DATASET_QUERY }).pipe(
+        catchError(err => {
+          this.response$ = null;
+          throw err;
+        }),
+        shareReplay(1)
+      );
+    }
+
+    return this.response$;
+  }
+
+  /**
+   * Maps the query response in the games of a context, leaving out the Pokemon of later generations
+   */
+  private mapToDataset(response: PokeApiStatsDatasetResponse, context: GameContext): PokemonStatsEntry[] {
+    const evolvesFurther = new Set(response.data.pokemon_v2_pokemonspecies.map(s => s.evolves_from_species_id));
+    const generation = context.generation;
+
+    return response.data.pokemon_v2_pokemon
+      .map(pokemon => this.mapToEntry(pokemon, evolvesFurther, context))
+      .filter(entry => generation === null || entry.generation === null || entry.generation <= generation);
+  }
+
+  /**
+   * Maps a Pokemon with its types and base stats in the games of a context
+   * @param evolvesFurther - IDs of the species some other species evolves from
+   */
+  private mapToEntry(
+    pokemon: PokeApiStatsDatasetPokemon,
+    evolvesFurther: Set<number>,
+    context: GameContext
+  ): PokemonStatsEntry {
+    const stats: Record<string, number> = {};
+    for (const stat of pokemon.pokemon_v2_pokemonstats) {
+      stats[stat.pokemon_v2_stat.name] = stat.base_stat;
+    }
+
+    return {
+      id: pokemon.id,
+      name: pokemon.name,
+      speciesId: pokemon.pokemon_species_id,
+      spriteUrl: `${ARTWORK_URL}/${pokemon.id}.png`,
+      generation: pokemon.pokemon_v2_pokemonspecy?.generation_id ?? null,
+      types: this.gameHistory.resolve(this.typeNames(pokemon.pokemon_v2_pokemontypes), this.pastTypes(pokemon), context),
+      abilities: [...pokemon.pokemon_v2_pokemonabilities]
+        .sort((a, b) => a.slot - b.slot)
+        .map(a => a.pokemon_v2_ability.name),
+      isFullyEvolved: !evolvesFurther.has(pokemon.pokemon_species_id),
+      stats: this.gameHistory.resolveStats(toPokemonStats(stats), this.pastStats(pokemon), context)
+    };
+  }
+
+  /**
+   * Groups the past types of a Pokemon by generation
+   */
+  private pastTypes(pokemon: PokeApiStatsDatasetPokemon): PastValue<string[]>[] {
+    const byGeneration = new Map<number, PokeApiStatsDatasetPokemon['pokemon_v2_pokemontypes']>();
+    for (const past of pokemon.pokemon_v2_pokemontypepasts) {
+      byGeneration.set(past.generation_id, [...(byGeneration.get(past.generation_id) ?? []), past]);
+    }
+
+    return [...byGeneration].map(([generation, types]) => ({ generation, value: this.typeNames(types) }));
+  }
+
+  /**
+   * Groups the past base stats of a Pokemon by generation; each only lists the stats that changed
+   */
+  private pastStats(pokemon: PokeApiStatsDatasetPokemon): PastValue<Partial<PokemonStats>>[] {
+    const byGeneration = new Map<number, Record<string, number>>();
+    for (const past of pokemon.pokemon_v2_pokemonstatpasts) {
+      byGeneration.set(past.generation_id, { ...byGeneration.get(past.generation_id), [past.pokemon_v2_stat.name]: past.base_stat });
+    }
+
+    return [...byGeneration].map(([generation, stats]) => ({ generation, value: toPartialStats(stats) }));
+  }
+
+  /**
+   * Type names, in slot order
+   */
+  private typeNames(types: PokeApiStatsDatasetPokemon['pokemon_v2_pokemontypes']): string[] {
+    return [...types]
+      .sort((a, b) => a.slot - b.slot)
+      .map(t => t.pokemon_v2_type.name);
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * PokeAPI locations shared by the adapters and mappers
+ * Shared with tools/snapshot-builder through pokeapi-evolution.mapper: keep this file free of imports
+ */
+
+/** PokeAPI REST API, without trailing slash */
+export const API_URL = 'https://pokeapi.co/api/v2';
+
+/** PokeAPI GraphQL endpoint, for data the REST API only serves one Pokemon or species at a time */
+export const GRAPHQL_URL = 'https://beta.pokeapi.co/graphql/v1beta';
+
+/** Official artwork by Pokemon ID, as served by PokeAPI's sprite repository; the REST API points to the same files */
+export const ARTWORK_URL = 'https://raw.githubusercontent.com/PokeAPI/sprites/master/sprites/pokemon/other/official-artwork';
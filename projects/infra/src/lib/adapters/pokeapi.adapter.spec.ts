@@ -0,0 +1,273 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Observable } from 'rxjs';
+import { GAME_CONTEXT, LATEST_GAME_CONTEXT, NetworkError, PokemonFilter, PokemonPage, toGameContext } from 'domain';
+import { API_URL, GRAPHQL_URL } from './pokeapi-urls';
+
+import { PokeApiAdapter } from './pokeapi.adapter';
+
+describe('PokeApiAdapter', () => {
+  let adapter: PokeApiAdapter;
+  let httpMock: HttpTestingController;
+  const gameContext = signal(LATEST_GAME_CONTEXT);
+
+  /** Collects the emissions and the error of an observable */
+  const collect = <T>(source$: Observable<T>) => {
+    const result: { values: T[]; error: unknown } = { values: [], error: null };
+    source$.subscribe({ next: value => result.values.push(value), error: error => result.error = error });
+    return result;
+  };
+
+  const list = (filter: PokemonFilter) => collect<PokemonPage>(adapter.getPokemonList({ page: 1, pageSize: 20 }, filter));
+
+  const ids = (page: PokemonPage | undefined) => page?.items.map(pokemon => pokemon.id);
+
+  const resource = (id: number, name: string) => ({ name, url: `${API_URL}/pokemon/${id}/` });
+
+  /** Matches the GraphQL query of the given operation */
+  const graphql = (operation: string) => (request: { url: string; body: { query: string } | null }) =>
+    request.url === GRAPHQL_URL && !!request.body?.query.includes(`query ${operation}`);
+
+  /** GraphQL row of a Pokemon, with its speed as its only base stat and optionally its speed up to a generation */
+  const factsRow = (id: number, name: string, type: string, speed: number, pastSpeed?: [number, number]) => ({
+    id,
+    name,
+    height: 4,
+    weight: 60,
+    pokemon_species_id: id,
+    pokemon_v2_pokemonstats: [{ base_stat: speed, pokemon_v2_stat: { name: 'speed' } }],
+    pokemon_v2_pokemontypes: [{ slot: 1, pokemon_v2_type: { name: type } }],
+    pokemon_v2_pokemontypepasts: [],
+    pokemon_v2_pokemonstatpasts: pastSpeed
+      ? [{ generation_id: pastSpeed[0], base_stat: pastSpeed[1], pokemon_v2_stat: { name: 'speed' } }]
+      : []
+  });
+
+  /** REST response of a Pokemon, as far as the adapter reads it */
+  const pokemonResponse = (id: number, name: string, type: string) => ({
+    id,
+    name,
+    height: 6,
+    weight: 85,
+    base_experience: 62,
+    species: { name, url: `${API_URL}/pokemon-species/${id}/` },
+    sprites: { front_default: `${id}.png` },
+    types: [{ slot: 1, type: { name: type, url: '' } }],
+    stats: [],
+    abilities: [],
+    past_types: []
+  });
+
+  const flushFacts = (rows: ReturnType<typeof factsRow>[]) =>
+    httpMock.expectOne(graphql('pokemonFacts')).flush({ data: { pokemon_v2_pokemon: rows } });
+
+  const flushNames = () => httpMock.expectOne(graphql('speciesNames')).flush({
+    data: { pokemon_v2_pokemonspeciesname: [{ pokemon_species_id: 1, name: 'Bulbizarre', pokemon_v2_language: { name: 'fr' } }] }
+  });
+
+  beforeEach(() => {
+    gameContext.set(LATEST_GAME_CONTEXT);
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: GAME_CONTEXT, useValue: gameContext.asReadonly() }
+      ]
+    });
+    adapter = TestBed.inject(PokeApiAdapter);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => httpMock.verify());
+
+  describe('type filters', () => {
+    it('should match nothing for unknown types, without asking again', () => {
+      const first = list({ types: ['shadow'] });
+      httpMock.expectOne(`${API_URL}/type/shadow`).flush(null, { status: 404, statusText: 'Not Found' });
+      expect(first.values[0].items).toEqual([]);
+
+      expect(list({ types: ['shadow'] }).values[0].totalCount).toBe(0);
+      httpMock.expectNone(`${API_URL}/type/shadow`);
+    });
+
+    it('should fail with a domain error and retry on the next call when the type list fails', () => {
+      const failed = list({ types: ['fire'] });
+      httpMock.expectOne(`${API_URL}/type/fire`).flush(null, { status: 503, statusText: 'Service Unavailable' });
+      expect(failed.error).toBeInstanceOf(NetworkError);
+
+      const retried = list({ types: ['fire'] });
+      httpMock.expectOne(`${API_URL}/type/fire`).flush({ pokemon: [] });
+      expect(retried.values[0].items).toEqual([]);
+    });
+
+    it('should match the types of older games, checking the Pokemon whose types changed with one cached GraphQL query', () => {
+      gameContext.set(toGameContext('black-white'));
+      const normal = list({ types: ['normal'] });
+      httpMock.expectOne(`${API_URL}/type/normal`).flush({ pokemon: [{ pokemon: resource(143, 'snorlax') }] });
+      httpMock.expectOne(graphql('typeHistory')).flush({
+        data: {
+          pokemon_v2_pokemon: [{
+            id: 35,
+            name: 'clefairy',
+            pokemon_v2_pokemontypes: [{ slot: 1, pokemon_v2_type: { name: 'fairy' } }],
+            pokemon_v2_pokemontypepasts: [{ generation_id: 5, slot: 1, pokemon_v2_type: { name: 'normal' } }]
+          }]
+        }
+      });
+      flushNames();
+      flushFacts([factsRow(35, 'clefairy', 'fairy', 35), factsRow(143, 'snorlax', 'normal', 30)]);
+      expect(ids(normal.values.at(-1))).toEqual([35, 143]);
+
+      const fairy = list({ types: ['fairy'] });
+      httpMock.expectOne(`${API_URL}/type/fairy`).flush({ pokemon: [{ pokemon: resource(35, 'clefairy') }] });
+      expect(ids(fairy.values.at(-1))).toEqual([]);
+      httpMock.expectNone(graphql('typeHistory'));
+    });
+  });
+
+  describe('ability filters', () => {
+    /** Answers the name index the ability holders narrow */
+    const flushIndex = () => httpMock.expectOne(`${API_URL}/pokemon?limit=100000`).flush({ count: 0, results: [] });
+
+    it('should match nothing for unknown abilities, without asking again', () => {
+      const first = list({ ability: 'telekinesis' });
+      flushIndex();
+      httpMock.expectOne(`${API_URL}/ability/telekinesis`).flush(null, { status: 404, statusText: 'Not Found' });
+      expect(first.values[0].items).toEqual([]);
+
+      expect(list({ ability: 'telekinesis' }).values[0].totalCount).toBe(0);
+      httpMock.expectNone(`${API_URL}/ability/telekinesis`);
+    });
+
+    it('should fail with a domain error and retry on the next call when the holders fail', () => {
+      const failed = list({ ability: 'swift-swim' });
+      flushIndex();
+      httpMock.expectOne(`${API_URL}/ability/swift-swim`).flush(null, { status: 0, statusText: 'Unknown Error' });
+      expect(failed.error).toBeInstanceOf(NetworkError);
+
+      const retried = list({ ability: 'swift-swim' });
+      httpMock.expectOne(`${API_URL}/ability/swift-swim`).flush({ pokemon: [] });
+      expect(retried.values[0].items).toEqual([]);
+    });
+  });
+
+  describe('list rows', () => {
+    const flushPage = () => httpMock.expectOne(`${API_URL}/pokemon?offset=0&limit=20`).flush({
+      count: 1302,
+      results: [resource(1, 'bulbasaur'), resource(4, 'charmander'), resource(25, 'pikachu')]
+    });
+
+    it('should load the rows of a page with one GraphQL query', () => {
+      const result = list({});
+      flushPage();
+      flushNames();
+      const facts = httpMock.expectOne(graphql('pokemonFacts'));
+      expect(facts.request.body.variables).toEqual({ ids: [1, 4, 25] });
+      facts.flush({
+        data: {
+          pokemon_v2_pokemon: [factsRow(1, 'bulbasaur', 'grass', 45), factsRow(4, 'charmander', 'fire', 65), factsRow(25, 'pikachu', 'electric', 90)]
+        }
+      });
+      const page = result.values.at(-1);
+
+      expect(ids(page)).toEqual([1, 4, 25]);
+      expect(page?.items[0].names?.fr).toBe('Bulbizarre');
+      expect(page?.items[2].types).toEqual([{ name: 'electric', slot: 1 }]);
+      expect(page?.totalCount).toBe(1302);
+      expect(page?.incomplete).toBeUndefined();
+      httpMock.expectNone(request => request.url.startsWith(`${API_URL}/pokemon/`));
+    });
+
+    it('should load the rows GraphQL lacks from the REST API, and flag the page when some fail', () => {
+      const result = list({});
+      flushPage();
+      flushNames();
+      flushFacts([factsRow(1, 'bulbasaur', 'grass', 45)]);
+      httpMock.expectOne(`${API_URL}/pokemon/4`).flush(pokemonResponse(4, 'charmander', 'fire'));
+      httpMock.expectOne(`${API_URL}/pokemon/25`).flush(null, { status: 500, statusText: 'Internal Server Error' });
+      const page = result.values.at(-1);
+
+      expect(ids(page)).toEqual([1, 4]);
+      expect(page?.items[1].spriteUrl).toBe('4.png');
+      expect(page?.totalCount).toBe(1302);
+      expect(page?.incomplete).toBe(true);
+    });
+  });
+
+  describe('filters and sorting', () => {
+    const electric = [
+      factsRow(25, 'pikachu', 'electric', 90),
+      factsRow(26, 'raichu', 'electric', 110, [5, 100]),
+      factsRow(100, 'voltorb', 'electric', 100)
+    ];
+
+    it('should sort the matches over the whole list before paginating', () => {
+      const result = collect(adapter.getPokemonList({ page: 1, pageSize: 2 }, { types: ['Electric'] }, { key: 'speed', direction: 'desc' }));
+      httpMock.expectOne(`${API_URL}/type/electric`).flush({
+        pokemon: [{ pokemon: resource(25, 'pikachu') }, { pokemon: resource(26, 'raichu') }, { pokemon: resource(100, 'voltorb') }]
+      });
+      flushFacts(electric);
+      flushNames();
+      const page = result.values.at(-1);
+
+      expect(ids(page)).toEqual([26, 100]);
+      expect(page?.totalCount).toBe(3);
+      expect(page?.totalPages).toBe(2);
+    });
+
+    it('should check stat ranges with the facts of every candidate, fetched together', () => {
+      const result = list({ stats: { speed: { min: 100 } } });
+      httpMock.expectOne(`${API_URL}/pokemon?limit=100000`).flush({
+        count: 3,
+        results: [resource(25, 'pikachu'), resource(26, 'raichu'), resource(100, 'voltorb')]
+      });
+      flushFacts(electric);
+      flushNames();
+
+      expect(ids(result.values.at(-1))).toEqual([26, 100]);
+      expect(result.values.at(-1)?.totalCount).toBe(2);
+    });
+
+    it('should check stat ranges with the past stats of older games, from the same GraphQL query', () => {
+      gameContext.set(toGameContext('black-white'));
+      const result = list({ stats: { speed: { min: 105 } } });
+      httpMock.expectOne(`${API_URL}/pokemon?limit=100000`).flush({
+        count: 3,
+        results: [resource(25, 'pikachu'), resource(26, 'raichu'), resource(100, 'voltorb')]
+      });
+      flushFacts(electric);
+
+      expect(ids(result.values.at(-1))).toEqual([]);
+      httpMock.expectNone(request => request.url.startsWith(`${API_URL}/pokemon/`));
+    });
+  });
+
+  describe('status filters', () => {
+    const flushStatus = () => httpMock.expectOne(graphql('speciesStatus')).flush({
+      data: {
+        pokemon_v2_pokemonspecies: [
+          { id: 144, is_legendary: true, is_mythical: false },
+          { id: 151, is_legendary: false, is_mythical: true }
+        ]
+      }
+    });
+
+    it('should check legendary and mythical flags of every candidate with one cached GraphQL query', () => {
+      const index = [resource(25, 'pikachu'), resource(144, 'articuno'), resource(151, 'mew')];
+      const legendary = list({ isLegendary: true });
+      httpMock.expectOne(`${API_URL}/pokemon?limit=100000`).flush({ count: 3, results: index });
+      flushStatus();
+      flushNames();
+      flushFacts([factsRow(144, 'articuno', 'ice', 85)]);
+      expect(ids(legendary.values.at(-1))).toEqual([144]);
+
+      const common = list({ isLegendary: false, isMythical: false });
+      flushFacts([factsRow(25, 'pikachu', 'electric', 90)]);
+      expect(ids(common.values.at(-1))).toEqual([25]);
+      httpMock.expectNone(graphql('speciesStatus'));
+      httpMock.expectNone(request => request.url.startsWith(`${API_URL}/pokemon-species/`));
+    });
+  });
+});
@@ -1,150 +1,848 @@
 import { Injectable, inject } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable, forkJoin, map, switchMap, of, catchError } from 'rxjs';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, filter, forkJoin, from, map, merge, mergeMap, switchMap, of, catchError, scan, shareReplay, toArray } from 'rxjs';
 import { 
   PokemonRepository, 
   PokemonPage, 
   PokemonFilter, 
   PaginationParams, 
   PokemonSummary,
-  PokemonType 
+  PokemonType,
+  PokemonStats,
+  NameSearchService,
+  PokemonPhysical,
+  PokemonSort,
+  PokemonFilterService,
+  PokemonSortService,
+  LocalizedNames,
+  SUPPORTED_LANGUAGES,
+  isSupportedLanguage,
+  PastValue,
+  GAME_CONTEXT,
+  GameHistoryService
 } from 'domain';
+import { mapHttpError } from './http-error.mapper';
+import { PokeApiPokemonLoader } from './pokeapi-pokemon.loader';
+import { API_URL, ARTWORK_URL, GRAPHQL_URL } from './pokeapi-urls';
+import {
+  PokeApiPokemonResponse,
+  mapPastStats,
+  mapPastTypes,
+  mapToPokemonDetail,
+  mapToPokemonSummary,
+  toPartialStats,
+  toPokemonStats
+} from './pokeapi-pokemon.mapper';
 
 /**
  * PokeAPI response types
  */
+interface PokeApiNamedResource {
+  name: string;
+  url: string;
+}
+
 interface PokeApiListResponse {
   count: number;
   next: string | null;
   previous: string | null;
-  results: { name: string; url: string }[];
+  results: PokeApiNamedResource[];
 }
 
-interface PokeApiPokemonResponse {
+interface PokeApiTypeResponse {
+  pokemon: {
+    slot: number;
+    pokemon: PokeApiNamedResource;
+  }[];
+}
+
+interface PokeApiAbilityResponse {
+  pokemon: {
+    is_hidden: boolean;
+    pokemon: PokeApiNamedResource;
+  }[];
+}
+
+interface PokeApiGenerationResponse {
   id: number;
-  name: string;
-  sprites: {
-    front_default: string;
-    other?: {
-      'official-artwork'?: {
-        front_default: string;
-      };
-    };
+  pokemon_species: PokeApiNamedResource[];
+}
+
+interface PokeApiSpeciesStatusResponse {
+  data: {
+    pokemon_v2_pokemonspecies: {
+      id: number;
+      is_legendary: boolean;
+      is_mythical: boolean;
+    }[];
   };
-  types: {
-    slot: number;
-    type: {
+}
+
+interface PokeApiSpeciesNamesResponse {
+  data: {
+    pokemon_v2_pokemonspeciesname: {
+      pokemon_species_id: number;
       name: string;
-      url: string;
-    };
-  }[];
+      pokemon_v2_language: { name: string };
+    }[];
+  };
+}
+
+interface PokeApiTypeHistoryResponse {
+  data: {
+    pokemon_v2_pokemon: {
+      id: number;
+      name: string;
+      pokemon_v2_pokemontypes: {
+        slot: number;
+        pokemon_v2_type: { name: string };
+      }[];
+      pokemon_v2_pokemontypepasts: PokeApiPastTypeRow[];
+    }[];
+  };
+}
+
+interface PokeApiPastTypeRow {
+  generation_id: number;
+  slot: number;
+  pokemon_v2_type: { name: string };
+}
+
+interface PokeApiPokemonFactsResponse {
+  data: {
+    pokemon_v2_pokemon: {
+      id: number;
+      name: string;
+      height: number;
+      weight: number;
+      pokemon_species_id: number;
+      pokemon_v2_pokemonstats: {
+        base_stat: number;
+        pokemon_v2_stat: { name: string };
+      }[];
+      pokemon_v2_pokemontypes: {
+        slot: number;
+        pokemon_v2_type: { name: string };
+      }[];
+      pokemon_v2_pokemontypepasts: PokeApiPastTypeRow[];
+      pokemon_v2_pokemonstatpasts: {
+        generation_id: number;
+        base_stat: number;
+        pokemon_v2_stat: { name: string };
+      }[];
+    }[];
+  };
+}
+
+/**
+ * What the adapter keeps of a Pokemon response: enough to list it, filter it and sort it
+ * Summary and stats are the current ones; past values apply when older games are picked
+ */
+interface PokemonFacts {
+  summary: PokemonSummary;
+  stats: PokemonStats;
+  physical: PokemonPhysical;
+  speciesId: number;
+  pastTypes: PastValue<PokemonType[]>[];
+  pastStats: PastValue<Partial<PokemonStats>>[];
+}
+
+/**
+ * Rows of a page loaded so far; `failed` tells that some rows could not be loaded and are left out
+ */
+interface HydratedRows {
+  items: PokemonSummary[];
+  failed: boolean;
+}
+
+/**
+ * A Pokemon whose types changed, with its current and past types
+ */
+interface TypeHistory {
+  resource: PokeApiNamedResource;
+  types: PokemonType[];
+  pastTypes: PastValue<PokemonType[]>[];
+}
+
+interface SpeciesStatus {
+  isLegendary: boolean;
+  isMythical: boolean;
+}
+
+/** Status of the species the status query leaves out */
+const NEITHER_LEGENDARY_NOR_MYTHICAL: SpeciesStatus = { isLegendary: false, isMythical: false };
+
+/** Larger than the number of Pokemon, so that one list call returns all of them */
+const INDEX_LIMIT = 100000;
+
+/** Alternate forms (megas, regional forms...) have IDs from here on, unlike their species */
+const FIRST_FORM_ID = 10000;
+
+/** Maximum number of per-Pokemon checks running at once while filtering */
+const MAX_CONCURRENT_REQUESTS = 10;
+
+/** Maximum number of Pokemon per GraphQL facts query */
+const FACTS_BATCH_SIZE = 200;
+
+/** Names of every species in the given languages */
+const SPECIES_NAMES_QUERY = `query speciesNames($languages: [String!]) {
+  pokemon_v2_pokemonspeciesname(where: {pokemon_v2_language: {name: {_in: $languages}}}) {
+    pokemon_species_id
+    name
+    pokemon_v2_language { name }
+  }
+}`;
+
+/** Legendary and mythical species; the others are neither */
+const SPECIES_STATUS_QUERY = `query speciesStatus {
+  pokemon_v2_pokemonspecies(where: {_or: [{is_legendary: {_eq: true}}, {is_mythical: {_eq: true}}]}) {
+    id
+    is_legendary
+    is_mythical
+  }
+}`;
+
+/** Pokemon whose types changed, with their current and past types */
+const TYPE_HISTORY_QUERY = `query typeHistory {
+  pokemon_v2_pokemon(where: {pokemon_v2_pokemontypepasts: {generation_id: {_is_null: false}}}) {
+    id
+    name
+    pokemon_v2_pokemontypes { slot pokemon_v2_type { name } }
+    pokemon_v2_pokemontypepasts { generation_id slot pokemon_v2_type { name } }
+  }
+}`;
+
+/** Summary, base stats, size and species of the given Pokemon, with their past types and stats */
+const POKEMON_FACTS_QUERY = `query pokemonFacts($ids: [Int!]) {
+  pokemon_v2_pokemon(where: {id: {_in: $ids}}) {
+    id
+    name
+    height
+    weight
+    pokemon_species_id
+    pokemon_v2_pokemonstats { base_stat pokemon_v2_stat { name } }
+    pokemon_v2_pokemontypes { slot pokemon_v2_type { name } }
+    pokemon_v2_pokemontypepasts { generation_id slot pokemon_v2_type { name } }
+    pokemon_v2_pokemonstatpasts { generation_id base_stat pokemon_v2_stat { name } }
+  }
+}`;
+
+/**
+ * Groups the past types of a Pokemon by generation, in slot order
+ */
+function toPastTypes(rows: PokeApiPastTypeRow[]): PastValue<PokemonType[]>[] {
+  const byGeneration = new Map<number, PokemonType[]>();
+  for (const past of rows) {
+    const types = byGeneration.get(past.generation_id) ?? [];
+    byGeneration.set(past.generation_id, [...types, { name: past.pokemon_v2_type.name, slot: past.slot }]);
+  }
+
+  return [...byGeneration].map(([generation, types]) => ({
+    generation,
+    value: types.sort((a, b) => a.slot - b.slot)
+  }));
 }
 
 /**
  * PokeAPI adapter implementing the PokemonRepository port
+ * Types and stats match the games picked in the game context, type filters included
+ * Rows of a page come from one GraphQL query rather than one REST call each; responses already
+ * loaded by another adapter are reused, and the REST API is only used when GraphQL fails
  */
 @Injectable({
   providedIn: 'root'
 })
 export class PokeApiAdapter implements PokemonRepository {
   private readonly http = inject(HttpClient);
-  private readonly baseUrl = 'https://pokeapi.co/api/v2';
+  private readonly nameSearch = inject(NameSearchService);
+  private readonly filterService = inject(PokemonFilterService);
+  private readonly sortService = inject(PokemonSortService);
+  private readonly gameContext = inject(GAME_CONTEXT);
+  private readonly gameHistory = inject(GameHistoryService);
+  private readonly loader = inject(PokeApiPokemonLoader);
+  private readonly typeMembersCache = new Map<string, Observable<PokeApiNamedResource[]>>();
+  private readonly abilityMembersCache = new Map<string, Observable<PokeApiNamedResource[]>>();
+  private readonly factsCache = new Map<number, Observable<PokemonFacts | null>>();
+  private index$: Observable<PokeApiNamedResource[]> | null = null;
+  private generations$: Observable<Map<number, number>> | null = null;
+  private speciesStatus$: Observable<Map<number, SpeciesStatus>> | null = null;
+  private typeHistory$: Observable<Map<number, TypeHistory>> | null = null;
+  private speciesNames$: Observable<Map<number, LocalizedNames>> | null = null;
+
+  getPokemonList(pagination: PaginationParams, filter?: PokemonFilter, sort?: PokemonSort): Observable<PokemonPage> {
+    if ((filter && this.hasCriteria(filter)) || sort) {
+      const matches$ = filter && this.hasCriteria(filter) ? this.getMatches(filter) : this.getIndex();
+      return matches$.pipe(
+        switchMap(matches => sort ? this.sortEntries(matches, sort) : of(matches)),
+        switchMap(matches => this.paginate(matches, pagination)),
+        mapHttpError('Pokémon list')
+      );
+    }
 
-  getPokemonList(pagination: PaginationParams, filter?: PokemonFilter): Observable<PokemonPage> {
     const offset = (pagination.page - 1) * pagination.pageSize;
     const limit = pagination.pageSize;
 
     return this.http.get<PokeApiListResponse>(
-      `${this.baseUrl}/pokemon?offset=${offset}&limit=${limit}`
+      `${API_URL}/pokemon?offset=${offset}&limit=${limit}`
     ).pipe(
-      switchMap(response => {
-        // If we have a search filter, we need to filter the results
-        let filteredResults = response.results;
-        
-        if (filter?.search) {
-          const searchLower = filter.search.toLowerCase();
-          filteredResults = response.results.filter(p => 
-            p.name.toLowerCase().includes(searchLower)
-          );
-        }
-
+      switchMap(response =>
         // Fetch detailed info for each Pokemon
-        if (filteredResults.length === 0) {
-          return of({
-            items: [],
-            totalCount: filter?.search ? 0 : response.count,
-            currentPage: pagination.page,
-            pageSize: pagination.pageSize,
-            totalPages: Math.ceil((filter?.search ? 0 : response.count) / pagination.pageSize)
-          });
-        }
+        this.hydrate(response.results).pipe(
+          map(rows => this.toPage(rows, response.count, pagination))
+        )
+      ),
+      mapHttpError('Pokémon list')
+    );
+  }
 
-        const pokemonRequests = filteredResults.map(p => 
-          this.http.get<PokeApiPokemonResponse>(p.url).pipe(
-            catchError(() => of(null))
-          )
-        );
+  getPokemonById(id: number): Observable<PokemonSummary> {
+    return forkJoin([
+      this.loader.get(id),
+      this.getSpeciesNames()
+    ]).pipe(
+      map(([response, names]) => this.localize(this.inContext(this.mapToFacts(response)), names)),
+      mapHttpError(`Pokémon ${id}`)
+    );
+  }
+
+  getPokemonByName(name: string): Observable<PokemonSummary> {
+    return forkJoin([
+      this.loader.get(name),
+      this.getSpeciesNames()
+    ]).pipe(
+      map(([response, names]) => this.localize(this.inContext(this.mapToFacts(response)), names)),
+      mapHttpError(`Pokémon "${name}"`)
+    );
+  }
+
+  private hasCriteria(filter: PokemonFilter): boolean {
+    return !!filter.search ||
+      (filter.types?.length ?? 0) > 0 ||
+      !!filter.ability ||
+      !!filter.ids ||
+      this.filterService.hasStatCriteria(filter) ||
+      this.filterService.hasSpeciesCriteria(filter);
+  }
+
+  /**
+   * Lists every Pokemon matching a filter, cheapest criteria first:
+   * ID, type and ability lists narrow the candidates, then the name search ranks them,
+   * and only the remaining candidates are fetched when stats or species flags are needed
+   * Matches are in dex order, or ranked by name when searching
+   */
+  private getMatches(filter: PokemonFilter): Observable<PokeApiNamedResource[]> {
+    const candidates$ = filter.types && filter.types.length > 0
+      ? this.getTypeMatches(filter.types)
+      : this.getIndex();
+    const ability$ = filter.ability ? this.getAbilityMembers(filter.ability) : of(null);
+    const generations$ = filter.generation ? this.getGenerationBySpecies() : of(new Map<number, number>());
+    const names$ = filter.search ? this.getSpeciesNames() : of(new Map<number, LocalizedNames>());
+    const statuses$ = this.filterService.hasStatusCriteria(filter) ? this.getSpeciesStatus() : of(new Map<number, SpeciesStatus>());
+
+    return forkJoin([candidates$, ability$, generations$, names$, statuses$]).pipe(
+      switchMap(([candidates, abilityMembers, generations, names, statuses]) => {
+        const ids = filter.ids && new Set(filter.ids);
+        const abilityNames = abilityMembers && new Set(abilityMembers.map(p => p.name));
+        const narrowed = candidates.filter(p =>
+          (!ids || ids.has(this.extractId(p.url))) && (!abilityNames || abilityNames.has(p.name)));
+        // Default forms share their species' ID, so they match on the species' localized names
+        const ranked = filter.search
+          ? this.nameSearch.rank(narrowed.map(p => ({ ...p, names: names.get(this.extractId(p.url)) })), filter.search)
+          : narrowed;
+
+        const needsChecks = this.filterService.hasStatCriteria(filter) || this.filterService.hasSpeciesCriteria(filter);
+        // Queue the facts the checks need, so that they are fetched together
+        this.loadFacts(ranked.filter(entry => this.needsFacts(entry, filter)));
+
+        return needsChecks ? this.filterEach(ranked, entry => this.matches(entry, filter, generations, statuses)) : of(ranked);
+      })
+    );
+  }
+
+  /**
+   * Evaluates the per-Pokemon criteria, fetching only what they need
+   * The species of an alternate form is only known from its details
+   */
+  private matches(
+    entry: PokeApiNamedResource,
+    filter: PokemonFilter,
+    generations: Map<number, number>,
+    statuses: Map<number, SpeciesStatus>
+  ): Observable<boolean> {
+    const id = this.extractId(entry.url);
+    const needsFacts = this.needsFacts(entry, filter);
+
+    return (needsFacts ? this.loadFacts([entry])[0] : of(null)).pipe(
+      map(facts => {
+        if (needsFacts && !facts) return false;
+        if (facts && !this.filterService.matchesStats(facts.stats, filter)) return false;
+
+        const speciesId = facts?.speciesId ?? id;
+        return this.filterService.matchesGeneration(generations.get(speciesId), filter) &&
+          this.filterService.matchesStatus(statuses.get(speciesId) ?? NEITHER_LEGENDARY_NOR_MYTHICAL, filter);
+      })
+    );
+  }
+
+  /**
+   * Whether checking an entry against a filter needs its stats or its species
+   */
+  private needsFacts(entry: PokeApiNamedResource, filter: PokemonFilter): boolean {
+    return this.filterService.hasStatCriteria(filter) ||
+      (this.filterService.hasSpeciesCriteria(filter) && this.extractId(entry.url) >= FIRST_FORM_ID);
+  }
+
+  /**
+   * Sorts the entries over the whole list, so that pages stay consistent
+   * Sorting by stats, height or weight needs the facts of every entry (cached)
+   */
+  private sortEntries(entries: PokeApiNamedResource[], sort: PokemonSort): Observable<PokeApiNamedResource[]> {
+    const facts$ = this.sortService.needsDetails(sort) && entries.length > 0
+      ? forkJoin(this.loadFacts(entries))
+      : of(entries.map(() => null));
+
+    return facts$.pipe(
+      map(facts => this.sortService.sort(
+        entries.map((entry, index) => ({
+          entry,
+          id: this.extractId(entry.url),
+          name: entry.name,
+          stats: facts[index]?.stats,
+          physical: facts[index]?.physical
+        })),
+        sort
+      ).map(sortable => sortable.entry))
+    );
+  }
+
+  /**
+   * Keeps the entries passing an asynchronous check, in their original order
+   */
+  private filterEach(
+    entries: PokeApiNamedResource[],
+    check: (entry: PokeApiNamedResource) => Observable<boolean>
+  ): Observable<PokeApiNamedResource[]> {
+    return this.mapEach(entries, check).pipe(
+      map(keep => entries.filter((_, index) => keep[index]))
+    );
+  }
+
+  /**
+   * Runs an asynchronous projection on every entry, results in the original order
+   * Projections run with limited concurrency so that large candidate lists do not flood the API
+   */
+  private mapEach<R>(entries: PokeApiNamedResource[], project: (entry: PokeApiNamedResource) => Observable<R>): Observable<R[]> {
+    return from(entries).pipe(
+      mergeMap((entry, index) => project(entry).pipe(
+        map(result => ({ index, result }))
+      ), MAX_CONCURRENT_REQUESTS),
+      toArray(),
+      map(results => results
+        .sort((a, b) => a.index - b.index)
+        .map(r => r.result)
+      )
+    );
+  }
+
+  /**
+   * Lists the Pokemon having all the given types in the games of the game context, in dex order
+   * Type lists only know current types, so in older games the Pokemon whose types changed
+   * are checked against their types in those games
+   */
+  private getTypeMatches(types: string[]): Observable<PokeApiNamedResource[]> {
+    const context = this.gameContext();
+    if (context.generation === null) {
+      return this.getTypeIntersection(types);
+    }
+
+    return forkJoin([this.getTypeIntersection(types), this.getTypeHistory()]).pipe(
+      map(([current, history]) => {
+        const unchanged = current.filter(p => !history.has(this.extractId(p.url)));
+        const changed = [...history.values()]
+          .filter(pokemon => this.filterService.matchesTypes(this.gameHistory.resolve(pokemon.types, pokemon.pastTypes, context), { types }))
+          .map(pokemon => pokemon.resource);
+
+        return [...unchanged, ...changed].sort((a, b) => this.extractId(a.url) - this.extractId(b.url));
+      })
+    );
+  }
+
+  /**
+   * Lists the Pokemon having all the given types across the whole dex, in dex order
+   */
+  private getTypeIntersection(types: string[]): Observable<PokeApiNamedResource[]> {
+    return forkJoin(types.map(type => this.getTypeMembers(type))).pipe(
+      map(memberLists => {
+        const [first, ...others] = memberLists;
+        const otherNames = others.map(list => new Set(list.map(p => p.name)));
+
+        return first
+          .filter(p => otherNames.every(names => names.has(p.name)))
+          .sort((a, b) => this.extractId(a.url) - this.extractId(b.url));
+      })
+    );
+  }
+
+  /**
+   * Returns the name and URL of every Pokemon, from a single list call cached for the lifetime of the adapter
+   * A failed call is not cached, so the next search retries it
+   */
+  private getIndex(): Observable<PokeApiNamedResource[]> {
+    if (!this.index$) {
+      this.index$ = this.http.get<PokeApiListResponse>(`${API_URL}/pokemon?limit=${INDEX_LIMIT}`).pipe(
+        map(response => response.results),
+        catchError(err => {
+          this.index$ = null;
+          throw err;
+        }),
+        shareReplay(1)
+      );
+    }
+
+    return this.index$;
+  }
+
+  /**
+   * Builds the requested page from the full list of matches, fetching only the Pokemon shown
+   */
+  private paginate(matches: PokeApiNamedResource[], pagination: PaginationParams): Observable<PokemonPage> {
+    const offset = (pagination.page - 1) * pagination.pageSize;
+    const pageResults = matches.slice(offset, offset + pagination.pageSize);
+
+    return this.hydrate(pageResults).pipe(
+      map(rows => this.toPage(rows, matches.length, pagination))
+    );
+  }
+
+  /**
+   * Builds a page from its rows; pages missing rows that failed to load are marked incomplete
+   */
+  private toPage(rows: HydratedRows, totalCount: number, pagination: PaginationParams): PokemonPage {
+    const page: PokemonPage = {
+      items: rows.items,
+      totalCount,
+      currentPage: pagination.page,
+      pageSize: pagination.pageSize,
+      totalPages: Math.ceil(totalCount / pagination.pageSize)
+    };
+    return rows.failed ? { ...page, incomplete: true } : page;
+  }
 
-        return forkJoin(pokemonRequests).pipe(
-          map(pokemonDetails => {
-            const items: PokemonSummary[] = pokemonDetails
-              .filter((p): p is PokeApiPokemonResponse => p !== null)
-              .map(p => this.mapToPokemonSummary(p));
-
-            // Filter by type if specified
-            let finalItems = items;
-            if (filter?.types && filter.types.length > 0) {
-              const typesLower = filter.types.map((t: string) => t.toLowerCase());
-              finalItems = items.filter(pokemon => 
-                pokemon.types.some((t: PokemonType) => typesLower.includes(t.name.toLowerCase()))
-              );
+  /**
+   * Returns every Pokemon of a type, cached for the lifetime of the adapter
+   * Unknown types (404) have no members; other failures are not cached and fail with a domain error
+   */
+  private getTypeMembers(type: string): Observable<PokeApiNamedResource[]> {
+    const name = this.filterService.toResourceName(type);
+    let members$ = this.typeMembersCache.get(name);
+
+    if (!members$) {
+      members$ = this.http.get<PokeApiTypeResponse>(`${API_URL}/type/${name}`).pipe(
+        map(response => response.pokemon.map(p => p.pokemon)),
+        catchError(err => {
+          if (err instanceof HttpErrorResponse && err.status === 404) {
+            return of([]);
+          }
+          this.typeMembersCache.delete(name);
+          throw err;
+        }),
+        mapHttpError(`Type "${name}"`),
+        shareReplay(1)
+      );
+      this.typeMembersCache.set(name, members$);
+    }
+
+    return members$;
+  }
+
+  /**
+   * Returns every Pokemon that can have an ability, cached for the lifetime of the adapter
+   * Unknown abilities (404) have no holders; other failures are not cached and fail with a domain error
+   */
+  private getAbilityMembers(ability: string): Observable<PokeApiNamedResource[]> {
+    const name = this.filterService.toResourceName(ability);
+    let members$ = this.abilityMembersCache.get(name);
+
+    if (!members$) {
+      members$ = this.http.get<PokeApiAbilityResponse>(`${API_URL}/ability/${name}`).pipe(
+        map(response => response.pokemon.map(p => p.pokemon)),
+        catchError(err => {
+          if (err instanceof HttpErrorResponse && err.status === 404) {
+            return of([]);
+          }
+          this.abilityMembersCache.delete(name);
+          throw err;
+        }),
+        mapHttpError(`Ability "${name}"`),
+        shareReplay(1)
+      );
+      this.abilityMembersCache.set(name, members$);
+    }
+
+    return members$;
+  }
+
+  /**
+   * Maps each species ID to the generation it was introduced in, from the generation lists
+   * Cached for the lifetime of the adapter; a failed call is not cached
+   */
+  private getGenerationBySpecies(): Observable<Map<number, number>> {
+    if (!this.generations$) {
+      this.generations$ = this.http.get<PokeApiListResponse>(`${API_URL}/generation`).pipe(
+        switchMap(response => forkJoin(response.results.map(generation =>
+          this.http.get<PokeApiGenerationResponse>(generation.url)
+        ))),
+        map(generations => new Map(generations.flatMap(generation =>
+          generation.pokemon_species.map(species => [this.extractId(species.url), generation.id] as const)
+        ))),
+        catchError(err => {
+          this.generations$ = null;
+          throw err;
+        }),
+        shareReplay(1)
+      );
+    }
+
+    return this.generations$;
+  }
+
+  /**
+   * Maps each species ID to its names in the supported languages, from a single GraphQL query
+   * cached for the lifetime of the adapter
+   * Names are optional: if the query fails, Pokemon are listed under their slug
+   * and the next call tries again
+   */
+  private getSpeciesNames(): Observable<Map<number, LocalizedNames>> {
+    if (!this.speciesNames$) {
+      this.speciesNames$ = this.http.post<PokeApiSpeciesNamesResponse>(GRAPHQL_URL, {
+        query: SPECIES_NAMES_QUERY,
+        variables: { languages: SUPPORTED_LANGUAGES }
+      }).pipe(
+        map(response => {
+          const names = new Map<number, LocalizedNames>();
+          for (const row of response.data.pokemon_v2_pokemonspeciesname) {
+            const language = row.pokemon_v2_language.name;
+            if (isSupportedLanguage(language)) {
+              names.set(row.pokemon_species_id, { ...names.get(row.pokemon_species_id), [language]: row.name });
             }
+          }
+          return names;
+        }),
+        catchError(() => {
+          this.speciesNames$ = null;
+          return of(new Map<number, LocalizedNames>());
+        }),
+        shareReplay(1)
+      );
+    }
 
-            return {
-              items: finalItems,
-              totalCount: filter?.search || filter?.types ? finalItems.length : response.count,
-              currentPage: pagination.page,
-              pageSize: pagination.pageSize,
-              totalPages: Math.ceil(response.count / pagination.pageSize)
-            };
+    return this.speciesNames$;
+  }
+
+  /**
+   * Returns the summary, base stats and species of each entry in the games of the game context, in order
+   * Facts are cached for the lifetime of the adapter, whatever the games, and shared while loading.
+   * Missing ones are taken from responses other adapters already loaded, or else fetched together
+   * with GraphQL queries of up to FACTS_BATCH_SIZE Pokemon; each falls back to the REST API if GraphQL fails or lacks it.
+   * Observables are lazy: nothing is fetched until one of them is subscribed
+   * @returns One observable per entry, of null if it fails to load; failures are not cached
+   */
+  private loadFacts(entries: PokeApiNamedResource[]): Observable<PokemonFacts | null>[] {
+    const ids = entries.map(entry => this.extractId(entry.url));
+    const missing = ids.filter((id, index) => ids.indexOf(id) === index && !this.factsCache.has(id));
+    const toQuery = missing.filter(id => !this.loader.peek(id));
+    const batches = new Map<number, Observable<Map<number, PokemonFacts>>>();
+    for (let start = 0; start < toQuery.length; start += FACTS_BATCH_SIZE) {
+      const batch = toQuery.slice(start, start + FACTS_BATCH_SIZE);
+      const batch$ = this.fetchFactsBatch(batch);
+      batch.forEach(id => batches.set(id, batch$));
+    }
+
+    for (const id of missing) {
+      const loaded = this.loader.peek(id);
+      const facts$ = loaded
+        ? of(this.mapToFacts(loaded))
+        : (batches.get(id) ?? of(new Map<number, PokemonFacts>())).pipe(
+          catchError(() => of(new Map<number, PokemonFacts>())),
+          switchMap(batch => {
+            const facts = batch.get(id);
+            return facts ? of(facts) : this.loader.get(id).pipe(map(response => this.mapToFacts(response)));
           })
         );
-      })
-    );
+
+      this.factsCache.set(id, facts$.pipe(
+        catchError(() => {
+          this.factsCache.delete(id);
+          return of(null);
+        }),
+        shareReplay(1)
+      ));
+    }
+
+    return ids.map(id => this.factsCache.get(id)!.pipe(
+      map(facts => facts && this.inContext(facts))
+    ));
   }
 
-  getPokemonById(id: number): Observable<PokemonSummary> {
-    return this.http.get<PokeApiPokemonResponse>(
-      `${this.baseUrl}/pokemon/${id}`
-    ).pipe(
-      map(response => this.mapToPokemonSummary(response))
+  /**
+   * Fetches the facts of several Pokemon with one GraphQL query, shared by every subscriber
+   */
+  private fetchFactsBatch(ids: number[]): Observable<Map<number, PokemonFacts>> {
+    return this.http.post<PokeApiPokemonFactsResponse>(GRAPHQL_URL, {
+      query: POKEMON_FACTS_QUERY,
+      variables: { ids }
+    }).pipe(
+      map(response => new Map(response.data.pokemon_v2_pokemon.map(pokemon => {
+        const stats: Record<string, number> = {};
+        for (const stat of pokemon.pokemon_v2_pokemonstats) {
+          stats[stat.pokemon_v2_stat.name] = stat.base_stat;
+        }
+
+        const pastStats = new Map<number, Record<string, number>>();
+        for (const past of pokemon.pokemon_v2_pokemonstatpasts) {
+          pastStats.set(past.generation_id, { ...pastStats.get(past.generation_id), [past.pokemon_v2_stat.name]: past.base_stat });
+        }
+
+        const facts: PokemonFacts = {
+          summary: {
+            id: pokemon.id,
+            name: pokemon.name,
+            spriteUrl: `${ARTWORK_URL}/${pokemon.id}.png`,
+            types: pokemon.pokemon_v2_pokemontypes
+              .map(t => ({ name: t.pokemon_v2_type.name, slot: t.slot }))
+              .sort((a, b) => a.slot - b.slot)
+          },
+          stats: toPokemonStats(stats),
+          physical: { height: pokemon.height, weight: pokemon.weight },
+          speciesId: pokemon.pokemon_species_id,
+          pastTypes: toPastTypes(pokemon.pokemon_v2_pokemontypepasts),
+          pastStats: [...pastStats].map(([generation, values]) => ({ generation, value: toPartialStats(values) }))
+        };
+        return [pokemon.id, facts];
+      }))),
+      shareReplay(1)
     );
   }
 
-  getPokemonByName(name: string): Observable<PokemonSummary> {
-    return this.http.get<PokeApiPokemonResponse>(
-      `${this.baseUrl}/pokemon/${name.toLowerCase()}`
-    ).pipe(
-      map(response => this.mapToPokemonSummary(response))
+  /**
+   * Applies the past types and stats of the games picked in the game context
+   */
+  private inContext(facts: PokemonFacts): PokemonFacts {
+    const context = this.gameContext();
+
+    return {
+      ...facts,
+      summary: { ...facts.summary, types: this.gameHistory.resolve(facts.summary.types, facts.pastTypes, context) },
+      stats: this.gameHistory.resolveStats(facts.stats, facts.pastStats, context)
+    };
+  }
+
+  /**
+   * Maps the ID of each legendary or mythical species to its flags, from a single GraphQL query
+   * Cached for the lifetime of the adapter; a failed query is not cached
+   */
+  private getSpeciesStatus(): Observable<Map<number, SpeciesStatus>> {
+    if (!this.speciesStatus$) {
+      this.speciesStatus$ = this.http.post<PokeApiSpeciesStatusResponse>(GRAPHQL_URL, { query: SPECIES_STATUS_QUERY }).pipe(
+        map(response => new Map(response.data.pokemon_v2_pokemonspecies.map(species =>
+          [species.id, { isLegendary: species.is_legendary, isMythical: species.is_mythical }] as const
+        ))),
+        catchError(err => {
+          this.speciesStatus$ = null;
+          throw err;
+        }),
+        shareReplay(1)
+      );
+    }
+
+    return this.speciesStatus$;
+  }
+
+  /**
+   * Returns the Pokemon whose types changed by ID, from one GraphQL query cached for the lifetime of the adapter
+   * A failed query is not cached, so the next type filter retries it
+   */
+  private getTypeHistory(): Observable<Map<number, TypeHistory>> {
+    if (!this.typeHistory$) {
+      this.typeHistory$ = this.http.post<PokeApiTypeHistoryResponse>(GRAPHQL_URL, { query: TYPE_HISTORY_QUERY }).pipe(
+        map(response => new Map(response.data.pokemon_v2_pokemon.map(pokemon => [pokemon.id, {
+          resource: { name: pokemon.name, url: `${API_URL}/pokemon/${pokemon.id}/` },
+          types: pokemon.pokemon_v2_pokemontypes
+            .map(t => ({ name: t.pokemon_v2_type.name, slot: t.slot }))
+            .sort((a, b) => a.slot - b.slot),
+          pastTypes: toPastTypes(pokemon.pokemon_v2_pokemontypepasts)
+        }] as const))),
+        catchError(err => {
+          this.typeHistory$ = null;
+          throw err;
+        }),
+        shareReplay(1)
+      );
+    }
+
+    return this.typeHistory$;
+  }
+
+  /**
+   * Fetches the summary of each listed Pokemon, skipping the ones that fail to load
+   * Emits the summaries loaded so far, in list order, each time one arrives; the last emission is complete,
+   * and flags the rows that failed. Nothing is emitted before the first summary, so that a partial page
+   * never looks empty
+   */
+  private hydrate(results: PokeApiNamedResource[]): Observable<HydratedRows> {
+    if (results.length === 0) {
+      return of({ items: [], failed: false });
+    }
+
+    const rows$ = merge(...this.loadFacts(results).map((facts$, index) => facts$.pipe(
+      map(facts => ({ index, facts }))
+    )));
+
+    return this.getSpeciesNames().pipe(
+      switchMap(names => rows$.pipe(
+        scan((state, row) => {
+          const rows = [...state.rows];
+          rows[row.index] = row.facts;
+          return { rows, received: state.received + 1, failed: state.failed || row.facts === null };
+        }, { rows: new Array<PokemonFacts | null>(results.length).fill(null), received: 0, failed: false }),
+        map(({ rows, received, failed }) => ({
+          items: rows.filter((f): f is PokemonFacts => f !== null).map(f => this.localize(f, names)),
+          complete: received === results.length,
+          failed
+        })),
+        filter(({ items, complete }) => items.length > 0 || complete),
+        map(({ items, failed }) => ({ items, failed }))
+      ))
     );
   }
 
-  private mapToPokemonSummary(response: PokeApiPokemonResponse): PokemonSummary {
-    const types: PokemonType[] = response.types.map(t => ({
-      name: t.type.name,
-      slot: t.slot
-    }));
+  /**
+   * Adds the species names to the summary of a default form
+   * Alternate forms keep their slug, as the species name alone would not tell them apart
+   */
+  private localize(facts: PokemonFacts, names: Map<number, LocalizedNames>): PokemonSummary {
+    const speciesNames = facts.summary.id === facts.speciesId ? names.get(facts.speciesId) : undefined;
+    return speciesNames ? { ...facts.summary, names: speciesNames } : facts.summary;
+  }
+
+  /**
+   * Extracts the numeric ID from a PokeAPI resource URL (e.g. `.../pokemon/25/`)
+   */
+  private extractId(url: string): number {
+    const segments = url.split('/').filter(Boolean);
+    return Number(segments[segments.length - 1]);
+  }
 
-    // Prefer official artwork, fallback to front_default
-    const spriteUrl = response.sprites.other?.['official-artwork']?.front_default 
-      ?? response.sprites.front_default
-      ?? '';
+  private mapToFacts(response: PokeApiPokemonResponse): PokemonFacts {
+    const detail = mapToPokemonDetail(response);
 
     return {
-      id: response.id,
-      name: response.name,
-      spriteUrl,
-      types
+      summary: mapToPokemonSummary(response),
+      stats: detail.stats,
+      physical: detail.physical,
+      speciesId: detail.speciesId,
+      pastTypes: mapPastTypes(response),
+      pastStats: mapPastStats(response)
     };
   }
 }
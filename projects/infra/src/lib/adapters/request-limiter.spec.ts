@@ -0,0 +1,70 @@
+import { Observable, Subject, of } from 'rxjs';
+
+import { RequestLimiter } from './request-limiter';
+
+describe('RequestLimiter', () => {
+  it('should start waiting requests in order as slots free up', () => {
+    const limiter = new RequestLimiter(2);
+    const requests = [new Subject<number>(), new Subject<number>(), new Subject<number>(), new Subject<number>()];
+    const started: number[] = [];
+
+    requests.forEach((request, index) => limiter.schedule(() => {
+      started.push(index);
+      return request;
+    }).subscribe({ error: () => undefined }));
+
+    expect(started).toEqual([0, 1]);
+
+    requests[1].complete();
+    expect(started).toEqual([0, 1, 2]);
+
+    requests[0].error(new Error('failed'));
+    expect(started).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should give up queued requests that are unsubscribed', () => {
+    const limiter = new RequestLimiter(1);
+    const first = new Subject<number>();
+    const started: string[] = [];
+
+    limiter.schedule(() => {
+      started.push('first');
+      return first;
+    }).subscribe();
+    const queued = limiter.schedule(() => {
+      started.push('queued');
+      return new Subject<number>();
+    }).subscribe();
+    limiter.schedule(() => {
+      started.push('last');
+      return new Subject<number>();
+    }).subscribe();
+
+    queued.unsubscribe();
+    first.complete();
+
+    expect(started).toEqual(['first', 'last']);
+  });
+
+  it('should keep the queue intact when a queued request completes synchronously', () => {
+    const limiter = new RequestLimiter(1);
+    const first = new Subject<number>();
+    const third = new Subject<number>();
+    const started: string[] = [];
+    const schedule = (name: string, request: Observable<number>) => limiter.schedule(() => {
+      started.push(name);
+      return request;
+    }).subscribe();
+
+    schedule('first', first);
+    schedule('sync', of(1));
+    schedule('third', third);
+    schedule('fourth', new Subject<number>());
+
+    first.complete();
+    expect(started).toEqual(['first', 'sync', 'third']);
+
+    third.complete();
+    expect(started).toEqual(['first', 'sync', 'third', 'fourth']);
+  });
+});
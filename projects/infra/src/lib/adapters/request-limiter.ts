@@ -0,0 +1,55 @@
+import { Observable, Subscription, finalize } from 'rxjs';
+
+/**
+ * Caps the number of requests running at once; the others wait for a free slot, in order
+ */
+export class RequestLimiter {
+  private active = 0;
+  private readonly waiting: (() => void)[] = [];
+
+  /**
+   * @param limit - Maximum number of requests running at once
+   */
+  constructor(private readonly limit: number) {}
+
+  /**
+   * Runs a request once a slot is free
+   * Unsubscribing frees the slot, or gives up the place in the queue
+   * @param request - Creates the request; called when it starts
+   */
+  schedule<T>(request: () => Observable<T>): Observable<T> {
+    return new Observable<T>(subscriber => {
+      let started = false;
+      let subscription: Subscription | null = null;
+
+      const start = () => {
+        started = true;
+        this.active++;
+        subscription = request().pipe(
+          finalize(() => this.release())
+        ).subscribe(subscriber);
+      };
+
+      if (this.active < this.limit) {
+        start();
+      } else {
+        this.waiting.push(start);
+      }
+
+      // A request that completes synchronously tears down before its subscription is assigned:
+      // it has started, so there is nothing left in the queue to give up
+      return () => {
+        if (started) {
+          subscription?.unsubscribe();
+        } else {
+          this.waiting.splice(this.waiting.indexOf(start), 1);
+        }
+      };
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+}
@@ -0,0 +1,168 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import {
+  GAME_CONTEXT,
+  GameContext,
+  InvalidResponseError,
+  LATEST_GAME_CONTEXT,
+  NotFoundError,
+  PokemonStatsEntry,
+  toGameContext
+} from 'domain';
+
+import { StaticDatasetAdapter } from './static-dataset.adapter';
+import { PokemonSnapshot, SnapshotPokemon } from '../snapshot/pokemon-snapshot';
+import { DEFAULT_STATIC_DATASET_CONFIG } from '../snapshot/static-dataset.config';
+
+describe('StaticDatasetAdapter', () => {
+  let adapter: StaticDatasetAdapter;
+  let httpMock: HttpTestingController;
+  const gameContext = signal<GameContext>(LATEST_GAME_CONTEXT);
+
+  const pokemon = (id: number, name: string, types: string[], speed: number): SnapshotPokemon => ({
+    id,
+    speciesId: id,
+    name,
+    spriteUrl: `artwork/${id}.png`,
+    types: types.map((type, index) => ({ name: type, slot: index + 1 })),
+    stats: { hp: 50, attack: 50, defense: 50, specialAttack: 50, specialDefense: 50, speed },
+    physical: { height: 10, weight: 100 },
+    abilities: [],
+    baseExperience: 100
+  });
+
+  const snapshot: PokemonSnapshot = {
+    format: 2,
+    version: 'test',
+    source: 'https://pokeapi.co/api/v2',
+    createdAt: '2026-10-19T00:00:00.000Z',
+    pokemon: [
+      { ...pokemon(1, 'bulbasaur', ['grass', 'poison'], 45), abilities: [{ name: 'overgrow', isHidden: false }] },
+      { ...pokemon(4, 'charmander', ['fire'], 65), spriteUrl: 'https://sprites.example/4.png' },
+      { ...pokemon(35, 'clefairy', ['fairy'], 35), pastTypes: [{ generation: 5, value: [{ name: 'normal', slot: 1 }] }] }
+    ],
+    evolutionChains: [{
+      id: 1,
+      root: {
+        speciesId: 1, name: 'bulbasaur', spriteUrl: 'artwork/1.png', isBaby: false, triggers: [],
+        evolvesTo: [{ speciesId: 2, name: 'ivysaur', spriteUrl: 'artwork/2.png', isBaby: false, triggers: [], evolvesTo: [] }]
+      }
+    }]
+  };
+
+  const flush = (body: object = snapshot) => httpMock.expectOne(DEFAULT_STATIC_DATASET_CONFIG.url).flush(body);
+
+  beforeEach(() => {
+    gameContext.set(LATEST_GAME_CONTEXT);
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: GAME_CONTEXT, useValue: gameContext.asReadonly() }
+      ]
+    });
+    adapter = TestBed.inject(StaticDatasetAdapter);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => httpMock.verify());
+
+  it('should filter, sort and paginate the snapshot', () => {
+    let names: string[] = [];
+    let total = 0;
+    adapter.getPokemonList({ page: 1, pageSize: 1 }, { stats: { speed: { min: 40 } } }, { key: 'speed', direction: 'desc' })
+      .subscribe(page => {
+        names = page.items.map(p => p.name);
+        total = page.totalCount;
+      });
+    flush();
+
+    expect(names).toEqual(['charmander']);
+    expect(total).toBe(2);
+  });
+
+  it('should match types and abilities as typed by users, like PokeApiAdapter', () => {
+    let names: string[] = [];
+    adapter.getPokemonList({ page: 1, pageSize: 20 }, { types: ['Grass', ' POISON'], ability: 'Overgrow ' })
+      .subscribe(page => names = page.items.map(p => p.name));
+    flush();
+
+    expect(names).toEqual(['bulbasaur']);
+  });
+
+  it('should load the snapshot once and honor the game context', () => {
+    let types: string[] = [];
+    adapter.getPokemonDetail(35).subscribe(detail => types = detail.types.map(t => t.name));
+    flush();
+    expect(types).toEqual(['fairy']);
+
+    gameContext.set(toGameContext('black-white'));
+    adapter.getPokemonDetailByName('Clefairy').subscribe(detail => types = detail.types.map(t => t.name));
+    expect(types).toEqual(['normal']);
+  });
+
+  it('should serve the stats dataset in the game context', () => {
+    let entries: PokemonStatsEntry[] = [];
+    gameContext.set(toGameContext('black-white'));
+    adapter.getStatsDataset().subscribe(dataset => entries = dataset);
+    flush();
+
+    expect(entries.map(entry => entry.name)).toEqual(['bulbasaur', 'charmander', 'clefairy']);
+    expect(entries[0]).toEqual(expect.objectContaining({ types: ['grass', 'poison'], abilities: ['overgrow'], generation: null }));
+    expect(entries.map(entry => entry.isFullyEvolved)).toEqual([false, true, true]);
+    expect(entries[2].types).toEqual(['normal']);
+  });
+
+  it('should leave the Pokemon of later generations out of the stats dataset', () => {
+    let names: string[] = [];
+    const species = (id: number, generation: number) => ({
+      id, name: `species-${id}`, names: {}, genus: '', generation, isLegendary: false, isMythical: false, isBaby: false,
+      captureRate: 45, baseHappiness: 50, growthRate: 'medium', eggGroups: [], habitat: null, color: 'pink',
+      flavorTexts: [], varieties: []
+    });
+    gameContext.set(toGameContext('black-white'));
+    adapter.getStatsDataset().subscribe(dataset => names = dataset.map(entry => entry.name));
+    flush({
+      ...snapshot,
+      pokemon: [...snapshot.pokemon, pokemon(700, 'sylveon', ['fairy'], 60)],
+      species: [species(35, 1), species(700, 6)]
+    });
+
+    expect(names).toEqual(['bulbasaur', 'charmander', 'clefairy']);
+  });
+
+  it('should resolve relative sprite URLs against the snapshot location', () => {
+    let sprites: string[] = [];
+    let stages: string[] = [];
+    adapter.getPokemonList({ page: 1, pageSize: 20 }).subscribe(page => sprites = page.items.map(p => p.spriteUrl));
+    flush();
+    adapter.getEvolutionChainBySpeciesId(2).subscribe(chain => stages = [chain.root, ...chain.root.evolvesTo].map(s => s.spriteUrl));
+
+    expect(sprites).toEqual(['assets/infra/artwork/1.png', 'https://sprites.example/4.png', 'assets/infra/artwork/35.png']);
+    expect(stages).toEqual(['assets/infra/artwork/1.png', 'assets/infra/artwork/2.png']);
+  });
+
+  it('should report missing Pokemon and sections as not found', () => {
+    const errors: unknown[] = [];
+    adapter.getPokemonById(999).subscribe({ error: e => errors.push(e) });
+    flush();
+    adapter.getSpecies(1).subscribe({ error: e => errors.push(e) });
+
+    expect(errors).toHaveLength(2);
+    expect(errors.every(error => error instanceof NotFoundError)).toBe(true);
+  });
+
+  it('should reject snapshots of another format without caching them', () => {
+    let error: unknown;
+    adapter.getPokemonDetail(1).subscribe({ error: e => error = e });
+    flush({ ...snapshot, format: 1 });
+    expect(error).toBeInstanceOf(InvalidResponseError);
+
+    let name = '';
+    adapter.getPokemonDetail(1).subscribe(detail => name = detail.name);
+    flush();
+    expect(name).toBe('bulbasaur');
+  });
+});
@@ -0,0 +1,300 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, catchError, map, shareReplay } from 'rxjs';
+import {
+  PokemonRepository,
+  PokemonDetailRepository,
+  SpeciesRepository,
+  EvolutionChainRepository,
+  StatsDatasetRepository,
+  PokemonDetail,
+  PokemonSummary,
+  PokemonPage,
+  PokemonFilter,
+  PokemonSort,
+  PaginationParams,
+  PokemonSpecies,
+  EvolutionChain,
+  EvolutionStage,
+  PokemonStatsEntry,
+  GAME_CONTEXT,
+  GameHistoryService,
+  PokemonFilterService,
+  PokemonSortService,
+  NameSearchService,
+  InvalidResponseError,
+  NotFoundError
+} from 'domain';
+import { mapHttpError } from './http-error.mapper';
+import { POKEMON_SNAPSHOT_FORMAT, PokemonSnapshot, SnapshotPokemon } from '../snapshot/pokemon-snapshot';
+import { STATIC_DATASET_CONFIG } from '../snapshot/static-dataset.config';
+
+/**
+ * Snapshot indexed for lookups
+ */
+interface SnapshotIndex {
+  pokemon: SnapshotPokemon[];
+  byId: Map<number, SnapshotPokemon>;
+  byName: Map<string, SnapshotPokemon>;
+  species: Map<number, PokemonSpecies>;
+  chains: EvolutionChain[];
+  evolvesFurther: Set<number>; // IDs of the species some other species evolves from
+}
+
+/**
+ * Offline adapter implementing the Pokemon, detail, species, evolution chain and stats dataset ports
+ * from a versioned JSON snapshot (see pokemon-snapshot), for machines without internet
+ * The snapshot is loaded once, on first use. Filters, sorting and search go through the same
+ * domain services as PokeApiAdapter, and types and stats match the games of the game context
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StaticDatasetAdapter
+  implements PokemonRepository, PokemonDetailRepository, SpeciesRepository, EvolutionChainRepository, StatsDatasetRepository {
+  private readonly http = inject(HttpClient);
+  private readonly config = inject(STATIC_DATASET_CONFIG);
+  private readonly gameContext = inject(GAME_CONTEXT);
+  private readonly gameHistory = inject(GameHistoryService);
+  private readonly filterService = inject(PokemonFilterService);
+  private readonly sortService = inject(PokemonSortService);
+  private readonly nameSearch = inject(NameSearchService);
+  private snapshot$: Observable<SnapshotIndex> | null = null;
+
+  getPokemonList(pagination: PaginationParams, filter?: PokemonFilter, sort?: PokemonSort): Observable<PokemonPage> {
+    return this.getSnapshot().pipe(
+      map(snapshot => {
+        const candidates = snapshot.pokemon.map(pokemon => this.inContext(pokemon));
+        const matches = filter ? this.filter(candidates, filter, snapshot) : candidates;
+        const ranked = filter?.search
+          ? this.nameSearch.rank(matches.map(pokemon => ({ ...pokemon, names: this.namesOf(pokemon, snapshot) })), filter.search)
+          : matches;
+        const sorted = sort ? this.sortService.sort(ranked, sort) : ranked;
+
+        const offset = (pagination.page - 1) * pagination.pageSize;
+        return {
+          items: sorted.slice(offset, offset + pagination.pageSize).map(pokemon => this.toSummary(pokemon, snapshot)),
+          totalCount: sorted.length,
+          currentPage: pagination.page,
+          pageSize: pagination.pageSize,
+          totalPages: Math.ceil(sorted.length / pagination.pageSize)
+        };
+      }),
+      mapHttpError('Pokémon list')
+    );
+  }
+
+  getPokemonById(id: number): Observable<PokemonSummary> {
+    return this.getSnapshot().pipe(
+      map(snapshot => this.toSummary(this.inContext(this.find(snapshot.byId.get(id), `Pokémon ${id}`)), snapshot)),
+      mapHttpError(`Pokémon ${id}`)
+    );
+  }
+
+  getPokemonByName(name: string): Observable<PokemonSummary> {
+    return this.getSnapshot().pipe(
+      map(snapshot => this.toSummary(
+        this.inContext(this.find(snapshot.byName.get(name.toLowerCase()), `Pokémon "${name}"`)),
+        snapshot
+      )),
+      mapHttpError(`Pokémon "${name}"`)
+    );
+  }
+
+  getPokemonDetail(id: number): Observable<PokemonDetail> {
+    return this.getSnapshot().pipe(
+      map(snapshot => this.inContext(this.find(snapshot.byId.get(id), `Pokémon ${id}`))),
+      mapHttpError(`Pokémon ${id}`)
+    );
+  }
+
+  getPokemonDetailByName(name: string): Observable<PokemonDetail> {
+    return this.getSnapshot().pipe(
+      map(snapshot => this.inContext(this.find(snapshot.byName.get(name.toLowerCase()), `Pokémon "${name}"`))),
+      mapHttpError(`Pokémon "${name}"`)
+    );
+  }
+
+  getSpecies(speciesId: number): Observable<PokemonSpecies> {
+    return this.getSnapshot().pipe(
+      map(snapshot => this.find(snapshot.species.get(speciesId), `Species ${speciesId}`)),
+      mapHttpError(`Species ${speciesId}`)
+    );
+  }
+
+  getEvolutionChainBySpeciesId(speciesId: number): Observable<EvolutionChain> {
+    return this.getSnapshot().pipe(
+      map(snapshot => this.find(
+        snapshot.chains.find(chain => this.hasSpecies(chain.root, speciesId)),
+        `Evolution chain of species ${speciesId}`
+      )),
+      mapHttpError(`Evolution chain of species ${speciesId}`)
+    );
+  }
+
+  getEvolutionChain(chainId: number): Observable<EvolutionChain> {
+    return this.getSnapshot().pipe(
+      map(snapshot => this.find(snapshot.chains.find(chain => chain.id === chainId), `Evolution chain ${chainId}`)),
+      mapHttpError(`Evolution chain ${chainId}`)
+    );
+  }
+
+  /**
+   * The Pokemon of the snapshot in the games of the game context, with the types and stats of those games
+   * Generations are unknown without the species, and Pokemon outside any evolution chain count as fully evolved
+   */
+  getStatsDataset(): Observable<PokemonStatsEntry[]> {
+    const generation = this.gameContext().generation;
+
+    return this.getSnapshot().pipe(
+      map(snapshot => snapshot.pokemon
+        .map(pokemon => this.toStatsEntry(this.inContext(pokemon), snapshot))
+        .filter(entry => generation === null || entry.generation === null || entry.generation <= generation)),
+      mapHttpError('Stats dataset')
+    );
+  }
+
+  /**
+   * Loads and indexes the snapshot, cached for the lifetime of the adapter; failures are not cached
+   * Fails with an InvalidResponseError if the snapshot was written in another format
+   * Relative sprite URLs are resolved against the snapshot URL, so the artwork shipped with it loads offline
+   */
+  private getSnapshot(): Observable<SnapshotIndex> {
+    if (!this.snapshot$) {
+      this.snapshot$ = this.http.get<PokemonSnapshot>(this.config.url).pipe(
+        map(snapshot => {
+          if (snapshot.format !== POKEMON_SNAPSHOT_FORMAT) {
+            throw new InvalidResponseError();
+          }
+
+          const pokemon = snapshot.pokemon.map(p => ({ ...p, spriteUrl: this.resolveAsset(p.spriteUrl) }));
+          const chains = (snapshot.evolutionChains ?? []).map(chain => ({ ...chain, root: this.resolveSprites(chain.root) }));
+
+          return {
+            pokemon,
+            byId: new Map(pokemon.map(p => [p.id, p])),
+            byName: new Map(pokemon.map(p => [p.name, p])),
+            species: new Map((snapshot.species ?? []).map(species => [species.id, species])),
+            chains,
+            evolvesFurther: new Set(chains.flatMap(chain => this.speciesEvolvingFurther(chain.root)))
+          };
+        }),
+        catchError(err => {
+          this.snapshot$ = null;
+          throw err;
+        }),
+        shareReplay(1)
+      );
+    }
+
+    return this.snapshot$;
+  }
+
+  /**
+   * Keeps the Pokemon matching every criterion of a filter, in their order
+   * Generation and legendary/mythical criteria need the species; without it they match nothing
+   */
+  private filter(pokemon: PokemonDetail[], filter: PokemonFilter, snapshot: SnapshotIndex): PokemonDetail[] {
+    const ids = filter.ids && new Set(filter.ids);
+
+    return pokemon.filter(p => {
+      if (ids && !ids.has(p.id)) return false;
+      if (!this.filterService.matchesTypes(p.types, filter)) return false;
+      if (!this.filterService.matchesAbility(p.abilities, filter)) return false;
+      if (!this.filterService.matchesStats(p.stats, filter)) return false;
+      if (!this.filterService.hasSpeciesCriteria(filter)) return true;
+
+      const species = snapshot.species.get(p.speciesId);
+      return !!species &&
+        this.filterService.matchesGeneration(species.generation, filter) &&
+        this.filterService.matchesStatus(species, filter);
+    });
+  }
+
+  /**
+   * Applies the past types and stats of a Pokemon for the games of the game context
+   */
+  private inContext(pokemon: SnapshotPokemon): PokemonDetail {
+    const context = this.gameContext();
+    const { pastTypes, pastStats, ...detail } = pokemon;
+
+    return {
+      ...detail,
+      types: this.gameHistory.resolve(detail.types, pastTypes ?? [], context),
+      stats: this.gameHistory.resolveStats(detail.stats, pastStats ?? [], context)
+    };
+  }
+
+  /**
+   * Species names of a default form; alternate forms keep their slug
+   */
+  private namesOf(pokemon: PokemonDetail, snapshot: SnapshotIndex): PokemonSummary['names'] {
+    return pokemon.id === pokemon.speciesId ? snapshot.species.get(pokemon.speciesId)?.names : undefined;
+  }
+
+  private toSummary(pokemon: PokemonDetail, snapshot: SnapshotIndex): PokemonSummary {
+    const names = this.namesOf(pokemon, snapshot);
+    const summary: PokemonSummary = {
+      id: pokemon.id,
+      name: pokemon.name,
+      spriteUrl: pokemon.spriteUrl,
+      types: pokemon.types
+    };
+    return names ? { ...summary, names } : summary;
+  }
+
+  private toStatsEntry(pokemon: PokemonDetail, snapshot: SnapshotIndex): PokemonStatsEntry {
+    return {
+      id: pokemon.id,
+      name: pokemon.name,
+      speciesId: pokemon.speciesId,
+      spriteUrl: pokemon.spriteUrl,
+      generation: snapshot.species.get(pokemon.speciesId)?.generation ?? null,
+      types: [...pokemon.types].sort((a, b) => a.slot - b.slot).map(t => t.name),
+      abilities: pokemon.abilities.map(a => a.name),
+      isFullyEvolved: !snapshot.evolvesFurther.has(pokemon.speciesId),
+      stats: pokemon.stats
+    };
+  }
+
+  /**
+   * Resolves a URL of the snapshot against the snapshot location; absolute and empty URLs are kept
+   */
+  private resolveAsset(url: string): string {
+    if (!url || /^([a-z][a-z\d+.-]*:|\/)/i.test(url)) {
+      return url;
+    }
+    return this.config.url.slice(0, this.config.url.lastIndexOf('/') + 1) + url;
+  }
+
+  private resolveSprites(stage: EvolutionStage): EvolutionStage {
+    return {
+      ...stage,
+      spriteUrl: this.resolveAsset(stage.spriteUrl),
+      evolvesTo: stage.evolvesTo.map(next => this.resolveSprites(next))
+    };
+  }
+
+  /**
+   * IDs of the species of a chain that evolve into another one
+   */
+  private speciesEvolvingFurther(stage: EvolutionStage): number[] {
+    return stage.evolvesTo.length > 0
+      ? [stage.speciesId, ...stage.evolvesTo.flatMap(next => this.speciesEvolvingFurther(next))]
+      : [];
+  }
+
+  private hasSpecies(stage: EvolutionStage, speciesId: number): boolean {
+    return stage.speciesId === speciesId || stage.evolvesTo.some(next => this.hasSpecies(next, speciesId));
+  }
+
+  /**
+   * Returns a looked up value, or fails with a NotFoundError
+   */
+  private find<T>(value: T | undefined, resource: string): T {
+    if (value === undefined) {
+      throw new NotFoundError(resource);
+    }
+    return value;
+  }
+}
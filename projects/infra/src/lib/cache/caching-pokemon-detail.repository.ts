@@ -0,0 +1,36 @@
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { GAME_CONTEXT, PokemonDetail, PokemonDetailRepository } from 'domain';
+import { RepositoryCache } from './repository-cache';
+
+/**
+ * Injection token for the PokemonDetailRepository the cache wraps
+ */
+export const CACHED_POKEMON_DETAIL_REPOSITORY = new InjectionToken<PokemonDetailRepository>('CachedPokemonDetailRepository');
+
+/**
+ * Decorator caching the results of another PokemonDetailRepository (see RepositoryCache)
+ * Entries are kept per game context, as types and stats depend on it
+ */
+@Injectable()
+export class CachingPokemonDetailRepository implements PokemonDetailRepository {
+  private readonly repository = inject(CACHED_POKEMON_DETAIL_REPOSITORY);
+  private readonly cache = inject(RepositoryCache);
+  private readonly gameContext = inject(GAME_CONTEXT);
+
+  getPokemonDetail(id: number): Observable<PokemonDetail> {
+    return this.cache.get('pokemon-detail', this.key(`id:${id}`), () => this.repository.getPokemonDetail(id));
+  }
+
+  getPokemonDetailByName(name: string): Observable<PokemonDetail> {
+    return this.cache.get(
+      'pokemon-detail',
+      this.key(`name:${name.toLowerCase()}`),
+      () => this.repository.getPokemonDetailByName(name)
+    );
+  }
+
+  private key(resource: string): string {
+    return `${this.gameContext().generation ?? 'latest'}:${resource}`;
+  }
+}
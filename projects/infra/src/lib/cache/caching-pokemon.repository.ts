@@ -0,0 +1,53 @@
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import {
+  GAME_CONTEXT,
+  PaginationParams,
+  PokemonFilter,
+  PokemonPage,
+  PokemonRepository,
+  PokemonSort,
+  PokemonSummary
+} from 'domain';
+import { RepositoryCache } from './repository-cache';
+
+/**
+ * Injection token for the PokemonRepository the cache wraps
+ */
+export const CACHED_POKEMON_REPOSITORY = new InjectionToken<PokemonRepository>('CachedPokemonRepository');
+
+/**
+ * Decorator caching the results of another PokemonRepository (see RepositoryCache)
+ * Entries are kept per game context, as types and stats depend on it; incomplete pages are not kept
+ */
+@Injectable()
+export class CachingPokemonRepository implements PokemonRepository {
+  private readonly repository = inject(CACHED_POKEMON_REPOSITORY);
+  private readonly cache = inject(RepositoryCache);
+  private readonly gameContext = inject(GAME_CONTEXT);
+
+  getPokemonList(pagination: PaginationParams, filter?: PokemonFilter, sort?: PokemonSort): Observable<PokemonPage> {
+    return this.cache.get(
+      'pokemon-list',
+      this.key(JSON.stringify({ pagination, filter, sort })),
+      () => this.repository.getPokemonList(pagination, filter, sort),
+      page => !page.incomplete
+    );
+  }
+
+  getPokemonById(id: number): Observable<PokemonSummary> {
+    return this.cache.get('pokemon', this.key(`id:${id}`), () => this.repository.getPokemonById(id));
+  }
+
+  getPokemonByName(name: string): Observable<PokemonSummary> {
+    return this.cache.get(
+      'pokemon',
+      this.key(`name:${name.toLowerCase()}`),
+      () => this.repository.getPokemonByName(name)
+    );
+  }
+
+  private key(resource: string): string {
+    return `${this.gameContext().generation ?? 'latest'}:${resource}`;
+  }
+}
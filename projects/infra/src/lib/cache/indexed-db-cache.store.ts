@@ -0,0 +1,143 @@
+import { Observable, catchError, map, of, shareReplay, switchMap } from 'rxjs';
+
+/**
+ * A cached value with the time it was fetched
+ */
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+const STORE_NAME = 'entries';
+const STORED_AT_INDEX = 'storedAt';
+
+/**
+ * Format of the cached values, used as the database version
+ * Bump it when a cached model changes shape: opening the new version drops the entries of the previous one
+ */
+export const CACHE_FORMAT_VERSION = 2;
+
+/**
+ * Persistent key-value store for cache entries, backed by IndexedDB
+ * Persistence is best effort: when IndexedDB is unavailable (private browsing, tests)
+ * or fails, reads find nothing and writes are dropped
+ * Entries older than the maximum age are deleted each time the database is opened
+ */
+export class IndexedDbCacheStore {
+  private database$: Observable<IDBDatabase | null> | null = null;
+
+  /**
+   * @param databaseName - Name of the IndexedDB database, shared by every remote of the origin
+   * @param maxAge - Age in milliseconds past which entries are deleted, as they are never served
+   */
+  constructor(
+    private readonly databaseName: string,
+    private readonly maxAge: number
+  ) {}
+
+  /**
+   * Reads an entry
+   * @returns Observable of the entry, or null if missing or unreadable
+   */
+  get<T>(key: string): Observable<CacheEntry<T> | null> {
+    return this.open().pipe(
+      switchMap(database => database
+        ? this.request<CacheEntry<T> | undefined>(database, 'readonly', store => store.get(key))
+        : of(undefined)),
+      map(entry => entry ?? null),
+      catchError(() => of(null))
+    );
+  }
+
+  /**
+   * Writes an entry in the background
+   */
+  set<T>(key: string, entry: CacheEntry<T>): void {
+    this.write(store => store.put(entry, key));
+  }
+
+  /**
+   * Deletes an entry in the background
+   */
+  delete(key: string): void {
+    this.write(store => store.delete(key));
+  }
+
+  private write(operation: (store: IDBObjectStore) => IDBRequest): void {
+    this.open().pipe(
+      switchMap(database => database ? this.request(database, 'readwrite', operation) : of(undefined)),
+      catchError(() => of(undefined))
+    ).subscribe();
+  }
+
+  /**
+   * Opens the database once and deletes the expired entries; null when IndexedDB is unavailable
+   * or holds a newer format (another remote of the origin was deployed first)
+   */
+  private open(): Observable<IDBDatabase | null> {
+    if (!this.database$) {
+      this.database$ = new Observable<IDBDatabase | null>(subscriber => {
+        if (typeof indexedDB === 'undefined') {
+          subscriber.next(null);
+          subscriber.complete();
+          return;
+        }
+
+        const request = indexedDB.open(this.databaseName, CACHE_FORMAT_VERSION);
+        request.onupgradeneeded = () => {
+          const database = request.result;
+          if (database.objectStoreNames.contains(STORE_NAME)) {
+            database.deleteObjectStore(STORE_NAME);
+          }
+          database.createObjectStore(STORE_NAME).createIndex(STORED_AT_INDEX, 'storedAt');
+        };
+        request.onsuccess = () => {
+          const database = request.result;
+          // Lets a remote with a newer format upgrade the database
+          database.onversionchange = () => database.close();
+          this.deleteExpired(database);
+          subscriber.next(database);
+          subscriber.complete();
+        };
+        request.onerror = () => {
+          subscriber.next(null);
+          subscriber.complete();
+        };
+      }).pipe(shareReplay(1));
+    }
+
+    return this.database$;
+  }
+
+  /**
+   * Deletes the entries older than the maximum age in the background
+   */
+  private deleteExpired(database: IDBDatabase): void {
+    try {
+      const expired = IDBKeyRange.upperBound(Date.now() - this.maxAge);
+      const cursor = database.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME)
+        .index(STORED_AT_INDEX).openCursor(expired);
+      cursor.onsuccess = () => {
+        cursor.result?.delete();
+        cursor.result?.continue();
+      };
+    } catch {
+      // Best effort: the expired entries are deleted on a later open
+    }
+  }
+
+  private request<R>(
+    database: IDBDatabase,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Observable<R> {
+    return new Observable<R>(subscriber => {
+      const request = operation(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => {
+        subscriber.next(request.result as R);
+        subscriber.complete();
+      };
+      request.onerror = () => subscriber.error(request.error);
+    });
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * In-memory map keeping the most recently used entries up to a capacity
+ */
+export class LruCache<T> {
+  private readonly entries = new Map<string, T>();
+
+  /**
+   * @param capacity - Maximum number of entries; the least recently used one is dropped beyond it
+   */
+  constructor(private readonly capacity: number) {}
+
+  get(key: string): T | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      // Map keeps insertion order: moving the entry to the end marks it as the most recent
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: T): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    if (this.entries.size > this.capacity) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
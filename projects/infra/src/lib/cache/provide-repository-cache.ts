@@ -0,0 +1,35 @@
+import { Provider, Type } from '@angular/core';
+import { POKEMON_DETAIL_REPOSITORY, POKEMON_REPOSITORY, PokemonDetailRepository, PokemonRepository } from 'domain';
+import { RepositoryCache } from './repository-cache';
+import { CACHED_POKEMON_REPOSITORY, CachingPokemonRepository } from './caching-pokemon.repository';
+import { CACHED_POKEMON_DETAIL_REPOSITORY, CachingPokemonDetailRepository } from './caching-pokemon-detail.repository';
+
+/**
+ * Binds an adapter to POKEMON_REPOSITORY behind the repository cache
+ * Override REPOSITORY_CACHE_CONFIG in the same providers to change lifetimes
+ * @param adapter - Adapter class doing the actual requests
+ * @example
+ * providers: [...provideCachedPokemonRepository(PokeApiAdapter)]
+ */
+export function provideCachedPokemonRepository(adapter: Type<PokemonRepository>): Provider[] {
+  return [
+    RepositoryCache,
+    { provide: CACHED_POKEMON_REPOSITORY, useClass: adapter },
+    { provide: POKEMON_REPOSITORY, useClass: CachingPokemonRepository }
+  ];
+}
+
+/**
+ * Binds an adapter to POKEMON_DETAIL_REPOSITORY behind the repository cache
+ * Override REPOSITORY_CACHE_CONFIG in the same providers to change lifetimes
+ * @param adapter - Adapter class doing the actual requests
+ * @example
+ * providers: [...provideCachedPokemonDetailRepository(PokeApiDetailAdapter)]
+ */
+export function provideCachedPokemonDetailRepository(adapter: Type<PokemonDetailRepository>): Provider[] {
+  return [
+    RepositoryCache,
+    { provide: CACHED_POKEMON_DETAIL_REPOSITORY, useClass: adapter },
+    { provide: POKEMON_DETAIL_REPOSITORY, useClass: CachingPokemonDetailRepository }
+  ];
+}
@@ -0,0 +1,127 @@
+import { TestBed } from '@angular/core/testing';
+import { Observable, Subject, defer, of, throwError } from 'rxjs';
+import { NetworkError } from 'domain';
+
+import { REPOSITORY_CACHE_CONFIG, RepositoryCache, RepositoryCacheConfig } from './repository-cache';
+import { LruCache } from './lru-cache';
+
+describe('RepositoryCache', () => {
+  let cache: RepositoryCache;
+  let requests: number;
+
+  const config: RepositoryCacheConfig = {
+    memoryEntries: 10,
+    databaseName: null,
+    policies: {
+      'pokemon-list': { ttl: 1000, staleWhileRevalidate: 0 },
+      'pokemon': { ttl: 1000, staleWhileRevalidate: 5000 },
+      'pokemon-detail': { ttl: 1000, staleWhileRevalidate: 5000 }
+    }
+  };
+
+  /** Counts requests and answers with the request number */
+  const load = (): Observable<number> => defer(() => of(++requests));
+
+  const read = (resource: 'pokemon-list' | 'pokemon', key = 'id:25'): number | undefined => {
+    let value: number | undefined;
+    cache.get(resource, key, load).subscribe(v => value = v);
+    return value;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    requests = 0;
+    TestBed.configureTestingModule({
+      providers: [RepositoryCache, { provide: REPOSITORY_CACHE_CONFIG, useValue: config }]
+    });
+    cache = TestBed.inject(RepositoryCache);
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it('should serve fresh entries without requests', () => {
+    expect(read('pokemon')).toBe(1);
+    expect(read('pokemon')).toBe(1);
+    expect(read('pokemon', 'id:1')).toBe(2);
+  });
+
+  it('should serve stale entries while refreshing them in the background', () => {
+    read('pokemon');
+    vi.advanceTimersByTime(2000);
+
+    expect(read('pokemon')).toBe(1);
+    expect(requests).toBe(2);
+    expect(read('pokemon')).toBe(2);
+  });
+
+  it('should fetch expired entries again', () => {
+    read('pokemon-list');
+    vi.advanceTimersByTime(2000);
+
+    expect(read('pokemon-list')).toBe(2);
+  });
+
+  it('should not cache failures', () => {
+    let error: unknown;
+    cache.get('pokemon', 'id:25', () => throwError(() => new NetworkError())).subscribe({ error: e => error = e });
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(read('pokemon')).toBe(1);
+  });
+
+  it('should not cache values the caller marks as not cacheable', () => {
+    const readIfEven = () => {
+      let value: number | undefined;
+      cache.get('pokemon', 'id:25', load, v => v % 2 === 0).subscribe(v => value = v);
+      return value;
+    };
+
+    expect(readIfEven()).toBe(1);
+    expect(readIfEven()).toBe(2);
+    expect(readIfEven()).toBe(2);
+  });
+
+  it('should share one request between concurrent misses of a key', () => {
+    const response = new Subject<number>();
+    const slowLoad = () => defer(() => {
+      requests++;
+      return response;
+    });
+    const values: number[] = [];
+
+    cache.get('pokemon', 'id:25', slowLoad).subscribe(v => values.push(v));
+    cache.get('pokemon', 'id:25', slowLoad).subscribe(v => values.push(v));
+    response.next(7);
+    response.complete();
+
+    expect(requests).toBe(1);
+    expect(values).toEqual([7, 7]);
+    expect(read('pokemon')).toBe(7);
+  });
+
+  it('should keep serving a stale entry when its refresh fails', () => {
+    read('pokemon');
+    vi.advanceTimersByTime(2000);
+    let value: number | undefined;
+
+    cache.get('pokemon', 'id:25', () => throwError(() => new NetworkError())).subscribe(v => value = v);
+
+    expect(value).toBe(1);
+    expect(read('pokemon')).toBe(1);
+    expect(requests).toBe(2);
+  });
+});
+
+describe('LruCache', () => {
+  it('should drop the least recently used entry', () => {
+    const lru = new LruCache<number>(2);
+    lru.set('a', 1);
+    lru.set('b', 2);
+    lru.get('a');
+    lru.set('c', 3);
+
+    expect(lru.get('b')).toBeUndefined();
+    expect(lru.get('a')).toBe(1);
+    expect(lru.size).toBe(2);
+  });
+});
@@ -0,0 +1,170 @@
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { Observable, defer, finalize, of, shareReplay, switchMap, tap } from 'rxjs';
+import { CacheEntry, IndexedDbCacheStore } from './indexed-db-cache.store';
+import { LruCache } from './lru-cache';
+
+/**
+ * Kind of resource the cache keeps, each with its own lifetime
+ */
+export type CachedResource = 'pokemon-list' | 'pokemon' | 'pokemon-detail';
+
+/**
+ * Lifetime of a cached resource, in milliseconds
+ */
+export interface CachePolicy {
+  /** Age up to which an entry is served without any request */
+  ttl: number;
+  /** Extra age during which an entry is still served, while it is refreshed in the background */
+  staleWhileRevalidate: number;
+}
+
+/**
+ * Configuration of the repository cache
+ */
+export interface RepositoryCacheConfig {
+  /** Number of entries kept in memory, least recently used dropped first */
+  memoryEntries: number;
+  /** IndexedDB database persisting the entries across page loads; null keeps them in memory only */
+  databaseName: string | null;
+  policies: Record<CachedResource, CachePolicy>;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Default configuration: Pokemon data rarely changes, lists are refreshed more often
+ * as they depend on the whole dex
+ */
+export const DEFAULT_REPOSITORY_CACHE_CONFIG: RepositoryCacheConfig = {
+  memoryEntries: 500,
+  databaseName: 'pc-repository-cache',
+  policies: {
+    'pokemon-list': { ttl: 10 * MINUTE, staleWhileRevalidate: DAY },
+    'pokemon': { ttl: DAY, staleWhileRevalidate: 7 * DAY },
+    'pokemon-detail': { ttl: DAY, staleWhileRevalidate: 7 * DAY }
+  }
+};
+
+/**
+ * Injection token for the RepositoryCacheConfig; the default configuration applies when not provided
+ */
+export const REPOSITORY_CACHE_CONFIG = new InjectionToken<RepositoryCacheConfig>('RepositoryCacheConfig', {
+  providedIn: 'root',
+  factory: () => DEFAULT_REPOSITORY_CACHE_CONFIG
+});
+
+/**
+ * Two-level cache for repository results: an in-memory LRU in front of an IndexedDB store
+ * Fresh entries are served as is, stale ones are served and refreshed in the background for next time,
+ * and older ones are fetched again. Failed requests, and results the caller marks as not cacheable, are not cached
+ * Concurrent misses and refreshes of a key share one request
+ */
+@Injectable()
+export class RepositoryCache {
+  private readonly config = inject(REPOSITORY_CACHE_CONFIG);
+  private readonly memory = new LruCache<CacheEntry<unknown>>(this.config.memoryEntries);
+  private readonly store = this.config.databaseName
+    ? new IndexedDbCacheStore(this.config.databaseName, this.maxAge())
+    : null;
+  /** Requests in progress by key, shared by the concurrent misses and refreshes of each key */
+  private readonly pending = new Map<string, Observable<unknown>>();
+
+  /**
+   * Serves a resource from the cache, loading it when missing or expired
+   * @param resource - Kind of resource, which sets its lifetime
+   * @param key - Identifies the resource among its kind (e.g. the Pokemon ID)
+   * @param load - Fetches the resource; subscribed lazily, only when needed
+   * @param cacheable - Whether a loaded value may be saved, e.g. not when parts of it failed to load
+   * @returns Observable of the resource
+   */
+  get<T>(
+    resource: CachedResource,
+    key: string,
+    load: () => Observable<T>,
+    cacheable: (value: T) => boolean = () => true
+  ): Observable<T> {
+    const policy = this.config.policies[resource];
+    const cacheKey = `${resource}:${key}`;
+
+    return this.lookup<T>(cacheKey).pipe(
+      switchMap(entry => {
+        const age = entry ? Date.now() - entry.storedAt : Infinity;
+
+        if (entry && age < policy.ttl) {
+          return of(entry.value);
+        }
+        if (entry && age < policy.ttl + policy.staleWhileRevalidate) {
+          this.refresh(cacheKey, load, cacheable);
+          return of(entry.value);
+        }
+        return this.fetch(cacheKey, load, cacheable);
+      })
+    );
+  }
+
+  /**
+   * Reads an entry from memory, then from the persistent store
+   */
+  private lookup<T>(key: string): Observable<CacheEntry<T> | null> {
+    const entry = this.memory.get(key) as CacheEntry<T> | undefined;
+    if (entry || !this.store) {
+      return of(entry ?? null);
+    }
+
+    return this.store.get<T>(key).pipe(
+      tap(stored => {
+        if (stored) this.memory.set(key, stored);
+      })
+    );
+  }
+
+  /**
+   * Loads an entry and saves its last value once complete, so that partial results are never cached
+   * A request already in progress for the key is shared rather than sent again
+   */
+  private fetch<T>(key: string, load: () => Observable<T>, cacheable: (value: T) => boolean): Observable<T> {
+    const pending = this.pending.get(key) as Observable<T> | undefined;
+    if (pending) return pending;
+
+    const request$ = defer(() => {
+      let latest: { value: T } | null = null;
+      return load().pipe(
+        tap({
+          next: value => latest = { value },
+          complete: () => {
+            if (latest && cacheable(latest.value)) this.save(key, latest.value);
+          }
+        })
+      );
+    }).pipe(
+      finalize(() => {
+        if (this.pending.get(key) === request$) this.pending.delete(key);
+      }),
+      shareReplay({ bufferSize: 1, refCount: true })
+    );
+    this.pending.set(key, request$);
+    return request$;
+  }
+
+  /**
+   * Fetches an entry again without waiting for it; failures keep the stale entry
+   */
+  private refresh<T>(key: string, load: () => Observable<T>, cacheable: (value: T) => boolean): void {
+    this.fetch(key, load, cacheable).subscribe({ error: () => undefined });
+  }
+
+  /**
+   * Age past which no resource is served, so that the store can delete older entries
+   */
+  private maxAge(): number {
+    return Math.max(...Object.values(this.config.policies).map(policy => policy.ttl + policy.staleWhileRevalidate));
+  }
+
+  private save<T>(key: string, value: T): void {
+    const entry: CacheEntry<T> = { value, storedAt: Date.now() };
+    this.memory.set(key, entry);
+    this.store?.set(key, entry);
+  }
+}
@@ -0,0 +1,33 @@
+import { EvolutionChain, PastValue, PokemonDetail, PokemonSpecies, PokemonStats, PokemonType } from 'domain';
+
+/**
+ * Version of the snapshot format read by StaticDatasetAdapter and written by tools/snapshot-builder
+ * Kept free of Angular imports, as the snapshot builder runs it in Node
+ * Bumped on any change that older readers would misread
+ */
+export const POKEMON_SNAPSHOT_FORMAT = 2;
+
+/**
+ * A Pokemon in a snapshot: its details in the latest games, and what changed in older ones
+ */
+export interface SnapshotPokemon extends PokemonDetail {
+  pastTypes?: PastValue<PokemonType[]>[];
+  pastStats?: PastValue<Partial<PokemonStats>>[];
+}
+
+/**
+ * Offline copy of the Pokemon data, already mapped to domain models
+ * Species and evolution chains are optional: without them, the matching repositories
+ * report every request as not found, and species-based filters match nothing
+ * Sprite URLs of Pokemon and evolution stages are relative to the snapshot file (e.g. `artwork/25.png`,
+ * shipped next to it) or absolute, for snapshots that keep the artwork of the crawled server
+ */
+export interface PokemonSnapshot {
+  format: number; // POKEMON_SNAPSHOT_FORMAT the snapshot was written with
+  version: string; // version of the data, e.g. the date of the crawl
+  source: string; // base URL the data was crawled from
+  createdAt: string; // ISO date
+  pokemon: SnapshotPokemon[]; // dex order, alternate forms last
+  species?: PokemonSpecies[];
+  evolutionChains?: EvolutionChain[];
+}
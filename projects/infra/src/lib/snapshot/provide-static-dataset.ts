@@ -0,0 +1,30 @@
+import { Provider } from '@angular/core';
+import {
+  EVOLUTION_CHAIN_REPOSITORY,
+  POKEMON_DETAIL_REPOSITORY,
+  POKEMON_REPOSITORY,
+  SPECIES_REPOSITORY,
+  STATS_DATASET_REPOSITORY
+} from 'domain';
+import { StaticDatasetAdapter } from '../adapters/static-dataset.adapter';
+import { STATIC_DATASET_CONFIG, StaticDatasetConfig } from './static-dataset.config';
+
+/**
+ * Binds the Pokemon, detail, species, evolution chain and stats dataset ports to one StaticDatasetAdapter,
+ * so that the snapshot is loaded once per module
+ * The snapshot is local, so the repository cache is left out
+ * @param config - Where to load the snapshot from; defaults to the bundled asset
+ * @example
+ * providers: [...provideStaticDataset()]
+ */
+export function provideStaticDataset(config?: StaticDatasetConfig): Provider[] {
+  return [
+    StaticDatasetAdapter,
+    ...(config ? [{ provide: STATIC_DATASET_CONFIG, useValue: config }] : []),
+    { provide: POKEMON_REPOSITORY, useExisting: StaticDatasetAdapter },
+    { provide: POKEMON_DETAIL_REPOSITORY, useExisting: StaticDatasetAdapter },
+    { provide: SPECIES_REPOSITORY, useExisting: StaticDatasetAdapter },
+    { provide: EVOLUTION_CHAIN_REPOSITORY, useExisting: StaticDatasetAdapter },
+    { provide: STATS_DATASET_REPOSITORY, useExisting: StaticDatasetAdapter }
+  ];
+}
@@ -0,0 +1,23 @@
+import { InjectionToken } from '@angular/core';
+
+/**
+ * Where StaticDatasetAdapter loads its snapshot from
+ */
+export interface StaticDatasetConfig {
+  url: string;
+}
+
+/**
+ * Default location, shipped by the remotes as an asset (see projects/infra/assets)
+ */
+export const DEFAULT_STATIC_DATASET_CONFIG: StaticDatasetConfig = {
+  url: 'assets/infra/pokemon-snapshot.json'
+};
+
+/**
+ * Injection token for the snapshot location; defaults to the bundled asset
+ */
+export const STATIC_DATASET_CONFIG = new InjectionToken<StaticDatasetConfig>('StaticDatasetConfig', {
+  providedIn: 'root',
+  factory: () => DEFAULT_STATIC_DATASET_CONFIG
+});
@@ -5,3 +5,23 @@
 // Adapters
 export * from './lib/adapters/pokeapi.adapter';
 export * from './lib/adapters/pokeapi-detail.adapter';
+export * from './lib/adapters/pokeapi-evolution.adapter';
+export * from './lib/adapters/pokeapi-species.adapter';
+export * from './lib/adapters/pokeapi-move.adapter';
+export * from './lib/adapters/pokeapi-ability.adapter';
+export * from './lib/adapters/pokeapi-stats-dataset.adapter';
+export * from './lib/adapters/local-storage-favorites.adapter';
+export * from './lib/adapters/static-dataset.adapter';
+export * from './lib/adapters/http-error.mapper';
+
+// Caching
+export * from './lib/cache/repository-cache';
+export * from './lib/cache/caching-pokemon.repository';
+export * from './lib/cache/caching-pokemon-detail.repository';
+export * from './lib/cache/provide-repository-cache';
+
+// Offline snapshot
+export * from './lib/snapshot/pokemon-snapshot';
+export * from './lib/snapshot/static-dataset.config';
+export * from './lib/snapshot/provide-static-dataset';
+
@@ -0,0 +1,112 @@
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { Observable, defer, switchMap, throwError, timer } from 'rxjs';
+import { DomainError, NotFoundError } from 'domain';
+import { FakePokemon, POKEMON_FIXTURES } from './pokemon.fixtures';
+
+/**
+ * How the fake repositories answer
+ */
+export interface FakePokemonDataOptions {
+  /** Pokemon served, in dex order */
+  pokemon: readonly FakePokemon[];
+  /** Delay before each answer, in milliseconds; 0 answers synchronously */
+  latency: number;
+  /** Error every call fails with, until cleared */
+  error: DomainError | null;
+  /** Whether list pages are emitted row by row before the complete page, as PokeApiAdapter does */
+  progressive: boolean;
+}
+
+/**
+ * Default answers: the well-known fixtures, synchronously, without errors
+ */
+export const DEFAULT_FAKE_POKEMON_DATA_OPTIONS: FakePokemonDataOptions = {
+  pokemon: POKEMON_FIXTURES,
+  latency: 0,
+  error: null,
+  progressive: false
+};
+
+/**
+ * Injection token for the initial options of FakePokemonData; defaults to DEFAULT_FAKE_POKEMON_DATA_OPTIONS
+ */
+export const FAKE_POKEMON_DATA_OPTIONS = new InjectionToken<Partial<FakePokemonDataOptions>>('FakePokemonDataOptions', {
+  providedIn: 'root',
+  factory: () => DEFAULT_FAKE_POKEMON_DATA_OPTIONS
+});
+
+/**
+ * Data and behavior shared by the fake repositories
+ * Tests inject it to change the data, latency or errors between calls
+ * @example
+ * TestBed.inject(FakePokemonData).failNext(new NetworkError());
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FakePokemonData {
+  private readonly initial = inject(FAKE_POKEMON_DATA_OPTIONS);
+  private options: FakePokemonDataOptions = { ...DEFAULT_FAKE_POKEMON_DATA_OPTIONS, ...this.initial };
+  private readonly nextErrors: DomainError[] = [];
+
+  /** Pokemon served, in dex order */
+  get pokemon(): readonly FakePokemon[] {
+    return this.options.pokemon;
+  }
+
+  /** Whether list pages are emitted row by row */
+  get progressive(): boolean {
+    return this.options.progressive;
+  }
+
+  /**
+   * Changes how the next calls are answered
+   */
+  configure(options: Partial<FakePokemonDataOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Makes the next call fail with an error, then answers normally again
+   * Calls fail in the order the errors were queued
+   */
+  failNext(error: DomainError): void {
+    this.nextErrors.push(error);
+  }
+
+  /**
+   * Restores the options the fakes were provided with and drops queued errors
+   */
+  reset(): void {
+    this.options = { ...DEFAULT_FAKE_POKEMON_DATA_OPTIONS, ...this.initial };
+    this.nextErrors.length = 0;
+  }
+
+  /**
+   * Returns the first Pokemon matching a predicate, or fails with a NotFoundError
+   * @param resource - What was requested, for the error message
+   */
+  find(predicate: (pokemon: FakePokemon) => boolean, resource: string): FakePokemon {
+    const pokemon = this.options.pokemon.find(predicate);
+    if (!pokemon) {
+      throw new NotFoundError(resource);
+    }
+    return pokemon;
+  }
+
+  /**
+   * Answers a call after the configured latency, or fails with the queued or configured error
+   * The answer is built on subscription, so that it reflects the options at that time
+   * @param answer - Builds the answer; may throw a DomainError, e.g. a NotFoundError
+   */
+  respond<T>(answer: () => Observable<T>): Observable<T> {
+    return defer(() => {
+      const result$ = defer(() => {
+        const error = this.nextErrors.shift() ?? this.options.error;
+        return error ? throwError(() => error) : answer();
+      });
+
+      return this.options.latency > 0 ? timer(this.options.latency).pipe(switchMap(() => result$)) : result$;
+    });
+  }
+}
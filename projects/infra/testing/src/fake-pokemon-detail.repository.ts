@@ -0,0 +1,43 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { PokemonDetailRepository, PokemonDetail } from 'domain';
+import { FakePokemonData } from './fake-pokemon-data';
+import { FakePokemon } from './pokemon.fixtures';
+
+/**
+ * In-memory PokemonDetailRepository for component tests and stories, serving FakePokemonData
+ * Latency and errors follow the FakePokemonData options
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FakePokemonDetailRepository implements PokemonDetailRepository {
+  private readonly data = inject(FakePokemonData);
+
+  getPokemonDetail(id: number): Observable<PokemonDetail> {
+    return this.data.respond(() => of(this.toDetail(this.data.find(p => p.id === id, `Pokémon ${id}`))));
+  }
+
+  getPokemonDetailByName(name: string): Observable<PokemonDetail> {
+    return this.data.respond(() => of(this.toDetail(
+      this.data.find(p => p.name === name.toLowerCase(), `Pokémon "${name}"`)
+    )));
+  }
+
+  /**
+   * Leaves out the species facts, which are not part of the details
+   */
+  private toDetail(pokemon: FakePokemon): PokemonDetail {
+    return {
+      id: pokemon.id,
+      speciesId: pokemon.speciesId,
+      name: pokemon.name,
+      spriteUrl: pokemon.spriteUrl,
+      types: pokemon.types,
+      stats: pokemon.stats,
+      physical: pokemon.physical,
+      abilities: pokemon.abilities,
+      baseExperience: pokemon.baseExperience
+    };
+  }
+}
@@ -0,0 +1,122 @@
+import { TestBed } from '@angular/core/testing';
+import { Observable } from 'rxjs';
+import {
+  NetworkError,
+  NotFoundError,
+  POKEMON_DETAIL_REPOSITORY,
+  POKEMON_REPOSITORY,
+  PokemonDetailRepository,
+  PokemonPage,
+  PokemonRepository
+} from 'domain';
+
+import { FakePokemonData } from './fake-pokemon-data';
+import { createPokemonFixtures } from './pokemon.fixtures';
+import { provideFakePokemonData } from './provide-fake-pokemon-data';
+
+describe('FakePokemonRepository', () => {
+  let repository: PokemonRepository;
+  let detailRepository: PokemonDetailRepository;
+  let data: FakePokemonData;
+
+  /** Collects the emissions and the error of an observable */
+  const collect = <T>(source$: Observable<T>) => {
+    const result: { values: T[]; error: unknown; complete: boolean } = { values: [], error: null, complete: false };
+    source$.subscribe({
+      next: value => result.values.push(value),
+      error: error => result.error = error,
+      complete: () => result.complete = true
+    });
+    return result;
+  };
+
+  const ids = (page: PokemonPage) => page.items.map(pokemon => pokemon.id);
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideFakePokemonData()] });
+    repository = TestBed.inject(POKEMON_REPOSITORY);
+    detailRepository = TestBed.inject(POKEMON_DETAIL_REPOSITORY);
+    data = TestBed.inject(FakePokemonData);
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it('should paginate the fixtures synchronously', () => {
+    const { values, complete } = collect(repository.getPokemonList({ page: 2, pageSize: 3 }));
+
+    expect(complete).toBe(true);
+    expect(values.length).toBe(1);
+    expect(ids(values[0])).toEqual([25, 94, 133]);
+    expect(values[0]).toEqual(expect.objectContaining({ totalCount: 10, currentPage: 2, totalPages: 4 }));
+  });
+
+  it('should filter, search and sort like the real adapters', () => {
+    const list = (filter: object, sort?: { key: 'speed'; direction: 'desc' }) =>
+      ids(collect(repository.getPokemonList({ page: 1, pageSize: 20 }, filter, sort)).values[0]);
+
+    expect(list({ types: ['psychic'] }, { key: 'speed', direction: 'desc' })).toEqual([150, 151]);
+    expect(list({ isLegendary: true })).toEqual([150]);
+    expect(list({ generation: { min: 4 } })).toEqual([448]);
+    expect(list({ ability: 'static' })).toEqual([25]);
+    expect(list({ search: 'pika' })[0]).toBe(25);
+  });
+
+  it('should emit pages row by row when progressive', () => {
+    data.configure({ progressive: true });
+
+    const { values } = collect(repository.getPokemonList({ page: 1, pageSize: 3 }));
+
+    expect(values.map(page => page.items.length)).toEqual([1, 2, 3]);
+    expect(ids(values[2])).toEqual([1, 4, 7]);
+  });
+
+  it('should answer after the configured latency', () => {
+    vi.useFakeTimers();
+    data.configure({ latency: 500 });
+
+    const result = collect(repository.getPokemonById(25));
+    expect(result.values).toEqual([]);
+
+    vi.advanceTimersByTime(500);
+    expect(result.values[0].name).toBe('pikachu');
+  });
+
+  it('should fail the next call only with failNext', () => {
+    data.failNext(new NetworkError());
+
+    expect(collect(repository.getPokemonById(25)).error).toBeInstanceOf(NetworkError);
+    expect(collect(repository.getPokemonById(25)).values[0].name).toBe('pikachu');
+  });
+
+  it('should fail every call with a configured error until reset', () => {
+    data.configure({ error: new NetworkError() });
+    expect(collect(detailRepository.getPokemonDetail(25)).error).toBeInstanceOf(NetworkError);
+    expect(collect(detailRepository.getPokemonDetail(1)).error).toBeInstanceOf(NetworkError);
+
+    data.reset();
+    expect(collect(detailRepository.getPokemonDetail(25)).values.length).toBe(1);
+  });
+
+  it('should serve details without the species facts', () => {
+    const detail = collect(detailRepository.getPokemonDetailByName('Mewtwo')).values[0];
+
+    expect(detail.stats.specialAttack).toBe(154);
+    expect(detail.abilities).toEqual([{ name: 'pressure', isHidden: false }, { name: 'unnerve', isHidden: true }]);
+    expect('isLegendary' in detail).toBe(false);
+  });
+
+  it('should fail with a NotFoundError for unknown Pokemon', () => {
+    expect(collect(repository.getPokemonByName('missingno')).error).toBeInstanceOf(NotFoundError);
+    expect(collect(detailRepository.getPokemonDetail(9999)).error).toBeInstanceOf(NotFoundError);
+  });
+
+  it('should serve the data provided with the helper', () => {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({ providers: [provideFakePokemonData({ pokemon: createPokemonFixtures(45) })] });
+
+    const page = collect(TestBed.inject(POKEMON_REPOSITORY).getPokemonList({ page: 3, pageSize: 20 })).values[0];
+
+    expect(page.totalPages).toBe(3);
+    expect(page.items.map(pokemon => pokemon.name)).toEqual(['pokemon-41', 'pokemon-42', 'pokemon-43', 'pokemon-44', 'pokemon-45']);
+  });
+});
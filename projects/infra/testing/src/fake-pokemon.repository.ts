@@ -0,0 +1,87 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, from, of } from 'rxjs';
+import {
+  PokemonRepository,
+  PokemonPage,
+  PokemonFilter,
+  PokemonSort,
+  PokemonSummary,
+  PaginationParams,
+  PokemonFilterService,
+  PokemonSortService,
+  NameSearchService
+} from 'domain';
+import { FakePokemonData } from './fake-pokemon-data';
+import { FakePokemon } from './pokemon.fixtures';
+
+/**
+ * In-memory PokemonRepository for component tests and stories, serving FakePokemonData
+ * Filters, sorting and search go through the same domain services as the real adapters;
+ * latency, errors and progressive pages follow the FakePokemonData options
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FakePokemonRepository implements PokemonRepository {
+  private readonly data = inject(FakePokemonData);
+  private readonly filterService = inject(PokemonFilterService);
+  private readonly sortService = inject(PokemonSortService);
+  private readonly nameSearch = inject(NameSearchService);
+
+  getPokemonList(pagination: PaginationParams, filter?: PokemonFilter, sort?: PokemonSort): Observable<PokemonPage> {
+    return this.data.respond(() => {
+      const matches = filter ? this.filter(this.data.pokemon, filter) : [...this.data.pokemon];
+      const ranked = filter?.search ? this.nameSearch.rank(matches, filter.search) : matches;
+      const sorted = sort ? this.sortService.sort(ranked, sort) : ranked;
+
+      const offset = (pagination.page - 1) * pagination.pageSize;
+      const items = sorted.slice(offset, offset + pagination.pageSize).map(pokemon => this.toSummary(pokemon));
+      const page = (rows: PokemonSummary[]): PokemonPage => ({
+        items: rows,
+        totalCount: sorted.length,
+        currentPage: pagination.page,
+        pageSize: pagination.pageSize,
+        totalPages: Math.ceil(sorted.length / pagination.pageSize)
+      });
+
+      return this.data.progressive && items.length > 1
+        ? from(items.map((_, i) => page(items.slice(0, i + 1))))
+        : of(page(items));
+    });
+  }
+
+  getPokemonById(id: number): Observable<PokemonSummary> {
+    return this.data.respond(() => of(this.toSummary(this.data.find(p => p.id === id, `Pokémon ${id}`))));
+  }
+
+  getPokemonByName(name: string): Observable<PokemonSummary> {
+    return this.data.respond(() => of(this.toSummary(
+      this.data.find(p => p.name === name.toLowerCase(), `Pokémon "${name}"`)
+    )));
+  }
+
+  /**
+   * Keeps the Pokemon matching every criterion of a filter, in their order
+   */
+  private filter(pokemon: readonly FakePokemon[], filter: PokemonFilter): FakePokemon[] {
+    const ids = filter.ids && new Set(filter.ids);
+
+    return pokemon.filter(p =>
+      (!ids || ids.has(p.id)) &&
+      this.filterService.matchesTypes(p.types, filter) &&
+      this.filterService.matchesAbility(p.abilities, filter) &&
+      this.filterService.matchesStats(p.stats, filter) &&
+      this.filterService.matchesGeneration(p.generation, filter) &&
+      this.filterService.matchesStatus(p, filter)
+    );
+  }
+
+  private toSummary(pokemon: FakePokemon): PokemonSummary {
+    return {
+      id: pokemon.id,
+      name: pokemon.name,
+      spriteUrl: pokemon.spriteUrl,
+      types: pokemon.types
+    };
+  }
+}
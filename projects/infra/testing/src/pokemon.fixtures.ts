@@ -0,0 +1,99 @@
+import { PokemonAbility, PokemonDetail, PokemonStats, PokemonType } from 'domain';
+
+/**
+ * Pokemon served by the fake repositories, with the species facts that generation and
+ * legendary/mythical filters need
+ */
+export interface FakePokemon extends PokemonDetail {
+  generation: number;
+  isLegendary: boolean;
+  isMythical: boolean;
+}
+
+/** Official artwork, as linked by the PokeAPI adapters */
+const ARTWORK_URL = 'https://raw.githubusercontent.com/PokeAPI/sprites/master/sprites/pokemon/other/official-artwork';
+
+/**
+ * Builds a fixture; unspecified fields get plain Normal-type values
+ * @param pokemon - ID and name, plus the fields that matter to the test
+ * @example
+ * createPokemonFixture({ id: 132, name: 'ditto', stats: { hp: 48, attack: 48, ... } })
+ */
+export function createPokemonFixture(pokemon: Partial<FakePokemon> & Pick<FakePokemon, 'id' | 'name'>): FakePokemon {
+  return {
+    speciesId: pokemon.id,
+    spriteUrl: `${ARTWORK_URL}/${pokemon.id}.png`,
+    types: [{ name: 'normal', slot: 1 }],
+    stats: { hp: 50, attack: 50, defense: 50, specialAttack: 50, specialDefense: 50, speed: 50 },
+    physical: { height: 10, weight: 100 },
+    abilities: [],
+    baseExperience: 100,
+    generation: 1,
+    isLegendary: false,
+    isMythical: false,
+    ...pokemon
+  };
+}
+
+/**
+ * Builds numbered fixtures (`pokemon-1`, `pokemon-2`, ...), for lists long enough to paginate
+ * @param count - Number of Pokemon, with IDs from 1
+ */
+export function createPokemonFixtures(count: number): FakePokemon[] {
+  return Array.from({ length: count }, (_, i) => createPokemonFixture({ id: i + 1, name: `pokemon-${i + 1}` }));
+}
+
+/**
+ * Shorthand for the well-known fixtures below
+ */
+function wellKnown(
+  id: number,
+  name: string,
+  types: string[],
+  [hp, attack, defense, specialAttack, specialDefense, speed]: number[],
+  [height, weight]: number[],
+  abilities: string[],
+  baseExperience: number,
+  species: Partial<Pick<FakePokemon, 'generation' | 'isLegendary' | 'isMythical'>> = {}
+): FakePokemon {
+  const stats: PokemonStats = { hp, attack, defense, specialAttack, specialDefense, speed };
+
+  return createPokemonFixture({
+    id,
+    name,
+    types: types.map((type, i): PokemonType => ({ name: type, slot: i + 1 })),
+    stats,
+    physical: { height, weight },
+    // The last ability is the hidden one, as in the games, unless the Pokemon has a single one
+    abilities: abilities.map((ability, i): PokemonAbility => ({
+      name: ability,
+      isHidden: abilities.length > 1 && i === abilities.length - 1
+    })),
+    baseExperience,
+    ...species
+  });
+}
+
+/**
+ * Well-known Pokemon with their latest-games data, in dex order
+ * Covers single and dual types, one stat outlier each way (Snorlax, Mew), a legendary,
+ * a mythical and a Pokemon from a later generation
+ */
+export const POKEMON_FIXTURES: readonly FakePokemon[] = [
+  wellKnown(1, 'bulbasaur', ['grass', 'poison'], [45, 49, 49, 65, 65, 45], [7, 69], ['overgrow', 'chlorophyll'], 64),
+  wellKnown(4, 'charmander', ['fire'], [39, 52, 43, 60, 50, 65], [6, 85], ['blaze', 'solar-power'], 62),
+  wellKnown(7, 'squirtle', ['water'], [44, 48, 65, 50, 64, 43], [5, 90], ['torrent', 'rain-dish'], 63),
+  wellKnown(25, 'pikachu', ['electric'], [35, 55, 40, 50, 50, 90], [4, 60], ['static', 'lightning-rod'], 112),
+  wellKnown(94, 'gengar', ['ghost', 'poison'], [60, 65, 60, 130, 75, 110], [15, 405], ['cursed-body'], 250),
+  wellKnown(133, 'eevee', ['normal'], [55, 55, 50, 45, 65, 55], [3, 65], ['run-away', 'adaptability', 'anticipation'], 65),
+  wellKnown(143, 'snorlax', ['normal'], [160, 110, 65, 65, 110, 30], [21, 4600], ['immunity', 'thick-fat', 'gluttony'], 189),
+  wellKnown(150, 'mewtwo', ['psychic'], [106, 110, 90, 154, 90, 130], [20, 1220], ['pressure', 'unnerve'], 340, {
+    isLegendary: true
+  }),
+  wellKnown(151, 'mew', ['psychic'], [100, 100, 100, 100, 100, 100], [4, 40], ['synchronize'], 300, {
+    isMythical: true
+  }),
+  wellKnown(448, 'lucario', ['fighting', 'steel'], [70, 110, 70, 115, 70, 90], [12, 540], ['steadfast', 'inner-focus', 'justified'], 184, {
+    generation: 4
+  })
+];
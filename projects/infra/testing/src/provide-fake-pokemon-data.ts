@@ -0,0 +1,26 @@
+import { Provider } from '@angular/core';
+import { POKEMON_DETAIL_REPOSITORY, POKEMON_REPOSITORY } from 'domain';
+import { FAKE_POKEMON_DATA_OPTIONS, FakePokemonData, FakePokemonDataOptions } from './fake-pokemon-data';
+import { FakePokemonRepository } from './fake-pokemon.repository';
+import { FakePokemonDetailRepository } from './fake-pokemon-detail.repository';
+
+/**
+ * Binds the Pokemon and detail ports to in-memory fakes sharing one FakePokemonData,
+ * for TestBed and Storybook; no HttpClient is needed
+ * @param options - Data, latency, errors and page emission; defaults to the well-known fixtures,
+ * answered synchronously
+ * @example
+ * TestBed.configureTestingModule({ providers: [...provideFakePokemonData({ latency: 300 })] });
+ * // Storybook
+ * decorators: [applicationConfig({ providers: provideFakePokemonData() })]
+ */
+export function provideFakePokemonData(options?: Partial<FakePokemonDataOptions>): Provider[] {
+  return [
+    FakePokemonData,
+    FakePokemonRepository,
+    FakePokemonDetailRepository,
+    ...(options ? [{ provide: FAKE_POKEMON_DATA_OPTIONS, useValue: options }] : []),
+    { provide: POKEMON_REPOSITORY, useExisting: FakePokemonRepository },
+    { provide: POKEMON_DETAIL_REPOSITORY, useExisting: FakePokemonDetailRepository }
+  ];
+}
@@ -0,0 +1,10 @@
+/*
+ * Public API Surface of infra/testing
+ * Fakes for tests and stories, kept out of the production entry point
+ */
+
+export * from './pokemon.fixtures';
+export * from './fake-pokemon-data';
+export * from './fake-pokemon.repository';
+export * from './fake-pokemon-detail.repository';
+export * from './provide-fake-pokemon-data';
@@ -1,17 +1,28 @@
-import { NgModule } from "@angular/core";
+import { NgModule, computed, inject } from "@angular/core";
 import { PokeCatalog } from "./components/poke-catalog/poke-catalog";
 import { RouterModule } from "@angular/router";
 import { provideHttpClient } from "@angular/common/http";
 import { CATALOG_ROUTES } from "./catalog.routes";
-import { Box, Center, Cluster, Container, Frame, PaginatedList, Searchbar, Stack } from "@ui";
+import { Box, Center, Cluster, Container, FavoriteToggle, Frame, PaginatedList, Searchbar, Stack, GameVersionService } from "@ui";
 import { PokemonCard } from "./components/pokemon-card/pokemon-card";
+import { PokemonFilterPanel } from "./components/pokemon-filter-panel/pokemon-filter-panel";
 import { 
-    POKEMON_REPOSITORY, 
     POKEMON_CATALOG_SERVICE, 
     PokemonCatalogService,
-    ComparisonService 
+    ComparisonService,
+    GAME_CONTEXT,
+    toGameContext,
+    FAVORITES_REPOSITORY,
+    FAVORITES_SERVICE,
+    FavoritesService
 } from "@domain/src/public-api";
-import { PokeApiAdapter } from "@infra/src/public-api";
+import {
+    PokeApiAdapter,
+    LocalStorageFavoritesAdapter,
+    provideCachedPokemonRepository,
+    provideStaticDataset
+} from "@infra/src/public-api";
+import { environment } from "../../environments/environment";
 
 @NgModule({
     imports: [
@@ -23,16 +34,30 @@ import { PokeApiAdapter } from "@infra/src/public-api";
         Cluster, 
         Frame, 
         Center,
+        FavoriteToggle,
         RouterModule.forChild(CATALOG_ROUTES)
     ],
-    declarations: [PokeCatalog, PokemonCard],
+    declarations: [PokeCatalog, PokemonCard, PokemonFilterPanel],
     providers: [
         provideHttpClient(),
-        // Infrastructure adapter bound to domain port
-        { provide: POKEMON_REPOSITORY, useClass: PokeApiAdapter },
-        // Domain service (internally injects the repository)
+        // Games picked in the header, honored by the adapters
+        {
+            provide: GAME_CONTEXT,
+            useFactory: () => {
+                const gameVersionService = inject(GameVersionService);
+                return computed(() => toGameContext(gameVersionService.versionGroup()));
+            }
+        },
+        // Infrastructure adapters bound to domain ports: the bundled snapshot in offline builds,
+        // otherwise PokeAPI behind the repository cache
+        ...(environment.dataSource === 'snapshot'
+            ? provideStaticDataset()
+            : provideCachedPokemonRepository(PokeApiAdapter)),
+        { provide: FAVORITES_REPOSITORY, useClass: LocalStorageFavoritesAdapter },
+        // Domain services (internally inject the repositories)
         ComparisonService,
-        { provide: POKEMON_CATALOG_SERVICE, useClass: PokemonCatalogService }
+        { provide: POKEMON_CATALOG_SERVICE, useClass: PokemonCatalogService },
+        { provide: FAVORITES_SERVICE, useClass: FavoritesService }
     ]
 })
 export class CatalogModule {}
\ No newline at end of file
@@ -1,64 +1,79 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 import { provideRouter } from '@angular/router';
-import { of } from 'rxjs';
-import { POKEMON_REPOSITORY, PokemonRepository, PokemonPage } from '@domain/src/public-api';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { NetworkError } from '@domain/src/public-api';
+import { FakePokemonData, provideFakePokemonData } from '@infra/testing/src/public-api';
 
+import { CatalogModule } from '../../catalog.module';
 import { PokeCatalog } from './poke-catalog';
 
 describe('PokeCatalog', () => {
   let component: PokeCatalog;
   let fixture: ComponentFixture<PokeCatalog>;
+  let data: FakePokemonData;
 
-  const mockPokemonPage: PokemonPage = {
-    items: [
-      { id: 1, name: 'bulbasaur', spriteUrl: 'https://example.com/1.png', types: [{ name: 'grass', slot: 1 }] },
-      { id: 2, name: 'ivysaur', spriteUrl: 'https://example.com/2.png', types: [{ name: 'grass', slot: 1 }] }
-    ],
-    totalCount: 151,
-    currentPage: 1,
-    pageSize: 20,
-    totalPages: 8
-  };
-
-  const mockPokemonRepository: Partial<PokemonRepository> = {
-    getPokemonList: () => of(mockPokemonPage)
-  };
+  const ids = () => component.pokemonList().map(pokemon => pokemon.id);
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [PokeCatalog],
+      imports: [CatalogModule],
       providers: [
         provideRouter([]),
-        { provide: POKEMON_REPOSITORY, useValue: mockPokemonRepository }
+        provideHttpClientTesting(),
+        ...provideFakePokemonData()
       ]
     })
     .compileComponents();
 
+    data = TestBed.inject(FakePokemonData);
     fixture = TestBed.createComponent(PokeCatalog);
     component = fixture.componentInstance;
     fixture.detectChanges();
     await fixture.whenStable();
   });
 
-  it('should create', () => {
-    expect(component).toBeTruthy();
+  afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
   });
 
-  it('should have initial state', () => {
+  it('should list the first page', () => {
     expect(component.currentPage()).toBe(1);
     expect(component.pageSize()).toBe(20);
-    expect(component.searchQuery()).toBe('');
+    expect(component.isLoading()).toBe(false);
+    expect(component.totalItems()).toBe(10);
+    expect(ids()).toEqual([1, 4, 7, 25, 94, 133, 143, 150, 151, 448]);
   });
 
   it('should reset to page 1 on search', () => {
-    component.currentPage.set(3);
-    component.onSearch('pikachu');
+    component.onPageChange({ page: 2, pageSize: 3 });
+    component.onSearch('pika');
+
     expect(component.currentPage()).toBe(1);
-    expect(component.searchQuery()).toBe('pikachu');
+    expect(component.searchQuery()).toBe('pika');
+    expect(ids()[0]).toBe(25);
   });
 
-  it('should update page on page change', () => {
-    component.onPageChange({ page: 2, pageSize: 20 });
+  it('should load the page asked for', () => {
+    component.onPageChange({ page: 2, pageSize: 3 });
+
     expect(component.currentPage()).toBe(2);
+    expect(ids()).toEqual([25, 94, 133]);
+  });
+
+  it('should apply advanced filters', () => {
+    component.onFilterChange({ types: ['Psychic'] });
+
+    expect(ids()).toEqual([150, 151]);
+  });
+
+  it('should show a retryable error when the list fails', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    data.failNext(new NetworkError());
+    component.onSearch('pika');
+
+    expect(component.error()).toBeTruthy();
+    expect(component.canRetry()).toBe(true);
+    expect(component.pokemonList()).toEqual([]);
   });
 });
@@ -1,11 +1,27 @@
 import { Component, ChangeDetectionStrategy, inject, signal, computed, OnInit, OnDestroy } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
 import { Router } from '@angular/router';
-import { PokemonSummary, POKEMON_CATALOG_SERVICE, PokemonFilter } from '@domain/src/public-api';
+import { PokemonSummary, POKEMON_CATALOG_SERVICE, PokemonFilter, PokemonSort, PokemonSortKey, MAX_COMPARISON_SIZE, asDomainError, GAME_CONTEXT, FAVORITES_SERVICE, FavoritesService } from '@domain/src/public-api';
 import { PageChangeEvent } from '@ui';
-import { Subject, takeUntil } from 'rxjs';
+import { Subject, skip, takeUntil } from 'rxjs';
 
 /** Maximum number of Pokemon that can be selected for comparison */
-const MAX_SELECTION = 2;
+const MAX_SELECTION = MAX_COMPARISON_SIZE;
+
+/** Sort keys offered in the sort select, with their labels */
+const SORT_OPTIONS: { key: PokemonSortKey; label: string }[] = [
+  { key: 'id', label: 'Pokédex number' },
+  { key: 'name', label: 'Name' },
+  { key: 'hp', label: 'HP' },
+  { key: 'attack', label: 'Attack' },
+  { key: 'defense', label: 'Defense' },
+  { key: 'specialAttack', label: 'Sp. Atk' },
+  { key: 'specialDefense', label: 'Sp. Def' },
+  { key: 'speed', label: 'Speed' },
+  { key: 'baseStatTotal', label: 'Base stat total' },
+  { key: 'height', label: 'Height' },
+  { key: 'weight', label: 'Weight' }
+];
 
 /**
  * Pokemon catalog component displaying a searchable, paginated list of Pokemon.
@@ -19,7 +35,9 @@ const MAX_SELECTION = 2;
  * Key features:
  * - Paginated Pokemon list with configurable page size
  * - Real-time search functionality
- * - Pokemon selection for comparison (up to 2)
+ * - Advanced filters (stat ranges, generation, legendary status, ability) in a collapsible panel
+ * - Sorting by Pokedex number, name, any base stat, base stat total, height or weight
+ * - Pokemon selection for comparison (up to 6)
  * - Navigation to Pokemon detail pages
  * - Navigation to comparison view with selected Pokemon
  * - Loading states and error handling
@@ -46,11 +64,13 @@ const MAX_SELECTION = 2;
  * @usageNotes
  * - Component is part of the catalog remote module, not standalone
  * - Uses PokemonCatalogService injected via POKEMON_CATALOG_SERVICE token
- * - Maintains selection state for up to MAX_SELECTION (2) Pokemon
- * - When third Pokemon is selected, replaces the second selection
- * - Search resets pagination to page 1
+ * - Maintains selection state for up to MAX_SELECTION (6) Pokemon
+ * - When the limit is exceeded, replaces the newest selection
+ * - Search, filter and sort changes reset pagination to page 1
+ * - Without a sort, results are in dex order, or best match first when searching
+ * - Cards render as their data arrives; a new request cancels the previous one
  * - Clicking a Pokemon card navigates to detail view
- * - Compare button appears when 2 Pokemon are selected
+ * - Compare button appears when at least 2 Pokemon are selected
  * - All subscriptions are properly cleaned up in ngOnDestroy
  * - Uses signals for reactive UI updates
  * - Computed selectedIds signal provides O(1) lookup for selection state
@@ -59,6 +79,7 @@ const MAX_SELECTION = 2;
  * @see {@link PokemonCard} for individual Pokemon display
  * @see {@link PaginatedList} for pagination controls
  * @see {@link Searchbar} for search functionality
+ * @see {@link PokemonFilterPanel} for the advanced filters
  *
  * @publicApi
  */
@@ -72,6 +93,9 @@ const MAX_SELECTION = 2;
 export class PokeCatalog implements OnInit, OnDestroy {
   /** Injected Pokemon catalog service for data operations. @internal */
   private readonly pokemonCatalogService = inject(POKEMON_CATALOG_SERVICE);
+
+  /** Injected favorites service, shared with the other remotes through its repository. @internal */
+  private readonly favoritesService = inject(FAVORITES_SERVICE) as FavoritesService;
   
   /** Angular router for navigation. @internal */
   private readonly router = inject(Router);
@@ -79,6 +103,12 @@ export class PokeCatalog implements OnInit, OnDestroy {
   /** Subject for managing subscription lifecycle. @internal */
   private readonly destroy$ = new Subject<void>();
 
+  /** Cancels the previous list request, whose pages may still be loading. @internal */
+  private readonly reload$ = new Subject<void>();
+
+  /** Games picked in the header; the adapters map types and stats for them. @internal */
+  private readonly gameContextChanges$ = toObservable(inject(GAME_CONTEXT)).pipe(skip(1));
+
   // State signals
   /** Current page number (1-indexed). */
   readonly currentPage = signal(1);
@@ -89,9 +119,49 @@ export class PokeCatalog implements OnInit, OnDestroy {
   /** Current search query string. */
   readonly searchQuery = signal('');
   
+  /** Applied advanced filter criteria (everything but the name search). */
+  readonly advancedFilter = signal<PokemonFilter>({});
+
+  /** Whether the advanced filter panel is open. */
+  readonly showFilters = signal(false);
+
+  /** Number of advanced criteria applied, shown on the filters toggle. */
+  readonly activeFilterCount = computed(() => {
+    const { stats, ...others } = this.advancedFilter();
+    return Object.keys(stats ?? {}).length +
+      Object.values(others).filter(value => value !== undefined).length;
+  });
+
+  /** Whether only the user's favorites are listed. */
+  readonly favoritesOnly = signal(false);
+
+  /** IDs of the user's favorites, kept in sync with the other remotes and tabs. */
+  readonly favoriteIds = signal<ReadonlySet<number>>(new Set());
+
+  /** Applied sort order; undefined keeps the default order. */
+  readonly sort = signal<PokemonSort | undefined>(undefined);
+
+  /** Sort keys offered in the sort select. */
+  readonly sortOptions = SORT_OPTIONS;
+
+  /** Message shown when no Pokemon are listed. */
+  readonly emptyMessage = computed(() => {
+    const error = this.error();
+    if (error) return error;
+    return this.favoritesOnly() && this.favoriteIds().size === 0
+      ? 'No favorites yet. Tap the ☆ of a Pokémon to add it.'
+      : 'No Pokémon found matching your search and filters';
+  });
+
   /** Loading state indicator. */
   readonly isLoading = signal(true);
 
+  /** Message of the last loading failure, shown instead of the list. */
+  readonly error = signal<string | null>(null);
+
+  /** Whether loading may succeed if tried again. */
+  readonly canRetry = signal(false);
+
   // Pokemon data signals
   /** List of Pokemon for the current page. */
   readonly pokemonList = signal<PokemonSummary[]>([]);
@@ -100,8 +170,11 @@ export class PokeCatalog implements OnInit, OnDestroy {
   readonly totalItems = signal(0);
 
   // Selection state
-  /** Array of currently selected Pokemon (max 2). */
+  /** Array of currently selected Pokemon (max 6). */
   readonly selectedPokemon = signal<PokemonSummary[]>([]);
+
+  /** Maximum number of Pokemon that can be compared at once. */
+  readonly maxSelection = MAX_SELECTION;
   
   /** Computed set of selected Pokemon IDs for quick lookup. */
   readonly selectedIds = computed(() => 
@@ -109,7 +182,21 @@ export class PokeCatalog implements OnInit, OnDestroy {
   );
 
   ngOnInit(): void {
+    this.favoritesService.getFavorites().pipe(takeUntil(this.destroy$)).subscribe({
+      next: (favorites) => {
+        this.favoriteIds.set(new Set(favorites));
+        // Favorites removed elsewhere leave the list
+        if (this.favoritesOnly()) {
+          this.loadPokemon();
+        }
+      },
+      error: (error) => console.error('Failed to load favorites:', error)
+    });
+
     this.loadPokemon();
+
+    // Types shown on the cards depend on the games
+    this.gameContextChanges$.pipe(takeUntil(this.destroy$)).subscribe(() => this.loadPokemon());
   }
 
   ngOnDestroy(): void {
@@ -145,6 +232,62 @@ export class PokeCatalog implements OnInit, OnDestroy {
     this.searchQuery.set(value);
   }
 
+  /** Opens or closes the advanced filter panel. */
+  toggleFilters(): void {
+    this.showFilters.update(show => !show);
+  }
+
+  /**
+   * Handles applied advanced filters, resets to first page and loads filtered results.
+   * @param filter - Advanced filter criteria from the filter panel
+   */
+  onFilterChange(filter: PokemonFilter): void {
+    this.advancedFilter.set(filter);
+    this.currentPage.set(1);
+    this.loadPokemon();
+  }
+
+  /** Lists only the favorites, or every Pokemon again; resets to first page. */
+  toggleFavoritesOnly(): void {
+    this.favoritesOnly.update(only => !only);
+    this.currentPage.set(1);
+    this.loadPokemon();
+  }
+
+  /**
+   * Adds a Pokemon to the favorites, or removes it.
+   * The list follows through the favorites subscription.
+   * @param pokemon - Pokemon whose star was clicked
+   */
+  onFavoriteToggle(pokemon: PokemonSummary): void {
+    this.favoritesService.toggleFavorite(pokemon.id).pipe(
+      takeUntil(this.destroy$)
+    ).subscribe({
+      error: (error) => console.error('Failed to save favorite:', error)
+    });
+  }
+
+  /**
+   * Handles sort key selection, resets to first page and loads sorted results.
+   * @param event - Select change event; an empty value restores the default order
+   */
+  onSortKeyChange(event: Event): void {
+    const key = (event.target as HTMLSelectElement).value as PokemonSortKey | '';
+    this.sort.set(key ? { key, direction: this.sort()?.direction ?? 'asc' } : undefined);
+    this.currentPage.set(1);
+    this.loadPokemon();
+  }
+
+  /** Flips the sort direction, resets to first page and loads sorted results. */
+  toggleSortDirection(): void {
+    const sort = this.sort();
+    if (!sort) return;
+
+    this.sort.set({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' });
+    this.currentPage.set(1);
+    this.loadPokemon();
+  }
+
   /**
    * Handles Pokemon card clicks, navigates to detail view.
    * @param pokemon - The clicked Pokemon
@@ -155,7 +298,7 @@ export class PokeCatalog implements OnInit, OnDestroy {
 
   /** 
    * Handles selection toggle from pokemon cards.
-   * Maintains maximum of 2 selections, replacing oldest when limit is reached.
+   * Maintains maximum of MAX_SELECTION selections, replacing the newest when limit is reached.
    * @param event - Selection change event with Pokemon and selected state
    */
   onSelectionChange(event: { pokemon: PokemonSummary; selected: boolean }): void {
@@ -167,7 +310,7 @@ export class PokeCatalog implements OnInit, OnDestroy {
         this.selectedPokemon.set([...current, event.pokemon]);
       } else {
         // Replace newest selection (last in array) with new one
-        this.selectedPokemon.set([current[0], event.pokemon]);
+        this.selectedPokemon.set([...current.slice(0, MAX_SELECTION - 1), event.pokemon]);
       }
     } else {
       // Remove from selection
@@ -190,39 +333,57 @@ export class PokeCatalog implements OnInit, OnDestroy {
   }
 
   /** 
-   * Navigates to comparison view with the two selected Pokemon.
-   * Only navigates if exactly 2 Pokemon are selected.
+   * Navigates to comparison view with the selected Pokemon.
+   * Two Pokemon use the head-to-head view; more use the multi-comparison view (`/compare/1,4,7`).
+   * Does nothing when fewer than 2 Pokemon are selected.
    */
   goToComparison(): void {
-    const [first, second] = this.selectedPokemon();
-    if (first && second) {
+    const selected = this.selectedPokemon();
+    if (selected.length === 2) {
+      const [first, second] = selected;
       this.router.navigate(['/compare'], {
         queryParams: {
           pokemon1: first.id,
           pokemon2: second.id
         }
       });
+    } else if (selected.length > 2) {
+      this.router.navigate(['/compare', selected.map(p => p.id).join(',')]);
     }
   }
 
+  /** Loads the current page again after a failure. */
+  retry(): void {
+    this.loadPokemon();
+  }
+
   /**
    * Loads Pokemon from the catalog service based on current filters and pagination.
    * Updates loading state and handles errors.
    * @internal
    */
   private loadPokemon(): void {
+    this.reload$.next();
     this.isLoading.set(true);
+    this.error.set(null);
+    this.canRetry.set(false);
     
-    const filter: PokemonFilter = this.searchQuery() 
-      ? { search: this.searchQuery() } 
-      : {};
+    let filter: PokemonFilter = this.searchQuery() 
+      ? { ...this.advancedFilter(), search: this.searchQuery() } 
+      : this.advancedFilter();
+    if (this.favoritesOnly()) {
+      filter = { ...filter, ids: [...this.favoriteIds()] };
+    }
 
     this.pokemonCatalogService.getPokemonList(
       { page: this.currentPage(), pageSize: this.pageSize() },
-      filter
+      filter,
+      this.sort()
     ).pipe(
+      takeUntil(this.reload$),
       takeUntil(this.destroy$)
     ).subscribe({
+      // Pages may arrive several times as their cards load
       next: (page) => {
         this.pokemonList.set(page.items);
         this.totalItems.set(page.totalCount);
@@ -230,6 +391,9 @@ export class PokeCatalog implements OnInit, OnDestroy {
       },
       error: (error) => {
         console.error('Failed to load Pokemon:', error);
+        const domainError = asDomainError(error);
+        this.error.set(domainError.message);
+        this.canRetry.set(domainError.retryable);
         this.pokemonList.set([]);
         this.totalItems.set(0);
         this.isLoading.set(false);
@@ -1,5 +1,6 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 import { PokemonSummary } from '@domain/src/public-api';
+import { Box, Center, Cluster, FavoriteToggle, Frame, Stack } from '@ui';
 
 import { PokemonCard } from './pokemon-card';
 
@@ -16,7 +17,8 @@ describe('PokemonCard', () => {
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [PokemonCard]
+      declarations: [PokemonCard],
+      imports: [Box, Center, Cluster, FavoriteToggle, Frame, Stack]
     })
     .compileComponents();
 
@@ -51,4 +53,23 @@ describe('PokemonCard', () => {
     
     expect(emittedPokemon).toEqual(mockPokemon);
   });
+
+  it('should show the favorite state on the star and emit favoriteToggle without opening the card', () => {
+    const toggled: PokemonSummary[] = [];
+    const clicked: PokemonSummary[] = [];
+    component.favoriteToggle.subscribe(p => toggled.push(p));
+    component.cardClick.subscribe(p => clicked.push(p));
+    const star = (): HTMLButtonElement => fixture.nativeElement.querySelector('.favorite-toggle');
+
+    expect(star().getAttribute('aria-pressed')).toBe('false');
+    fixture.componentRef.setInput('favorite', true);
+    fixture.detectChanges();
+    expect(star().getAttribute('aria-pressed')).toBe('true');
+    expect(star().getAttribute('aria-label')).toBe('Remove Pikachu from favorites');
+
+    star().click();
+
+    expect(toggled).toEqual([mockPokemon]);
+    expect(clicked).toEqual([]);
+  });
 });
@@ -1,5 +1,6 @@
-import { Component, ChangeDetectionStrategy, input, output } from '@angular/core';
-import { PokemonSummary } from '@domain/src/public-api';
+import { Component, ChangeDetectionStrategy, inject, input, output } from '@angular/core';
+import { PokemonNameService, PokemonSummary } from '@domain/src/public-api';
+import { LanguageService } from '@ui';
 
 /**
  * A card component for displaying Pokemon summary information.
@@ -12,9 +13,10 @@ import { PokemonSummary } from '@domain/src/public-api';
  * Key features:
  * - Displays Pokemon sprite/image
  * - Shows formatted Pokemon ID with leading zeros
- * - Displays capitalized Pokemon name
+ * - Displays the Pokemon name in the user's language
  * - Shows Pokemon types with color coding
  * - Supports selection via checkbox for comparison
+ * - Star toggle for bookmarking the Pokemon as a favorite
  * - Emits events for card clicks and selection changes
  * - Uses OnPush change detection for performance
  * - Type-based styling using CSS classes
@@ -43,6 +45,16 @@ import { PokemonSummary } from '@domain/src/public-api';
  * ```
  *
  * @example
+ * With a favorite star:
+ * ```html
+ * <pc-pokemon-card
+ *   [pokemon]="pokemon"
+ *   [favorite]="favoriteIds().has(pokemon.id)"
+ *   (favoriteToggle)="toggleFavorite($event)">
+ * </pc-pokemon-card>
+ * ```
+ *
+ * @example
  * In a grid layout:
  * ```html
  * <pc-grid min="250px" space="s-2">
@@ -62,8 +74,9 @@ import { PokemonSummary } from '@domain/src/public-api';
  * - Card click events are emitted when the card body is clicked
  * - Selection change events include both the pokemon and new selected state
  * - Checkbox click stops event propagation to prevent triggering card click
+ * - The star (pc-favorite-toggle) only emits favoriteToggle; the parent saves the favorite and updates the favorite input
  * - The formattedId getter adds leading zeros (e.g., #001, #025, #150)
- * - The displayName getter capitalizes the first letter of the name
+ * - The displayName getter follows the LanguageService language, falling back to the capitalized slug
  * - The primaryType getter returns the first type for CSS styling
  * - Component uses OnPush change detection for optimal performance
  * - Works well with PaginatedList component for catalog display
@@ -88,12 +101,21 @@ export class PokemonCard {
   /** Whether this card is currently selected for comparison. */
   selected = input<boolean>(false);
 
+  /** Whether this Pokemon is one of the user's favorites. */
+  favorite = input<boolean>(false);
+
   /** Emitted when the card body is clicked. Passes the Pokemon data. */
   cardClick = output<PokemonSummary>();
 
   /** Emitted when the selection checkbox is toggled. Includes Pokemon and new selection state. */
   selectionChange = output<{ pokemon: PokemonSummary; selected: boolean }>();
 
+  /** Emitted when the favorite star is clicked. Passes the Pokemon data. */
+  favoriteToggle = output<PokemonSummary>();
+
+  private readonly nameService = inject(PokemonNameService);
+  private readonly languageService = inject(LanguageService);
+
   /** 
    * Returns the Pokemon ID formatted with leading zeros.
    * @returns Formatted ID string (e.g., '#001', '#025', '#150')
@@ -103,12 +125,11 @@ export class PokemonCard {
   }
 
   /** 
-   * Returns the Pokemon name with first letter capitalized.
-   * @returns Capitalized Pokemon name
+   * Returns the Pokemon name in the user's language.
+   * @returns Localized name (e.g. 'Salamèche'), or the capitalized slug for alternate forms
    */
   get displayName(): string {
-    const name = this.pokemon().name;
-    return name.charAt(0).toUpperCase() + name.slice(1);
+    return this.nameService.getDisplayName(this.pokemon(), this.languageService.language());
   }
 
   /** 
@@ -140,4 +161,13 @@ export class PokemonCard {
       selected: !this.selected()
     });
   }
+
+  /**
+   * Handles favorite star clicks and emits the Pokemon data.
+   * The star stops the click itself, so the card click is not triggered.
+   * @internal
+   */
+  onFavoriteToggle(): void {
+    this.favoriteToggle.emit(this.pokemon());
+  }
 }
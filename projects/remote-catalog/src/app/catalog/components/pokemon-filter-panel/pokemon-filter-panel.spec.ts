@@ -0,0 +1,49 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { PokemonFilter } from '@domain/src/public-api';
+import { Cluster, Stack } from '@ui';
+
+import { PokemonFilterPanel } from './pokemon-filter-panel';
+
+describe('PokemonFilterPanel', () => {
+  let component: PokemonFilterPanel;
+  let fixture: ComponentFixture<PokemonFilterPanel>;
+
+  const changeEvent = (value: string) => ({ target: { value } }) as unknown as Event;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      declarations: [PokemonFilterPanel],
+      imports: [Cluster, Stack]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PokemonFilterPanel);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+    await fixture.whenStable();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should emit only the criteria that are set', () => {
+    let emitted: PokemonFilter | undefined;
+    component.filterChange.subscribe(f => emitted = f);
+
+    component.onStatChange('speed', 'min', changeEvent('100'));
+    component.onGenerationChange('max', changeEvent('4'));
+    component.onStatusChange('isLegendary', changeEvent('exclude'));
+    component.onAbilityChange(changeEvent('  '));
+    component.apply();
+
+    expect(emitted).toEqual({ stats: { speed: { min: 100 } }, generation: { max: 4 }, isLegendary: false });
+  });
+
+  it('should drop a range once both bounds are cleared', () => {
+    component.onTotalChange('min', changeEvent('500'));
+    component.onTotalChange('min', changeEvent(''));
+
+    expect(component.draft().baseStatTotal).toBeUndefined();
+  });
+});
@@ -0,0 +1,176 @@
+import { Component, ChangeDetectionStrategy, input, output, linkedSignal } from '@angular/core';
+import { NumberRange, PokemonFilter, PokemonStats } from '@domain/src/public-api';
+
+/** Legendary or mythical status choice: no constraint, only those, or none of those */
+export type StatusChoice = 'any' | 'only' | 'exclude';
+
+/** Generations selectable in the panel */
+const GENERATIONS = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+/**
+ * A panel for editing the advanced catalog filter criteria.
+ *
+ * @description
+ * The PokemonFilterPanel component edits the criteria of a PokemonFilter that go beyond
+ * the name search: per-stat ranges, base stat total range, generation range,
+ * legendary and mythical status, and ability. Edits are kept as a draft until applied,
+ * since evaluating stat criteria may require fetching many Pokemon.
+ *
+ * Key features:
+ * - Min/max inputs for each base stat and for the base stat total
+ * - Generation range selects (e.g. up to Generation IV)
+ * - Any / only / exclude choices for legendary and mythical Pokemon
+ * - Ability name input
+ * - Apply and reset actions
+ *
+ * @example
+ * ```html
+ * <pc-pokemon-filter-panel
+ *   [filter]="advancedFilter()"
+ *   (filterChange)="onFilterChange($event)">
+ * </pc-pokemon-filter-panel>
+ * ```
+ *
+ * @usageNotes
+ * - Component is part of the catalog remote module, not standalone
+ * - The draft is reset whenever the `filter` input changes
+ * - Emitted filters only contain the criteria that are set; the name search is left to the caller
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'pc-pokemon-filter-panel',
+  standalone: false,
+  templateUrl: './pokemon-filter-panel.html',
+  styleUrl: './pokemon-filter-panel.css',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PokemonFilterPanel {
+  /** Currently applied criteria. */
+  filter = input<PokemonFilter>({});
+
+  /** Emitted when criteria are applied or reset. */
+  filterChange = output<PokemonFilter>();
+
+  /** Criteria being edited, not applied yet. */
+  readonly draft = linkedSignal(() => this.filter());
+
+  /** Stats in display order. */
+  readonly statKeys: (keyof PokemonStats)[] = ['hp', 'attack', 'defense', 'specialAttack', 'specialDefense', 'speed'];
+
+  /** Display labels for each stat. */
+  readonly statLabels: Record<keyof PokemonStats, string> = {
+    hp: 'HP',
+    attack: 'Attack',
+    defense: 'Defense',
+    specialAttack: 'Sp. Atk',
+    specialDefense: 'Sp. Def',
+    speed: 'Speed'
+  };
+
+  /** Selectable generations. */
+  readonly generations = GENERATIONS;
+
+  /**
+   * Updates one bound of a stat range.
+   * @param stat - Stat to constrain
+   * @param bound - 'min' or 'max'
+   * @param event - Input change event; an empty input removes the bound
+   */
+  onStatChange(stat: keyof PokemonStats, bound: keyof NumberRange, event: Event): void {
+    const value = this.parseNumber(event);
+    this.draft.update(filter => {
+      const stats = { ...filter.stats, [stat]: withBound(filter.stats?.[stat], bound, value) };
+      if (!stats[stat]) delete stats[stat];
+      return { ...filter, stats: Object.keys(stats).length > 0 ? stats : undefined };
+    });
+  }
+
+  /**
+   * Updates one bound of the base stat total range.
+   * @param bound - 'min' or 'max'
+   * @param event - Input change event; an empty input removes the bound
+   */
+  onTotalChange(bound: keyof NumberRange, event: Event): void {
+    const value = this.parseNumber(event);
+    this.draft.update(filter => ({ ...filter, baseStatTotal: withBound(filter.baseStatTotal, bound, value) }));
+  }
+
+  /**
+   * Updates one bound of the generation range.
+   * @param bound - 'min' or 'max'
+   * @param event - Select change event; an empty value removes the bound
+   */
+  onGenerationChange(bound: keyof NumberRange, event: Event): void {
+    const value = this.parseNumber(event);
+    this.draft.update(filter => ({ ...filter, generation: withBound(filter.generation, bound, value) }));
+  }
+
+  /**
+   * Updates the legendary or mythical criterion.
+   * @param flag - 'isLegendary' or 'isMythical'
+   * @param event - Select change event with a StatusChoice value
+   */
+  onStatusChange(flag: 'isLegendary' | 'isMythical', event: Event): void {
+    const choice = (event.target as HTMLSelectElement).value as StatusChoice;
+    this.draft.update(filter => ({ ...filter, [flag]: choice === 'any' ? undefined : choice === 'only' }));
+  }
+
+  /**
+   * Updates the ability criterion.
+   * @param event - Input change event; an empty input removes the criterion
+   */
+  onAbilityChange(event: Event): void {
+    const ability = (event.target as HTMLInputElement).value.trim();
+    this.draft.update(filter => ({ ...filter, ability: ability || undefined }));
+  }
+
+  /**
+   * Returns the status choice matching a legendary or mythical criterion.
+   * @param flag - 'isLegendary' or 'isMythical'
+   */
+  statusOf(flag: 'isLegendary' | 'isMythical'): StatusChoice {
+    const value = this.draft()[flag];
+    return value === undefined ? 'any' : value ? 'only' : 'exclude';
+  }
+
+  /**
+   * Formats a generation number for display.
+   * @param generation - Generation number
+   * @returns Roman numeral label (e.g. 'Gen IV')
+   */
+  formatGeneration(generation: number): string {
+    const numerals = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX'];
+    return `Gen ${numerals[generation - 1] ?? generation}`;
+  }
+
+  /** Emits the draft, without the criteria left empty. */
+  apply(): void {
+    const filter = Object.fromEntries(
+      Object.entries(this.draft()).filter(([, value]) => value !== undefined)
+    ) as PokemonFilter;
+    this.filterChange.emit(filter);
+  }
+
+  /** Clears every criterion and emits the empty filter. */
+  reset(): void {
+    this.draft.set({});
+    this.filterChange.emit({});
+  }
+
+  /** @internal */
+  private parseNumber(event: Event): number | undefined {
+    const value = (event.target as HTMLInputElement | HTMLSelectElement).value;
+    return value === '' || isNaN(Number(value)) ? undefined : Number(value);
+  }
+}
+
+/**
+ * Returns a range with one bound replaced, or undefined when no bound is left
+ */
+function withBound(range: NumberRange | undefined, bound: keyof NumberRange, value: number | undefined): NumberRange | undefined {
+  const updated = { ...range, [bound]: value };
+  if (updated.min === undefined) delete updated.min;
+  if (updated.max === undefined) delete updated.max;
+  return Object.keys(updated).length > 0 ? updated : undefined;
+}
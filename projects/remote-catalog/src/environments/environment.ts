@@ -0,0 +1,8 @@
+/**
+ * Environment configuration for the Pokemon data source
+ * This file is replaced during build for different environments
+ */
+export const environment = {
+  // Live PokeAPI; 'snapshot' reads the bundled offline snapshot instead
+  dataSource: 'pokeapi' as 'pokeapi' | 'snapshot'
+};
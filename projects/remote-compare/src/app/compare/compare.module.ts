@@ -1,17 +1,36 @@
-import { NgModule } from "@angular/core";
+import { NgModule, computed, inject } from "@angular/core";
 import { CommonModule } from "@angular/common";
 import { PokeCompare } from "./components/poke-compare/poke-compare";
+import { PokeCompareMany } from "./components/poke-compare-many/poke-compare-many";
+import { PokeCompareHeader } from "./components/poke-compare-header/poke-compare-header";
+import { PokeCompareStrategy } from "./components/poke-compare-strategy/poke-compare-strategy";
+import { PokeCompareAbilities } from "./components/poke-compare-abilities/poke-compare-abilities";
+import { TypeBadge } from "./components/type-badge/type-badge";
 import { RouterModule } from "@angular/router";
 import { provideHttpClient } from "@angular/common/http";
 import { COMPARE_ROUTES } from "./compare.routes";
 import { 
-    POKEMON_DETAIL_REPOSITORY, 
     POKEMON_DETAIL_SERVICE, 
     PokemonDetailService,
-    ComparisonService 
+    ComparisonService,
+    STAT_CALCULATOR_SERVICE,
+    StatCalculatorService,
+    COMPARISON_STRATEGIES,
+    DEFAULT_COMPARISON_STRATEGIES,
+    SPECIES_REPOSITORY,
+    SPECIES_SERVICE,
+    SpeciesService,
+    GAME_CONTEXT,
+    toGameContext
 } from "@domain/src/public-api";
-import { PokeApiDetailAdapter } from "@infra/src/public-api";
-import { Box, Center, Cluster, Container, Stack, Frame } from "@ui";
+import {
+    PokeApiDetailAdapter,
+    PokeApiSpeciesAdapter,
+    provideCachedPokemonDetailRepository,
+    provideStaticDataset
+} from "@infra/src/public-api";
+import { Box, Center, Cluster, Container, Stack, Frame, GameVersionService } from "@ui";
+import { environment } from "../../environments/environment";
 
 @NgModule({
     imports: [
@@ -24,14 +43,39 @@ import { Box, Center, Cluster, Container, Stack, Frame } from "@ui";
         Stack,
         Frame
     ],
-    declarations: [PokeCompare],
+    declarations: [
+        PokeCompare,
+        PokeCompareMany,
+        PokeCompareHeader,
+        PokeCompareStrategy,
+        PokeCompareAbilities,
+        TypeBadge
+    ],
     providers: [
         provideHttpClient(),
-        // Infrastructure adapter bound to domain port
-        { provide: POKEMON_DETAIL_REPOSITORY, useClass: PokeApiDetailAdapter },
+        // Games picked in the header, honored by the adapters
+        {
+            provide: GAME_CONTEXT,
+            useFactory: () => {
+                const gameVersionService = inject(GameVersionService);
+                return computed(() => toGameContext(gameVersionService.versionGroup()));
+            }
+        },
+        // Infrastructure adapters bound to domain ports: the bundled snapshot in offline builds,
+        // otherwise PokeAPI behind the repository cache
+        ...(environment.dataSource === 'snapshot'
+            ? provideStaticDataset()
+            : [
+                ...provideCachedPokemonDetailRepository(PokeApiDetailAdapter),
+                { provide: SPECIES_REPOSITORY, useClass: PokeApiSpeciesAdapter }
+            ]),
+        // Scoring strategies offered by the comparison view
+        { provide: COMPARISON_STRATEGIES, useValue: DEFAULT_COMPARISON_STRATEGIES },
         // Domain services (internally inject the repositories)
         ComparisonService,
-        { provide: POKEMON_DETAIL_SERVICE, useClass: PokemonDetailService }
+        { provide: POKEMON_DETAIL_SERVICE, useClass: PokemonDetailService },
+        { provide: STAT_CALCULATOR_SERVICE, useClass: StatCalculatorService },
+        { provide: SPECIES_SERVICE, useClass: SpeciesService }
     ]
 })
 export class CompareModule {}
\ No newline at end of file
@@ -1,9 +1,14 @@
 import { Routes } from "@angular/router";
 import { PokeCompare } from "./components/poke-compare/poke-compare";
+import { PokeCompareMany } from "./components/poke-compare-many/poke-compare-many";
 
 export const COMPARE_ROUTES: Routes = [
     {
         path: '',
         component: PokeCompare
-    }  
+    },
+    {
+        path: ':ids',
+        component: PokeCompareMany
+    }
 ];
\ No newline at end of file
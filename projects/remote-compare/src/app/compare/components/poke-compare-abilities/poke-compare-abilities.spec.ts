@@ -0,0 +1,32 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { CommonModule } from '@angular/common';
+import { POKEMON_FIXTURES } from '@infra/testing/src/public-api';
+
+import { PokeCompareAbilities } from './poke-compare-abilities';
+
+describe('PokeCompareAbilities', () => {
+  let fixture: ComponentFixture<PokeCompareAbilities>;
+
+  const find = (name: string) => POKEMON_FIXTURES.find(pokemon => pokemon.name === name);
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      declarations: [PokeCompareAbilities],
+      imports: [CommonModule]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PokeCompareAbilities);
+    fixture.componentRef.setInput('pokemon1', find('pikachu'));
+    fixture.componentRef.setInput('pokemon2', find('mewtwo'));
+    fixture.detectChanges();
+  });
+
+  it('should list the abilities of each Pokemon, marking the hidden ones', () => {
+    const lists: HTMLElement[] = [...fixture.nativeElement.querySelectorAll('.abilities-list')];
+    const badges = (list: HTMLElement) => [...list.querySelectorAll('.ability-badge')].map(badge => badge.textContent?.trim());
+
+    expect(badges(lists[0])).toEqual(['Static', 'Lightning rod (Hidden)']);
+    expect(badges(lists[1])).toEqual(['Pressure', 'Unnerve (Hidden)']);
+  });
+});
@@ -0,0 +1,41 @@
+import { Component, ChangeDetectionStrategy, input } from '@angular/core';
+import { PokemonDetail } from '@domain/src/public-api';
+
+/**
+ * The abilities of two compared Pokemon, side by side.
+ *
+ * @example
+ * ```html
+ * <pc-poke-compare-abilities
+ *   [pokemon1]="comparison()!.pokemon1"
+ *   [pokemon2]="comparison()!.pokemon2"
+ * ></pc-poke-compare-abilities>
+ * ```
+ *
+ * @usageNotes
+ * - Component is part of the compare remote module, not standalone
+ * - Hidden abilities are marked as such
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'pc-poke-compare-abilities',
+  standalone: false,
+  templateUrl: './poke-compare-abilities.html',
+  styleUrl: './poke-compare-abilities.css',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PokeCompareAbilities {
+  /** Pokemon shown on the left. */
+  pokemon1 = input.required<PokemonDetail>();
+  /** Pokemon shown on the right. */
+  pokemon2 = input.required<PokemonDetail>();
+
+  /**
+   * Formats an ability name for display (e.g. 'lightning-rod' -> 'Lightning rod')
+   */
+  formatAbility(name: string): string {
+    const label = name.replace('-', ' ');
+    return label.charAt(0).toUpperCase() + label.slice(1);
+  }
+}
@@ -0,0 +1,53 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { Router, provideRouter } from '@angular/router';
+import { POKEMON_FIXTURES } from '@infra/testing/src/public-api';
+import { Box, Cluster, Frame, Stack } from '@ui';
+
+import { TypeBadge } from '../type-badge/type-badge';
+import { PokeCompareHeader } from './poke-compare-header';
+
+describe('PokeCompareHeader', () => {
+  let component: PokeCompareHeader;
+  let fixture: ComponentFixture<PokeCompareHeader>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      declarations: [PokeCompareHeader, TypeBadge],
+      imports: [Box, Cluster, Frame, Stack],
+      providers: [provideRouter([])]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PokeCompareHeader);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('pokemon', POKEMON_FIXTURES.find(pokemon => pokemon.name === 'pikachu'));
+    fixture.detectChanges();
+  });
+
+  it('should open the detail page of the Pokemon', () => {
+    const navigate = vi.spyOn(TestBed.inject(Router), 'navigate').mockResolvedValue(true);
+    const element: HTMLElement = fixture.nativeElement;
+
+    element.querySelector<HTMLButtonElement>('.pokemon-header')!.click();
+
+    expect(navigate).toHaveBeenCalledWith(['/detail', 25]);
+    expect(element.querySelector('.winner-badge')).toBeNull();
+    expect(element.querySelector('select')).toBeNull();
+  });
+
+  it('should offer the other forms of the species', () => {
+    const picked: number[] = [];
+    component.formChange.subscribe(pokemonId => picked.push(pokemonId));
+    fixture.componentRef.setInput('forms', [
+      { pokemonId: 25, name: 'pikachu', isDefault: true, kind: 'default', label: 'Pikachu' },
+      { pokemonId: 10099, name: 'pikachu-alola-cap', isDefault: false, kind: 'other', label: 'Alola Cap' }
+    ]);
+    fixture.detectChanges();
+
+    const select: HTMLSelectElement = fixture.nativeElement.querySelector('select');
+    select.value = '10099';
+    select.dispatchEvent(new Event('change'));
+
+    expect(picked).toEqual([10099]);
+  });
+});
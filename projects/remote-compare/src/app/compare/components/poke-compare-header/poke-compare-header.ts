@@ -0,0 +1,59 @@
+import { Component, ChangeDetectionStrategy, inject, input, output } from '@angular/core';
+import { Router } from '@angular/router';
+import { PokemonDetail, PokemonForm } from '@domain/src/public-api';
+
+/**
+ * One side of a comparison: the artwork, name and types of a Pokemon, linking to its detail page.
+ *
+ * @description
+ * The PokeCompareHeader component presents a compared Pokemon, crowns it when it wins the
+ * matchup, and offers the other forms of its species (e.g. Alolan, Mega) when there are any.
+ *
+ * @example
+ * ```html
+ * <pc-poke-compare-header
+ *   [pokemon]="comparison()!.pokemon1"
+ *   [isWinner]="comparison()!.overallWinner === 'pokemon1'"
+ *   [forms]="forms1()"
+ *   (formChange)="onFormChange('pokemon1', $event)"
+ * ></pc-poke-compare-header>
+ * ```
+ *
+ * @usageNotes
+ * - Component is part of the compare remote module, not standalone
+ * - The form picker only shows when the species has more than one form
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'pc-poke-compare-header',
+  standalone: false,
+  templateUrl: './poke-compare-header.html',
+  styleUrl: './poke-compare-header.css',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PokeCompareHeader {
+  private readonly router = inject(Router);
+
+  /** Compared Pokemon. */
+  pokemon = input.required<PokemonDetail>();
+  /** Whether this Pokemon wins the matchup. */
+  isWinner = input(false);
+  /** Forms of the Pokemon's species. */
+  forms = input<PokemonForm[]>([]);
+
+  /** Emits the Pokemon ID of the picked form. */
+  formChange = output<number>();
+
+  onFormChange(event: Event): void {
+    this.formChange.emit(Number((event.target as HTMLSelectElement).value));
+  }
+
+  goToDetail(): void {
+    this.router.navigate(['/detail', this.pokemon().id]);
+  }
+
+  formatName(name: string): string {
+    return name.charAt(0).toUpperCase() + name.slice(1);
+  }
+}
@@ -0,0 +1,76 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ActivatedRoute, provideRouter } from '@angular/router';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { of } from 'rxjs';
+import { provideFakePokemonData } from '@infra/testing/src/public-api';
+
+import { CompareModule } from '../../compare.module';
+import { PokeCompareMany } from './poke-compare-many';
+
+describe('PokeCompareMany', () => {
+  let component: PokeCompareMany;
+  let fixture: ComponentFixture<PokeCompareMany>;
+
+  /** Opens the comparison page with the given comma-separated IDs; species requests are left unanswered */
+  const open = async (ids: string) => {
+    await TestBed.configureTestingModule({
+      imports: [CompareModule],
+      providers: [
+        provideRouter([]),
+        provideHttpClientTesting(),
+        ...provideFakePokemonData(),
+        { provide: ActivatedRoute, useValue: { params: of({ ids }), snapshot: { params: { ids } } } }
+      ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PokeCompareMany);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+    await fixture.whenStable();
+  };
+
+  const names = () => component.comparison()?.entries.map(pokemon => pokemon.name);
+
+  it('should compare the Pokemon of the route, dropping invalid and duplicate IDs', async () => {
+    await open('25, 143,25,abc,0,-7');
+
+    expect(component.isLoading()).toBe(false);
+    expect(component.error()).toBeNull();
+    expect(names()).toEqual(['pikachu', 'snorlax']);
+    expect(component.statsArray().length).toBe(7);
+  });
+
+  it('should rank each stat, sharing the first place on ties', async () => {
+    await open('25,143,150');
+    const { speed, attack } = component.comparison()!.stats;
+
+    expect(names()).toEqual(['pikachu', 'snorlax', 'mewtwo']);
+    expect([0, 1, 2].map(index => component.getRank(speed, index))).toEqual([2, 3, 1]);
+    expect([0, 1, 2].map(index => component.getRankClass(speed, index)))
+      .toEqual(['', 'stat-value--loser', 'stat-value--winner']);
+    expect([0, 1, 2].map(index => component.getRankClass(attack, index)))
+      .toEqual(['stat-value--loser', 'stat-value--tie', 'stat-value--tie']);
+  });
+
+  it('should compare up to 6 Pokemon', async () => {
+    await open('1,4,7,25,94,133');
+
+    expect(names()?.length).toBe(6);
+  });
+
+  it('should refuse more than 6 Pokemon without offering a retry', async () => {
+    await open('1,4,7,25,94,133,143');
+
+    expect(component.error()).toBe('Please select between 2 and 6 Pokémon to compare');
+    expect(component.canRetry()).toBe(false);
+    expect(component.comparison()).toBeNull();
+  });
+
+  it('should refuse a single Pokemon once duplicates are dropped', async () => {
+    await open('25,25');
+
+    expect(component.error()).toBe('Please select between 2 and 6 Pokémon to compare');
+    expect(component.isLoading()).toBe(false);
+  });
+});
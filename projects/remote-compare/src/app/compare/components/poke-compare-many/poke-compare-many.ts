@@ -0,0 +1,163 @@
+import { Component, inject, signal, computed, OnInit, OnDestroy, ChangeDetectionStrategy } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Subject, skip, takeUntil } from 'rxjs';
+import {
+  POKEMON_DETAIL_SERVICE,
+  PokemonDetailService,
+  MultiPokemonComparison,
+  MultiStatComparison,
+  MIN_COMPARISON_SIZE,
+  MAX_COMPARISON_SIZE,
+  asDomainError,
+  GAME_CONTEXT
+} from '@domain/src/public-api';
+import { NavigationService } from '@ui';
+
+/**
+ * Side-by-side comparison of 2 to 6 Pokemon.
+ * Reached through `/compare/:ids` where ids is a comma-separated list (e.g. `/compare/1,4,7`).
+ */
+@Component({
+  selector: 'pc-poke-compare-many',
+  standalone: false,
+  templateUrl: './poke-compare-many.html',
+  styleUrl: './poke-compare-many.css',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PokeCompareMany implements OnInit, OnDestroy {
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly pokemonDetailService = inject(POKEMON_DETAIL_SERVICE) as PokemonDetailService;
+  private readonly navigationService = inject(NavigationService);
+  private readonly destroy$ = new Subject<void>();
+
+  /** Games picked in the header; the adapters map types and stats for them. @internal */
+  private readonly gameContextChanges$ = toObservable(inject(GAME_CONTEXT)).pipe(skip(1));
+
+  readonly comparison = signal<MultiPokemonComparison | null>(null);
+  readonly isLoading = signal(true);
+  readonly error = signal<string | null>(null);
+  /** Whether loading may succeed if tried again (e.g. network failure, but not a missing Pokemon) */
+  readonly canRetry = signal(false);
+
+  readonly statsArray = computed<MultiStatComparison[]>(() => {
+    const c = this.comparison();
+    if (!c) return [];
+    return [
+      c.stats.hp,
+      c.stats.attack,
+      c.stats.defense,
+      c.stats.specialAttack,
+      c.stats.specialDefense,
+      c.stats.speed,
+      c.stats.total
+    ];
+  });
+
+  ngOnInit(): void {
+    this.navigationService.setBackLink('Back to Catalog', () => this.goToCatalog());
+
+    this.route.params.pipe(takeUntil(this.destroy$)).subscribe(params => {
+      const ids = this.parseIds(params['ids']);
+
+      if (ids.length >= MIN_COMPARISON_SIZE && ids.length <= MAX_COMPARISON_SIZE) {
+        this.loadComparison(ids);
+      } else {
+        this.error.set(`Please select between ${MIN_COMPARISON_SIZE} and ${MAX_COMPARISON_SIZE} Pokémon to compare`);
+        this.canRetry.set(false);
+        this.isLoading.set(false);
+      }
+    });
+
+    // Types and stats depend on the games; invalid selections have nothing to reload
+    this.gameContextChanges$.pipe(takeUntil(this.destroy$)).subscribe(() => {
+      if (this.comparison()) this.retry();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.navigationService.clearBreadcrumbs();
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /** Loads the comparison again after a failure. */
+  retry(): void {
+    this.loadComparison(this.parseIds(this.route.snapshot.params['ids']));
+  }
+
+  private loadComparison(ids: number[]): void {
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    this.pokemonDetailService.compareMany(ids)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (result) => {
+          this.comparison.set(result);
+          this.isLoading.set(false);
+        },
+        error: (err) => {
+          console.error('Failed to load comparison:', err);
+          const error = asDomainError(err);
+          this.error.set(error.message);
+          this.canRetry.set(error.retryable);
+          this.isLoading.set(false);
+        }
+      });
+  }
+
+  /**
+   * Parses a comma-separated id list, dropping invalid and duplicate ids
+   */
+  private parseIds(value: string | undefined): number[] {
+    const ids = (value ?? '')
+      .split(',')
+      .map(id => Number(id.trim()))
+      .filter(id => Number.isInteger(id) && id > 0);
+    return [...new Set(ids)];
+  }
+
+  goToCatalog(): void {
+    this.router.navigate(['/catalog']);
+  }
+
+  goToDetail(pokemonId: number): void {
+    this.router.navigate(['/detail', pokemonId]);
+  }
+
+  formatName(name: string): string {
+    return name.charAt(0).toUpperCase() + name.slice(1);
+  }
+
+  formatHeight(decimeters: number): string {
+    return `${(decimeters / 10).toFixed(1)} m`;
+  }
+
+  formatWeight(hectograms: number): string {
+    return `${(hectograms / 10).toFixed(1)} kg`;
+  }
+
+  formatMultiplier(multiplier: number): string {
+    const labels: Record<number, string> = { 0.25: '¼', 0.5: '½' };
+    return `×${labels[multiplier] ?? multiplier}`;
+  }
+
+  getRank(stat: MultiStatComparison, index: number): number {
+    return stat.rankings.find(r => r.index === index)?.rank ?? 0;
+  }
+
+  getRankClass(stat: MultiStatComparison, index: number): string {
+    const rank = this.getRank(stat, index);
+    if (rank === 1) return stat.isTie ? 'stat-value--tie' : 'stat-value--winner';
+    if (rank === stat.values.length) return 'stat-value--loser';
+    return '';
+  }
+
+  getMultiplierClass(multiplier: number): string {
+    if (multiplier > 1) return 'matchup--strong';
+    if (multiplier < 1) return 'matchup--weak';
+    return '';
+  }
+}
@@ -0,0 +1,57 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import {
+  COMPARISON_STRATEGIES,
+  ComparisonService,
+  DEFAULT_COMPARISON_STRATEGIES,
+  DEFAULT_STAT_WEIGHTS,
+  StatWeights
+} from '@domain/src/public-api';
+import { Cluster, Stack } from '@ui';
+
+import { PokeCompareStrategy } from './poke-compare-strategy';
+
+describe('PokeCompareStrategy', () => {
+  let component: PokeCompareStrategy;
+  let fixture: ComponentFixture<PokeCompareStrategy>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      declarations: [PokeCompareStrategy],
+      imports: [Cluster, Stack],
+      providers: [
+        ComparisonService,
+        { provide: COMPARISON_STRATEGIES, useValue: DEFAULT_COMPARISON_STRATEGIES }
+      ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PokeCompareStrategy);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('strategyId', component.strategies[0].id);
+    fixture.componentRef.setInput('weights', { ...DEFAULT_STAT_WEIGHTS });
+    fixture.detectChanges();
+  });
+
+  it('should describe the picked strategy and only show the weights of the weighted one', () => {
+    const element: HTMLElement = fixture.nativeElement;
+
+    expect(component.description()).toBe(component.strategies[0].description);
+    expect(element.querySelector('.weight-input')).toBeNull();
+
+    fixture.componentRef.setInput('strategyId', 'weighted');
+    fixture.detectChanges();
+
+    expect(element.querySelectorAll('.weight-input').length).toBe(6);
+  });
+
+  it('should emit the weights with the changed one, counting invalid values as 0', () => {
+    const emitted: StatWeights[] = [];
+    component.weightsChange.subscribe(weights => emitted.push(weights));
+
+    component.onWeightChange('speed', { target: { value: '3' } } as unknown as Event);
+    component.onWeightChange('attack', { target: { value: '-1' } } as unknown as Event);
+
+    expect(emitted[0]).toEqual({ ...DEFAULT_STAT_WEIGHTS, speed: 3 });
+    expect(emitted[1]).toEqual({ ...DEFAULT_STAT_WEIGHTS, attack: 0 });
+  });
+});
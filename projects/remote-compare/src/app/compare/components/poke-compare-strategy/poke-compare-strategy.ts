@@ -0,0 +1,60 @@
+import { Component, ChangeDetectionStrategy, inject, input, output, computed } from '@angular/core';
+import { ComparisonService, StatWeights } from '@domain/src/public-api';
+
+/**
+ * A picker for the strategy deciding the winner of a comparison, with the weights of the weighted strategy.
+ *
+ * @example
+ * ```html
+ * <pc-poke-compare-strategy
+ *   [strategyId]="selectedStrategyId()"
+ *   [weights]="weights()"
+ *   (strategyChange)="onStrategyChange($event)"
+ *   (weightsChange)="onWeightsChange($event)"
+ * ></pc-poke-compare-strategy>
+ * ```
+ *
+ * @usageNotes
+ * - Component is part of the compare remote module, not standalone
+ * - The strategies are those of the ComparisonService
+ * - Weights that are not a number or are negative count as 0
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'pc-poke-compare-strategy',
+  standalone: false,
+  templateUrl: './poke-compare-strategy.html',
+  styleUrl: './poke-compare-strategy.css',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PokeCompareStrategy {
+  private readonly comparisonService = inject(ComparisonService);
+
+  /** Picked strategy. */
+  strategyId = input.required<string>();
+  /** Weights of the weighted strategy. */
+  weights = input.required<StatWeights>();
+
+  /** Emits the ID of the picked strategy. */
+  strategyChange = output<string>();
+  /** Emits the weights once one of them is changed. */
+  weightsChange = output<StatWeights>();
+
+  readonly strategies = this.comparisonService.getStrategies();
+  readonly description = computed(() => this.comparisonService.getStrategy(this.strategyId())?.description ?? '');
+  readonly weightLabels: Record<keyof StatWeights, string> = {
+    hp: 'HP',
+    attack: 'Attack',
+    defense: 'Defense',
+    specialAttack: 'Sp. Attack',
+    specialDefense: 'Sp. Defense',
+    speed: 'Speed'
+  };
+  readonly weightKeys = Object.keys(this.weightLabels) as (keyof StatWeights)[];
+
+  onWeightChange(stat: keyof StatWeights, event: Event): void {
+    const value = Number((event.target as HTMLInputElement).value);
+    this.weightsChange.emit({ ...this.weights(), [stat]: Number.isFinite(value) && value >= 0 ? value : 0 });
+  }
+}
@@ -1,23 +1,66 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ActivatedRoute, Params, provideRouter } from '@angular/router';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { of } from 'rxjs';
+import { NetworkError } from '@domain/src/public-api';
+import { FakePokemonData, provideFakePokemonData } from '@infra/testing/src/public-api';
 
+import { CompareModule } from '../../compare.module';
 import { PokeCompare } from './poke-compare';
 
 describe('PokeCompare', () => {
   let component: PokeCompare;
   let fixture: ComponentFixture<PokeCompare>;
 
-  beforeEach(async () => {
+  /** Opens the comparison page with the given query parameters; species requests are left unanswered */
+  const open = async (queryParams: Params, configure?: (data: FakePokemonData) => void) => {
     await TestBed.configureTestingModule({
-      imports: [PokeCompare]
+      imports: [CompareModule],
+      providers: [
+        provideRouter([]),
+        provideHttpClientTesting(),
+        ...provideFakePokemonData(),
+        { provide: ActivatedRoute, useValue: { queryParams: of(queryParams), snapshot: { queryParams } } }
+      ]
     })
     .compileComponents();
 
+    configure?.(TestBed.inject(FakePokemonData));
     fixture = TestBed.createComponent(PokeCompare);
     component = fixture.componentInstance;
+    fixture.detectChanges();
     await fixture.whenStable();
+  };
+
+  afterEach(() => vi.restoreAllMocks());
+
+  it('should compare the Pokemon of the query parameters', async () => {
+    await open({ pokemon1: '25', pokemon2: '143' });
+    const comparison = component.comparison();
+
+    expect(component.isLoading()).toBe(false);
+    expect(comparison?.pokemon1.name).toBe('pikachu');
+    expect(comparison?.pokemon2.name).toBe('snorlax');
+    expect(comparison?.stats.speed.winner).toBe('pokemon1');
+    expect(comparison?.stats.hp.winner).toBe('pokemon2');
+  });
+
+  it('should ask for two Pokemon', async () => {
+    await open({ pokemon1: '25' });
+
+    expect(component.error()).toBe('Please select two Pokémon to compare');
+    expect(component.canRetry()).toBe(false);
   });
 
-  it('should create', () => {
-    expect(component).toBeTruthy();
+  it('should show a retryable error, then the comparison on retry', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await open({ pokemon1: '25', pokemon2: '143' }, data => data.failNext(new NetworkError()));
+
+    expect(component.canRetry()).toBe(true);
+    expect(component.comparison()).toBeNull();
+
+    component.retry();
+    expect(component.error()).toBeNull();
+    expect(component.comparison()?.pokemon2.name).toBe('snorlax');
   });
 });
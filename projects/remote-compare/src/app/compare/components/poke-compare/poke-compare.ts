@@ -1,11 +1,24 @@
-import { Component, inject, signal, OnInit, OnDestroy, ChangeDetectionStrategy } from '@angular/core';
+import { Component, inject, signal, OnInit, OnDestroy, ChangeDetectionStrategy, WritableSignal } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
 import { ActivatedRoute, Router } from '@angular/router';
-import { Subject, takeUntil } from 'rxjs';
+import { Subject, skip, takeUntil } from 'rxjs';
 import { 
   POKEMON_DETAIL_SERVICE, 
   PokemonDetailService,
   PokemonComparison,
-  StatComparison
+  GAME_CONTEXT,
+  PokemonDetail,
+  StatComparison,
+  ComparisonService,
+  STAT_CALCULATOR_SERVICE,
+  StatCalculatorService,
+  ComparisonStrategyResult,
+  StatWeights,
+  DEFAULT_STAT_WEIGHTS,
+  PokemonForm,
+  SPECIES_SERVICE,
+  SpeciesService,
+  asDomainError
 } from '@domain/src/public-api';
 import { NavigationService } from '@ui';
 
@@ -20,16 +33,42 @@ export class PokeCompare implements OnInit, OnDestroy {
   private readonly route = inject(ActivatedRoute);
   private readonly router = inject(Router);
   private readonly pokemonDetailService = inject(POKEMON_DETAIL_SERVICE) as PokemonDetailService;
+  private readonly comparisonService = inject(ComparisonService);
+  private readonly statCalculatorService = inject(STAT_CALCULATOR_SERVICE) as StatCalculatorService;
+  private readonly speciesService = inject(SPECIES_SERVICE) as SpeciesService;
   private readonly navigationService = inject(NavigationService);
   private readonly destroy$ = new Subject<void>();
 
+  /** Games picked in the header; the adapters map types and stats for them. @internal */
+  private readonly gameContextChanges$ = toObservable(inject(GAME_CONTEXT)).pipe(skip(1));
+
+  /** Comparison of the base stats, as returned by the domain service */
+  private baseComparison: PokemonComparison | null = null;
+
   readonly comparison = signal<PokemonComparison | null>(null);
   readonly isLoading = signal(true);
   readonly error = signal<string | null>(null);
+  /** Whether loading may succeed if tried again (e.g. network failure, but not a missing Pokemon) */
+  readonly canRetry = signal(false);
+
+  // Forms of each compared species, to compare a specific form (e.g. Alolan, Mega)
+  readonly forms1 = signal<PokemonForm[]>([]);
+  readonly forms2 = signal<PokemonForm[]>([]);
 
   // Helper to get stats as array for iteration
   readonly statsArray = signal<StatComparison[]>([]);
 
+  // Level at which actual stats are compared (null = base stats)
+  readonly statLevel = signal<number | null>(null);
+  readonly levelOptions = [50, 100];
+
+  // Strategy deciding the overall winner, and how every strategy scored the matchup
+  readonly selectedStrategyId = signal(this.comparisonService.getStrategies()[0].id);
+  readonly strategyResults = signal<ComparisonStrategyResult[]>([]);
+
+  // User weights for the weighted strategy
+  readonly weights = signal<StatWeights>({ ...DEFAULT_STAT_WEIGHTS });
+
   ngOnInit(): void {
     // Set up the back link in the header
     this.navigationService.setBackLink('Back to Catalog', () => this.goToCatalog());
@@ -42,9 +81,13 @@ export class PokeCompare implements OnInit, OnDestroy {
         this.loadComparison(+id1, +id2);
       } else {
         this.error.set('Please select two Pokémon to compare');
+        this.canRetry.set(false);
         this.isLoading.set(false);
       }
     });
+
+    // Types and stats depend on the games
+    this.gameContextChanges$.pipe(takeUntil(this.destroy$)).subscribe(() => this.retry());
   }
 
   ngOnDestroy(): void {
@@ -54,6 +97,14 @@ export class PokeCompare implements OnInit, OnDestroy {
     this.destroy$.complete();
   }
 
+  /** Loads the comparison again after a failure. */
+  retry(): void {
+    const { pokemon1, pokemon2 } = this.route.snapshot.queryParams;
+    if (pokemon1 && pokemon2) {
+      this.loadComparison(+pokemon1, +pokemon2);
+    }
+  }
+
   private loadComparison(id1: number, id2: number): void {
     this.isLoading.set(true);
     this.error.set(null);
@@ -62,32 +113,106 @@ export class PokeCompare implements OnInit, OnDestroy {
       .pipe(takeUntil(this.destroy$))
       .subscribe({
         next: (result) => {
-          this.comparison.set(result);
-          this.statsArray.set([
-            result.stats.hp,
-            result.stats.attack,
-            result.stats.defense,
-            result.stats.specialAttack,
-            result.stats.specialDefense,
-            result.stats.speed,
-            result.stats.total
-          ]);
+          this.baseComparison = result;
+          this.refreshComparison();
           this.isLoading.set(false);
+          this.loadForms(result.pokemon1, this.forms1);
+          this.loadForms(result.pokemon2, this.forms2);
         },
         error: (err) => {
           console.error('Failed to load comparison:', err);
-          this.error.set('Failed to load Pokémon data. Please try again.');
+          const error = asDomainError(err);
+          this.error.set(error.message);
+          this.canRetry.set(error.retryable);
           this.isLoading.set(false);
         }
       });
   }
 
-  goToCatalog(): void {
-    this.router.navigate(['/catalog']);
+  /**
+   * Loads the forms of a compared Pokemon's species; forms are optional, so failures are only logged
+   */
+  private loadForms(pokemon: PokemonDetail, forms: WritableSignal<PokemonForm[]>): void {
+    if (forms().some(form => form.pokemonId === pokemon.id)) return;
+
+    forms.set([]);
+    this.speciesService.getSpecies(pokemon.speciesId)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (species) => forms.set(this.speciesService.getForms(species)),
+        error: (err) => console.error('Failed to load forms:', err)
+      });
+  }
+
+  /**
+   * Compares another form of one of the Pokemon
+   * @param side - Query parameter of the Pokemon to replace
+   */
+  onFormChange(side: 'pokemon1' | 'pokemon2', pokemonId: number): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { [side]: pokemonId },
+      queryParamsHandling: 'merge'
+    });
   }
 
-  goToDetail(pokemonId: number): void {
-    this.router.navigate(['/detail', pokemonId]);
+  onStatLevelChange(event: Event): void {
+    const value = (event.target as HTMLSelectElement).value;
+    this.statLevel.set(value ? Number(value) : null);
+    this.refreshComparison();
+  }
+
+  onStrategyChange(strategyId: string): void {
+    this.selectedStrategyId.set(strategyId);
+    this.refreshComparison();
+  }
+
+  onWeightsChange(weights: StatWeights): void {
+    this.weights.set(weights);
+    this.refreshComparison();
+  }
+
+  /**
+   * Compares base stats, or actual stats at the selected level
+   * (perfect IVs, no EVs, neutral nature), and scores the matchup with every strategy
+   */
+  private refreshComparison(): void {
+    const base = this.baseComparison;
+    if (!base) return;
+
+    const level = this.statLevel();
+    const pokemon1 = level === null ? base.pokemon1 : this.atLevel(base.pokemon1, level);
+    const pokemon2 = level === null ? base.pokemon2 : this.atLevel(base.pokemon2, level);
+    const options = { weights: this.weights() };
+    const result = this.comparisonService.compare(
+      pokemon1,
+      pokemon2,
+      this.comparisonService.getStrategy(this.selectedStrategyId()),
+      options
+    );
+
+    this.comparison.set(result);
+    this.strategyResults.set(this.comparisonService.evaluateAll(result, options));
+    this.statsArray.set([
+      result.stats.hp,
+      result.stats.attack,
+      result.stats.defense,
+      result.stats.specialAttack,
+      result.stats.specialDefense,
+      result.stats.speed,
+      result.stats.total
+    ]);
+  }
+
+  private atLevel(pokemon: PokemonDetail, level: number): PokemonDetail {
+    return {
+      ...pokemon,
+      stats: this.statCalculatorService.calculateStats({ baseStats: pokemon.stats, level })
+    };
+  }
+
+  goToCatalog(): void {
+    this.router.navigate(['/catalog']);
   }
 
   formatName(name: string): string {
@@ -104,6 +229,20 @@ export class PokeCompare implements OnInit, OnDestroy {
     return `${kg.toFixed(1)} kg`;
   }
 
+  formatMultiplier(multiplier: number): string {
+    const labels: Record<number, string> = { 0.25: '¼', 0.5: '½' };
+    return `×${labels[multiplier] ?? multiplier}`;
+  }
+
+  getTypeAdvantageWinner(): 'pokemon1' | 'pokemon2' | 'tie' {
+    const c = this.comparison();
+    if (!c) return 'tie';
+    const diff = c.typeComparison.pokemon1Advantage.bestMultiplier - c.typeComparison.pokemon2Advantage.bestMultiplier;
+    if (diff > 0) return 'pokemon1';
+    if (diff < 0) return 'pokemon2';
+    return 'tie';
+  }
+
   getWinnerClass(winner: 'pokemon1' | 'pokemon2' | 'tie', position: 'pokemon1' | 'pokemon2'): string {
     if (winner === 'tie') return 'stat-value--tie';
     return winner === position ? 'stat-value--winner' : 'stat-value--loser';
@@ -0,0 +1,28 @@
+import { Component, ChangeDetectionStrategy, input } from '@angular/core';
+
+/**
+ * A badge naming a Pokemon type, in the colors of the type.
+ *
+ * @example
+ * ```html
+ * <pc-type-badge [type]="type.name"></pc-type-badge>
+ * ```
+ *
+ * @usageNotes
+ * - Component is part of the compare remote module, not standalone
+ * - Unknown types use a neutral color
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'pc-type-badge',
+  standalone: false,
+  template: '{{ type() }}',
+  styleUrl: './type-badge.css',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  host: { '[attr.data-type]': 'type()' }
+})
+export class TypeBadge {
+  /** Type name, e.g. 'fire'. */
+  type = input.required<string>();
+}
@@ -0,0 +1,79 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { Router, provideRouter } from '@angular/router';
+import { of } from 'rxjs';
+import { ABILITY_REPOSITORY, ABILITY_SERVICE, AbilityService } from '@domain/src/public-api';
+import { POKEMON_FIXTURES } from '@infra/testing/src/public-api';
+import { Cluster, Stack } from '@ui';
+
+import { PokeAbilities } from './poke-abilities';
+
+describe('PokeAbilities', () => {
+  let component: PokeAbilities;
+  let fixture: ComponentFixture<PokeAbilities>;
+  let getAbility: ReturnType<typeof vi.fn>;
+
+  const settle = async () => {
+    fixture.detectChanges();
+    await fixture.whenStable();
+  };
+
+  beforeEach(async () => {
+    getAbility = vi.fn((name: string) => of({
+      id: 9, name, effect: 'May paralyze on contact.', shortEffect: 'May paralyze.',
+      pokemon: [
+        { id: 125, name: 'electabuzz', spriteUrl: '', isHidden: false },
+        { id: 25, name: 'pikachu', spriteUrl: '', isHidden: false }
+      ]
+    }));
+    await TestBed.configureTestingModule({
+      declarations: [PokeAbilities],
+      imports: [Cluster, Stack],
+      providers: [
+        provideRouter([]),
+        { provide: ABILITY_SERVICE, useClass: AbilityService },
+        { provide: ABILITY_REPOSITORY, useValue: { getAbility } }
+      ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PokeAbilities);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('pokemon', POKEMON_FIXTURES.find(pokemon => pokemon.name === 'pikachu'));
+    await settle();
+  });
+
+  it('should expand an ability to the other Pokemon having it, loading it once', async () => {
+    const router = TestBed.inject(Router);
+    const navigate = vi.spyOn(router, 'navigate').mockResolvedValue(true);
+
+    component.toggleAbility('static');
+    component.toggleAbility('static');
+    component.toggleAbility('static');
+    await settle();
+    const element: HTMLElement = fixture.nativeElement;
+
+    expect(getAbility).toHaveBeenCalledTimes(1);
+    expect(component.otherHolders().map(holder => holder.name)).toEqual(['electabuzz']);
+    expect(element.querySelector('.ability-effect')?.textContent).toBe('May paralyze on contact.');
+
+    element.querySelector<HTMLButtonElement>('.ability-holder')!.click();
+    expect(navigate).toHaveBeenCalledWith(['/detail', 125]);
+  });
+
+  it('should collapse the ability when another Pokemon is shown', async () => {
+    component.toggleAbility('static');
+    fixture.componentRef.setInput('pokemon', POKEMON_FIXTURES.find(pokemon => pokemon.name === 'mewtwo'));
+    await settle();
+
+    expect(component.expandedAbility()).toBeNull();
+  });
+
+  it('should only list the abilities when they are not expandable', async () => {
+    fixture.componentRef.setInput('expandable', false);
+    await settle();
+    const element: HTMLElement = fixture.nativeElement;
+
+    expect(element.querySelector('.ability-toggle')).toBeNull();
+    expect(element.querySelectorAll('.ability-badge').length).toBe(2);
+  });
+});
@@ -0,0 +1,87 @@
+import { Component, ChangeDetectionStrategy, OnDestroy, inject, input, signal, computed, linkedSignal } from '@angular/core';
+import { Router } from '@angular/router';
+import { Subject, takeUntil } from 'rxjs';
+import { ABILITY_SERVICE, AbilityService, AbilityDetail, PokemonDetail } from '@domain/src/public-api';
+
+/**
+ * The abilities of a Pokemon, each expandable to its effect and the other Pokemon having it.
+ *
+ * @example
+ * ```html
+ * <pc-poke-abilities [pokemon]="pokemon()!" [expandable]="sections.abilityDetails"></pc-poke-abilities>
+ * ```
+ *
+ * @usageNotes
+ * - Component is part of the detail remote module, not standalone
+ * - Without `expandable`, abilities are plain badges (e.g. when the data source has no ability effects)
+ * - Ability details are kept once fetched; the expanded ability collapses when `pokemon` changes
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'pc-poke-abilities',
+  standalone: false,
+  templateUrl: './poke-abilities.html',
+  styleUrl: './poke-abilities.css',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PokeAbilities implements OnDestroy {
+  private readonly router = inject(Router);
+  private readonly abilityService = inject(ABILITY_SERVICE) as AbilityService;
+  private readonly destroy$ = new Subject<void>();
+
+  /** Pokemon whose abilities are shown. */
+  pokemon = input.required<PokemonDetail>();
+
+  /** Whether abilities expand to their details. */
+  expandable = input(true);
+
+  readonly expandedAbility = linkedSignal<PokemonDetail, string | null>({ source: this.pokemon, computation: () => null });
+  readonly abilityDetails = signal<Record<string, AbilityDetail>>({});
+  readonly error = signal<string | null>(null);
+  readonly expandedAbilityDetail = computed(() => {
+    const name = this.expandedAbility();
+    return name ? this.abilityDetails()[name] ?? null : null;
+  });
+  readonly otherHolders = computed(() => {
+    const ability = this.expandedAbilityDetail();
+    return ability ? this.abilityService.getOtherHolders(ability, this.pokemon().id) : [];
+  });
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Expands an ability to show its effect and the other Pokemon having it, or collapses it
+   */
+  toggleAbility(name: string): void {
+    if (this.expandedAbility() === name) {
+      this.expandedAbility.set(null);
+      return;
+    }
+
+    this.expandedAbility.set(name);
+    this.error.set(null);
+    if (this.abilityDetails()[name]) return;
+
+    this.abilityService.getAbility(name)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (ability) => this.abilityDetails.update(details => ({ ...details, [name]: ability })),
+        error: (err) => {
+          console.error('Failed to load ability:', err);
+          this.error.set('Failed to load ability details. Please try again.');
+        }
+      });
+  }
+
+  goToDetail(pokemonId: number): void {
+    this.router.navigate(['/detail', pokemonId]);
+  }
+
+  formatName(name: string): string {
+    return name.charAt(0).toUpperCase() + name.slice(1);
+  }
+}
@@ -0,0 +1,58 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { Router, provideRouter } from '@angular/router';
+import { of } from 'rxjs';
+import { POKEMON_CATALOG_SERVICE, PokemonSummary } from '@domain/src/public-api';
+import { Center, Cluster, Searchbar, Stack } from '@ui';
+
+import { PokeCompareSearch } from './poke-compare-search';
+
+describe('PokeCompareSearch', () => {
+  let component: PokeCompareSearch;
+  let fixture: ComponentFixture<PokeCompareSearch>;
+  let searchPokemon: ReturnType<typeof vi.fn>;
+
+  const snorlax: PokemonSummary = { id: 143, name: 'snorlax', spriteUrl: '', types: [{ name: 'normal', slot: 1 }] };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    searchPokemon = vi.fn(() => of({ items: [snorlax], totalCount: 1 }));
+    await TestBed.configureTestingModule({
+      declarations: [PokeCompareSearch],
+      imports: [Center, Cluster, Searchbar, Stack],
+      providers: [
+        provideRouter([]),
+        { provide: POKEMON_CATALOG_SERVICE, useValue: { searchPokemon } }
+      ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PokeCompareSearch);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('pokemonId', 25);
+    fixture.detectChanges();
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it('should search once the typing pauses, from 2 characters', () => {
+    component.onSearchChange('s');
+    vi.advanceTimersByTime(300);
+    expect(searchPokemon).not.toHaveBeenCalled();
+
+    component.onSearchChange('sn');
+    component.onSearchChange('sno');
+    vi.advanceTimersByTime(300);
+
+    expect(searchPokemon).toHaveBeenCalledTimes(1);
+    expect(searchPokemon).toHaveBeenCalledWith('sno', 5);
+    expect(component.searchResults()).toEqual([snorlax]);
+  });
+
+  it('should compare the Pokemon with the picked result', () => {
+    const navigate = vi.spyOn(TestBed.inject(Router), 'navigate').mockResolvedValue(true);
+
+    component.goToCompare(snorlax);
+
+    expect(navigate).toHaveBeenCalledWith(['/compare'], { queryParams: { pokemon1: 25, pokemon2: 143 } });
+  });
+});
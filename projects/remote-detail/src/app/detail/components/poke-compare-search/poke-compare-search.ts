@@ -0,0 +1,110 @@
+import { Component, ChangeDetectionStrategy, OnInit, OnDestroy, inject, input, signal } from '@angular/core';
+import { Router } from '@angular/router';
+import { Subject, takeUntil, debounceTime, distinctUntilChanged, switchMap, of } from 'rxjs';
+import {
+  POKEMON_CATALOG_SERVICE,
+  PokemonCatalogService,
+  PokemonSummary,
+  PokemonNameService
+} from '@domain/src/public-api';
+import { LanguageService } from '@ui';
+
+/**
+ * A search for another Pokemon to compare a given one with.
+ *
+ * @description
+ * The PokeCompareSearch component searches the whole dex by name, in any supported language,
+ * and opens the comparison of the Pokemon with the picked result.
+ *
+ * @example
+ * ```html
+ * <pc-poke-compare-search [pokemonId]="pokemon()!.id"></pc-poke-compare-search>
+ * ```
+ *
+ * @usageNotes
+ * - Component is part of the detail remote module, not standalone
+ * - Searches start from 2 characters, 300 ms after the last keystroke, and show up to 5 results
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'pc-poke-compare-search',
+  standalone: false,
+  templateUrl: './poke-compare-search.html',
+  styleUrl: './poke-compare-search.css',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PokeCompareSearch implements OnInit, OnDestroy {
+  private readonly router = inject(Router);
+  private readonly pokemonCatalogService = inject(POKEMON_CATALOG_SERVICE) as PokemonCatalogService;
+  private readonly nameService = inject(PokemonNameService);
+  private readonly languageService = inject(LanguageService);
+  private readonly destroy$ = new Subject<void>();
+  private readonly searchSubject$ = new Subject<string>();
+
+  /** Pokemon to compare with the picked result. */
+  pokemonId = input.required<number>();
+
+  readonly searchQuery = signal('');
+  readonly searchResults = signal<PokemonSummary[]>([]);
+  readonly isSearching = signal(false);
+
+  ngOnInit(): void {
+    // Set up search with debounce
+    this.searchSubject$.pipe(
+      takeUntil(this.destroy$),
+      debounceTime(300),
+      distinctUntilChanged(),
+      switchMap(query => {
+        if (!query || query.length < 2) {
+          return of({ items: [], totalCount: 0 });
+        }
+        this.isSearching.set(true);
+        return this.pokemonCatalogService.searchPokemon(query, 5);
+      })
+    ).subscribe({
+      next: (result) => {
+        this.searchResults.set(result.items.slice(0, 5));
+        this.isSearching.set(false);
+      },
+      error: () => {
+        this.searchResults.set([]);
+        this.isSearching.set(false);
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  onSearchChange(value: string): void {
+    this.searchQuery.set(value);
+    this.searchSubject$.next(value);
+  }
+
+  onSearch(query: string): void {
+    this.searchSubject$.next(query);
+  }
+
+  goToCompare(otherPokemon: PokemonSummary): void {
+    this.router.navigate(['/compare'], {
+      queryParams: {
+        pokemon1: this.pokemonId(),
+        pokemon2: otherPokemon.id
+      }
+    });
+  }
+
+  /**
+   * Name of a listed Pokemon in the user's language
+   */
+  getPokemonName(pokemon: PokemonSummary): string {
+    return this.nameService.getDisplayName(pokemon, this.languageService.language());
+  }
+
+  formatPokemonId(id: number): string {
+    return `#${id.toString().padStart(3, '0')}`;
+  }
+}
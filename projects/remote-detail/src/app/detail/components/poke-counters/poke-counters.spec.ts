@@ -0,0 +1,76 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { Router, provideRouter } from '@angular/router';
+import { Subject } from 'rxjs';
+import { COUNTER_SERVICE, PokemonCounter } from '@domain/src/public-api';
+import { POKEMON_FIXTURES } from '@infra/testing/src/public-api';
+import { Box, Button, Cluster, Stack } from '@ui';
+
+import { PokeCounters } from './poke-counters';
+
+describe('PokeCounters', () => {
+  let component: PokeCounters;
+  let fixture: ComponentFixture<PokeCounters>;
+  let searches: { options: unknown; result: Subject<PokemonCounter[]> }[];
+
+  const counter = (id: number, name: string, reasons: Partial<PokemonCounter> = {}): PokemonCounter => ({
+    pokemon: {
+      id, name, speciesId: id, spriteUrl: '', generation: 1, types: ['ground'], abilities: [], isFullyEvolved: true,
+      stats: { hp: 80, attack: 100, defense: 80, specialAttack: 50, specialDefense: 60, speed: 90 }
+    },
+    score: 80,
+    offense: 2,
+    defense: 0,
+    outspeeds: false,
+    category: 'physical',
+    ...reasons
+  });
+
+  beforeEach(async () => {
+    searches = [];
+    await TestBed.configureTestingModule({
+      declarations: [PokeCounters],
+      imports: [Box, Button, Cluster, Stack],
+      providers: [
+        provideRouter([]),
+        {
+          provide: COUNTER_SERVICE,
+          useValue: { findCounters: (_: unknown, options: unknown) => searches[searches.push({ options, result: new Subject() }) - 1].result }
+        }
+      ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PokeCounters);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('pokemon', POKEMON_FIXTURES.find(pokemon => pokemon.name === 'pikachu'));
+    fixture.detectChanges();
+    await fixture.whenStable();
+  });
+
+  it('should describe why each counter was picked', () => {
+    expect(component.describeCounter(counter(50, 'diglett', { outspeeds: true }))).toEqual(['2× STAB', 'Immune', 'Faster', 'Physical']);
+    expect(component.describeCounter(counter(51, 'dugtrio', { offense: 1, defense: 2, category: 'special' })))
+      .toEqual(['Weak to it', 'Special']);
+  });
+
+  it('should ignore the counters found with filters no longer selected', async () => {
+    component.onGenerationChange({ target: { value: '1' } } as unknown as Event);
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    expect(searches[1].options).toEqual({ fullyEvolvedOnly: true, generation: { max: 1 } });
+    searches[1].result.next([counter(51, 'dugtrio')]);
+    searches[0].result.next([counter(450, 'hippowdon')]);
+
+    expect(component.counters().map(found => found.pokemon.name)).toEqual(['dugtrio']);
+    expect(component.isLoading()).toBe(false);
+  });
+
+  it('should compare the Pokemon with a counter', () => {
+    const navigate = vi.spyOn(TestBed.inject(Router), 'navigate').mockResolvedValue(true);
+
+    component.goToCompare(counter(51, 'dugtrio'));
+
+    expect(navigate).toHaveBeenCalledWith(['/compare'], { queryParams: { pokemon1: 25, pokemon2: 51 } });
+  });
+});
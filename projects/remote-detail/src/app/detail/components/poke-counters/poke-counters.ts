@@ -0,0 +1,117 @@
+import { Component, ChangeDetectionStrategy, OnInit, OnDestroy, inject, input, signal, computed } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { Router } from '@angular/router';
+import { Subject, takeUntil, switchMap, catchError, of } from 'rxjs';
+import { COUNTER_SERVICE, CounterService, PokemonCounter, PokemonDetail } from '@domain/src/public-api';
+
+/**
+ * A list of the Pokemon best suited to beat a given one.
+ *
+ * @description
+ * The PokeCounters component ranks counters to a Pokemon, optionally only fully evolved ones
+ * and up to a generation, with short reasons for each pick. Each counter can be compared
+ * with the Pokemon.
+ *
+ * @example
+ * ```html
+ * <pc-poke-counters [pokemon]="pokemon()!"></pc-poke-counters>
+ * ```
+ *
+ * @usageNotes
+ * - Component is part of the detail remote module, not standalone
+ * - Changing the filters or the `pokemon` input cancels the search in progress
+ * - Counters are optional, so failures hide the list
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'pc-poke-counters',
+  standalone: false,
+  templateUrl: './poke-counters.html',
+  styleUrl: './poke-counters.css',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PokeCounters implements OnInit, OnDestroy {
+  private readonly router = inject(Router);
+  private readonly counterService = inject(COUNTER_SERVICE) as CounterService;
+  private readonly destroy$ = new Subject<void>();
+
+  /** Pokemon to beat. */
+  pokemon = input.required<PokemonDetail>();
+
+  readonly fullyEvolved = signal(true);
+  readonly maxGeneration = signal<number | null>(null);
+  readonly counters = signal<PokemonCounter[]>([]);
+  readonly isLoading = signal(false);
+  readonly generationOptions = Array.from({ length: 9 }, (_, i) => i + 1);
+
+  /** @internal */
+  private readonly request$ = toObservable(computed(() => {
+    const maxGeneration = this.maxGeneration();
+    return {
+      pokemon: this.pokemon(),
+      options: {
+        fullyEvolvedOnly: this.fullyEvolved(),
+        generation: maxGeneration === null ? undefined : { max: maxGeneration }
+      }
+    };
+  }));
+
+  ngOnInit(): void {
+    this.request$.pipe(
+      switchMap(({ pokemon, options }) => {
+        this.isLoading.set(true);
+        return this.counterService.findCounters(pokemon, options).pipe(
+          catchError(err => {
+            console.error('Failed to find counters:', err);
+            return of([]);
+          })
+        );
+      }),
+      takeUntil(this.destroy$)
+    ).subscribe(counters => {
+      this.counters.set(counters);
+      this.isLoading.set(false);
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  onFullyEvolvedChange(event: Event): void {
+    this.fullyEvolved.set((event.target as HTMLInputElement).checked);
+  }
+
+  onGenerationChange(event: Event): void {
+    const value = (event.target as HTMLSelectElement).value;
+    this.maxGeneration.set(value ? Number(value) : null);
+  }
+
+  /**
+   * Short reasons a counter was picked (e.g. ['4× STAB', 'Resists', 'Faster'])
+   */
+  describeCounter(counter: PokemonCounter): string[] {
+    const reasons: string[] = [];
+    if (counter.offense > 1) reasons.push(`${counter.offense}× STAB`);
+    if (counter.defense < 1) reasons.push(counter.defense === 0 ? 'Immune' : 'Resists');
+    if (counter.defense > 1) reasons.push('Weak to it');
+    if (counter.outspeeds) reasons.push('Faster');
+    reasons.push(counter.category === 'physical' ? 'Physical' : 'Special');
+    return reasons;
+  }
+
+  goToCompare(counter: PokemonCounter): void {
+    this.router.navigate(['/compare'], {
+      queryParams: {
+        pokemon1: this.pokemon().id,
+        pokemon2: counter.pokemon.id
+      }
+    });
+  }
+
+  formatName(name: string): string {
+    return name.charAt(0).toUpperCase() + name.slice(1);
+  }
+}
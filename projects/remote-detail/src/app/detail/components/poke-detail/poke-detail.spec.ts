@@ -1,23 +1,96 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ActivatedRoute, Params, provideRouter } from '@angular/router';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { BehaviorSubject } from 'rxjs';
+import { NetworkError } from '@domain/src/public-api';
+import { FakePokemonData, provideFakePokemonData } from '@infra/testing/src/public-api';
 
+import { DetailModule } from '../../detail.module';
+import { DETAIL_SECTIONS } from '../../detail-sections';
 import { PokeDetail } from './poke-detail';
 
 describe('PokeDetail', () => {
   let component: PokeDetail;
   let fixture: ComponentFixture<PokeDetail>;
+  let data: FakePokemonData;
+  let params: BehaviorSubject<Params>;
 
-  beforeEach(async () => {
+  /** Opens the detail page of a Pokemon; species, evolution and stats requests are left unanswered */
+  const open = async (id: number, configure?: (data: FakePokemonData) => void) => {
+    params = new BehaviorSubject<Params>({ id: `${id}` });
     await TestBed.configureTestingModule({
-      imports: [PokeDetail]
+      imports: [DetailModule],
+      providers: [
+        provideRouter([]),
+        provideHttpClientTesting(),
+        ...provideFakePokemonData(),
+        { provide: ActivatedRoute, useValue: { params, snapshot: { params: { id: `${id}` } } } },
+        { provide: DETAIL_SECTIONS, useValue: { moves: false, abilityDetails: false } }
+      ]
     })
     .compileComponents();
 
+    data = TestBed.inject(FakePokemonData);
+    configure?.(data);
     fixture = TestBed.createComponent(PokeDetail);
     component = fixture.componentInstance;
+    fixture.detectChanges();
     await fixture.whenStable();
+  };
+
+  afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  it('should show the Pokemon of the route', async () => {
+    await open(25);
+
+    expect(component.isLoading()).toBe(false);
+    expect(component.error()).toBeNull();
+    expect(component.pokemon()?.name).toBe('pikachu');
+    expect(component.pokemon()?.stats.speed).toBe(90);
+  });
+
+  it('should hide the sections the data source cannot fill', async () => {
+    await open(25);
+    const element: HTMLElement = fixture.nativeElement;
+
+    expect(element.querySelector('pc-poke-moves')).toBeNull();
+    expect([...element.querySelectorAll('.section-title')].map(title => title.textContent?.trim())).not.toContain('Moves');
+    expect(element.querySelector('.ability-toggle')).toBeNull();
+  });
+
+  it('should show a retryable error, then the Pokemon on retry', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await open(25, data => data.failNext(new NetworkError()));
+
+    expect(component.canRetry()).toBe(true);
+    expect(component.pokemon()).toBeNull();
+
+    component.retry();
+    expect(component.error()).toBeNull();
+    expect(component.pokemon()?.name).toBe('pikachu');
+  });
+
+  it('should report unknown Pokemon without offering a retry', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await open(9999);
+
+    expect(component.error()).toContain('9999');
+    expect(component.canRetry()).toBe(false);
   });
 
-  it('should create', () => {
-    expect(component).toBeTruthy();
+  it('should ignore the answer for a Pokemon no longer displayed', async () => {
+    await open(25);
+
+    data.configure({ latency: 20 });
+    params.next({ id: '143' });
+    data.configure({ latency: 0 });
+    params.next({ id: '150' });
+    await new Promise(resolve => setTimeout(resolve, 40));
+
+    expect(component.pokemon()?.name).toBe('mewtwo');
+    expect(component.isLoading()).toBe(false);
   });
 });
@@ -1,15 +1,22 @@
-import { Component, inject, signal, OnInit, OnDestroy, ChangeDetectionStrategy } from '@angular/core';
+import { Component, inject, signal, computed, OnInit, OnDestroy, ChangeDetectionStrategy } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
 import { ActivatedRoute, Router } from '@angular/router';
-import { Subject, takeUntil, debounceTime, distinctUntilChanged, switchMap, of } from 'rxjs';
-import { 
-  POKEMON_DETAIL_SERVICE, 
+import { Observable, Subject, takeUntil, skip, merge } from 'rxjs';
+import {
+  POKEMON_DETAIL_SERVICE,
   PokemonDetailService,
   PokemonDetail,
-  POKEMON_CATALOG_SERVICE,
-  PokemonCatalogService,
-  PokemonSummary
+  GAME_CONTEXT,
+  asDomainError,
+  PokemonNameService,
+  SPECIES_SERVICE,
+  SpeciesService,
+  PokemonSpecies,
+  FAVORITES_SERVICE,
+  FavoritesService
 } from '@domain/src/public-api';
-import { NavigationService } from "@ui";
+import { LanguageService, NavigationService } from "@ui";
+import { DETAIL_SECTIONS } from '../../detail-sections';
 
 @Component({
   selector: 'pc-poke-detail',
@@ -22,19 +29,61 @@ export class PokeDetail implements OnInit, OnDestroy {
   private readonly route = inject(ActivatedRoute);
   private readonly router = inject(Router);
   private readonly pokemonDetailService = inject(POKEMON_DETAIL_SERVICE) as PokemonDetailService;
-  private readonly pokemonCatalogService = inject(POKEMON_CATALOG_SERVICE) as PokemonCatalogService;
+  private readonly speciesService = inject(SPECIES_SERVICE) as SpeciesService;
+  private readonly favoritesService = inject(FAVORITES_SERVICE) as FavoritesService;
+  /** Sections the data source can fill; the others are hidden */
+  readonly sections = inject(DETAIL_SECTIONS);
   private readonly navigationService = inject(NavigationService);
+  private readonly nameService = inject(PokemonNameService);
+  private readonly languageService = inject(LanguageService);
   private readonly destroy$ = new Subject<void>();
-  private readonly searchSubject$ = new Subject<string>();
+  /** Emit when a load starts, so that the response of the previous one is ignored */
+  private readonly pokemonLoad$ = new Subject<void>();
+  private readonly speciesLoad$ = new Subject<void>();
+
+  /** Games picked in the header; the adapters map types and stats for them. @internal */
+  private readonly gameContextChanges$ = toObservable(inject(GAME_CONTEXT)).pipe(skip(1));
 
   readonly pokemon = signal<PokemonDetail | null>(null);
   readonly isLoading = signal(true);
   readonly error = signal<string | null>(null);
+  /** Whether loading may succeed if tried again (e.g. network failure, but not a missing Pokemon) */
+  readonly canRetry = signal(false);
+
+  // Species (Pokedex entry) state
+  readonly species = signal<PokemonSpecies | null>(null);
+  readonly speciesError = signal<string | null>(null);
+  readonly selectedVersion = signal<string | null>(null);
+  readonly versions = computed(() => {
+    const s = this.species();
+    return s ? this.speciesService.getVersions(s) : [];
+  });
+  readonly flavorText = computed(() => {
+    const s = this.species();
+    return s ? this.speciesService.getFlavorText(s, this.selectedVersion() ?? undefined) : null;
+  });
+  readonly forms = computed(() => {
+    const s = this.species();
+    return s ? this.speciesService.getForms(s) : [];
+  });
+  /** Species name in the user's language; alternate forms add their label (e.g. 'Dracaufeu (Mega X)') */
+  readonly displayName = computed(() => {
+    const p = this.pokemon();
+    const s = this.species();
+    if (!p) return '';
+    if (!s || s.id !== p.speciesId) return this.nameService.formatSlug(p.name);
 
-  // Search state
-  readonly searchQuery = signal('');
-  readonly searchResults = signal<PokemonSummary[]>([]);
-  readonly isSearching = signal(false);
+    const name = this.nameService.getDisplayName(s, this.languageService.language());
+    const form = this.forms().find(f => f.pokemonId === p.id);
+    return form && !form.isDefault ? `${name} (${form.label})` : name;
+  });
+
+  /** IDs of the user's favorites, kept in sync with the other remotes and tabs */
+  readonly favoriteIds = signal<ReadonlySet<number>>(new Set());
+  readonly isFavorite = computed(() => {
+    const p = this.pokemon();
+    return !!p && this.favoriteIds().has(p.id);
+  });
 
   ngOnInit(): void {
     // Set up the back link in the header
@@ -46,32 +95,18 @@ export class PokeDetail implements OnInit, OnDestroy {
         this.loadPokemon(+id);
       } else {
         this.error.set('No Pokémon ID provided');
+        this.canRetry.set(false);
         this.isLoading.set(false);
       }
     });
 
-    // Set up search with debounce
-    this.searchSubject$.pipe(
-      takeUntil(this.destroy$),
-      debounceTime(300),
-      distinctUntilChanged(),
-      switchMap(query => {
-        if (!query || query.length < 2) {
-          return of({ items: [], totalCount: 0 });
-        }
-        this.isSearching.set(true);
-        return this.pokemonCatalogService.searchPokemon(query, 5);
-      })
-    ).subscribe({
-      next: (result) => {
-        this.searchResults.set(result.items.slice(0, 5));
-        this.isSearching.set(false);
-      },
-      error: () => {
-        this.searchResults.set([]);
-        this.isSearching.set(false);
-      }
+    this.favoritesService.getFavorites().pipe(takeUntil(this.destroy$)).subscribe({
+      next: (favorites) => this.favoriteIds.set(new Set(favorites)),
+      error: (err) => console.error('Failed to load favorites:', err)
     });
+
+    // Types and stats depend on the games
+    this.gameContextChanges$.pipe(takeUntil(this.destroy$)).subscribe(() => this.retry());
   }
 
   ngOnDestroy(): void {
@@ -81,44 +116,83 @@ export class PokeDetail implements OnInit, OnDestroy {
     this.destroy$.complete();
   }
 
+  /** Loads the current Pokemon again after a failure. */
+  retry(): void {
+    const id = this.route.snapshot.params['id'];
+    if (id) {
+      this.loadPokemon(+id);
+    }
+  }
+
+  /**
+   * Loads a Pokemon; species data follows once the Pokemon is known,
+   * since alternate forms (IDs from 10000) belong to a species with another ID
+   */
   private loadPokemon(id: number): void {
     this.isLoading.set(true);
     this.error.set(null);
 
     this.pokemonDetailService.getPokemonDetail(id)
-      .pipe(takeUntil(this.destroy$))
+      .pipe(this.untilNext(this.pokemonLoad$))
       .subscribe({
         next: (pokemon) => {
           this.pokemon.set(pokemon);
           this.isLoading.set(false);
+          // Switching between forms of a species keeps its species data
+          if (this.species()?.id !== pokemon.speciesId) {
+            this.loadSpecies(pokemon.speciesId);
+          }
         },
         error: (err) => {
           console.error('Failed to load Pokemon:', err);
-          this.error.set('Failed to load Pokémon. Please try again.');
+          const error = asDomainError(err);
+          this.error.set(error.message);
+          this.canRetry.set(error.retryable);
           this.isLoading.set(false);
         }
       });
   }
 
-  onSearchChange(value: string): void {
-    this.searchQuery.set(value);
-    this.searchSubject$.next(value);
+  private loadSpecies(speciesId: number): void {
+    this.species.set(null);
+    this.speciesError.set(null);
+    this.selectedVersion.set(null);
+
+    this.speciesService.getSpecies(speciesId)
+      .pipe(this.untilNext(this.speciesLoad$))
+      .subscribe({
+        next: (species) => this.species.set(species),
+        error: (err) => {
+          console.error('Failed to load species:', err);
+          this.speciesError.set('Pokédex data is unavailable for this Pokémon.');
+        }
+      });
   }
 
-  onSearch(query: string): void {
-    this.searchSubject$.next(query);
+  onVersionChange(event: Event): void {
+    this.selectedVersion.set((event.target as HTMLSelectElement).value);
   }
 
-  goToCompare(otherPokemon: PokemonSummary): void {
+  /**
+   * Shows another form of the current species
+   * @param pokemonId - Pokemon ID of the form
+   */
+  selectForm(pokemonId: number): void {
+    if (pokemonId !== this.pokemon()?.id) {
+      this.router.navigate(['/detail', pokemonId]);
+    }
+  }
+
+  /** Adds the current Pokemon to the favorites, or removes it */
+  toggleFavorite(): void {
     const current = this.pokemon();
-    if (current) {
-      this.router.navigate(['/compare'], {
-        queryParams: {
-          pokemon1: current.id,
-          pokemon2: otherPokemon.id
-        }
+    if (!current) return;
+
+    this.favoritesService.toggleFavorite(current.id)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        error: (err) => console.error('Failed to save favorite:', err)
       });
-    }
   }
 
   goToCatalog(): void {
@@ -129,6 +203,13 @@ export class PokeDetail implements OnInit, OnDestroy {
     return name.charAt(0).toUpperCase() + name.slice(1);
   }
 
+  /**
+   * Formats a hyphenated resource name for display (e.g. 'medium-slow' -> 'Medium slow')
+   */
+  formatLabel(name: string): string {
+    return this.formatName(name.replaceAll('-', ' '));
+  }
+
   formatHeight(decimeters: number): string {
     const meters = decimeters / 10;
     return `${meters.toFixed(1)} m`;
@@ -153,10 +234,16 @@ export class PokeDetail implements OnInit, OnDestroy {
   getFormattedId(): string {
     const p = this.pokemon();
     if (!p) return '';
-    return `#${p.id.toString().padStart(3, '0')}`;
+    // Alternate forms show the Pokedex number of their species
+    return `#${p.speciesId.toString().padStart(3, '0')}`;
   }
 
-  formatPokemonId(id: number): string {
-    return `#${id.toString().padStart(3, '0')}`;
+  /**
+   * Cancels the previous load of a kind and completes the new one on the next load or on destroy
+   * @param load$ - Subject of the kind of load
+   */
+  private untilNext<T>(load$: Subject<void>): (source$: Observable<T>) => Observable<T> {
+    load$.next();
+    return source$ => source$.pipe(takeUntil(merge(load$, this.destroy$)));
   }
 }
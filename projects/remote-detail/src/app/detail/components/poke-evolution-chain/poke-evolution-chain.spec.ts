@@ -0,0 +1,63 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { CommonModule } from '@angular/common';
+import { provideRouter } from '@angular/router';
+import { Subject } from 'rxjs';
+import { EVOLUTION_CHAIN_REPOSITORY, EVOLUTION_SERVICE, EvolutionChain, EvolutionService, EvolutionStage } from '@domain/src/public-api';
+import { Box, Stack } from '@ui';
+
+import { PokeEvolutionChain } from './poke-evolution-chain';
+
+describe('PokeEvolutionChain', () => {
+  let component: PokeEvolutionChain;
+  let fixture: ComponentFixture<PokeEvolutionChain>;
+  let chains: Subject<EvolutionChain>[];
+
+  const stage = (speciesId: number, name: string, evolvesTo: EvolutionStage[] = []): EvolutionStage => ({
+    speciesId, name, spriteUrl: '', isBaby: false, evolvesTo,
+    triggers: speciesId === 172 ? [] : [{ kind: 'friendship', trigger: 'level-up', minHappiness: 220 }]
+  });
+
+  const settle = async () => {
+    fixture.detectChanges();
+    await fixture.whenStable();
+  };
+
+  beforeEach(async () => {
+    chains = [];
+    await TestBed.configureTestingModule({
+      declarations: [PokeEvolutionChain],
+      imports: [CommonModule, Box, Stack],
+      providers: [
+        provideRouter([]),
+        { provide: EVOLUTION_SERVICE, useClass: EvolutionService },
+        { provide: EVOLUTION_CHAIN_REPOSITORY, useValue: { getEvolutionChainBySpeciesId: () => chains[chains.push(new Subject()) - 1] } }
+      ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PokeEvolutionChain);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('speciesId', 25);
+    await settle();
+  });
+
+  it('should show the stages, marking the current species', async () => {
+    chains[0].next({ id: 10, root: stage(172, 'pichu', [stage(25, 'pikachu', [stage(26, 'raichu')])]) });
+    await settle();
+    const element: HTMLElement = fixture.nativeElement;
+
+    expect([...element.querySelectorAll('.evolution-name')].map(name => name.textContent)).toEqual(['Pichu', 'Pikachu', 'Raichu']);
+    expect(element.querySelector('[aria-current="page"]')?.textContent).toContain('Pikachu');
+    expect(element.querySelector('.evolution-trigger')?.textContent).toContain('High friendship');
+  });
+
+  it('should ignore the chain of a species no longer shown', async () => {
+    fixture.componentRef.setInput('speciesId', 133);
+    await settle();
+
+    chains[1].next({ id: 67, root: stage(133, 'eevee') });
+    chains[0].next({ id: 10, root: stage(172, 'pichu') });
+
+    expect(component.chain()?.id).toBe(67);
+  });
+});
@@ -0,0 +1,85 @@
+import { Component, ChangeDetectionStrategy, OnInit, OnDestroy, inject, input, signal } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { Router } from '@angular/router';
+import { Subject, takeUntil, switchMap, catchError, of } from 'rxjs';
+import { EVOLUTION_SERVICE, EvolutionService, EvolutionChain, EvolutionStage } from '@domain/src/public-api';
+
+/**
+ * The evolution chain of a species, with how each stage evolves.
+ *
+ * @description
+ * The PokeEvolutionChain component loads the evolution chain of a species and shows its
+ * stages from the base form, each linking to its detail page. Branches (e.g. Eevee) stack
+ * vertically, each with its triggers.
+ *
+ * @example
+ * ```html
+ * <pc-poke-evolution-chain [speciesId]="pokemon()!.speciesId"></pc-poke-evolution-chain>
+ * ```
+ *
+ * @usageNotes
+ * - Component is part of the detail remote module, not standalone
+ * - The stage of `speciesId` is marked as the current page
+ * - The chain is reloaded when `speciesId` changes; answers for a previous species are ignored
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'pc-poke-evolution-chain',
+  standalone: false,
+  templateUrl: './poke-evolution-chain.html',
+  styleUrl: './poke-evolution-chain.css',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PokeEvolutionChain implements OnInit, OnDestroy {
+  private readonly router = inject(Router);
+  private readonly evolutionService = inject(EVOLUTION_SERVICE) as EvolutionService;
+  private readonly destroy$ = new Subject<void>();
+
+  /** Species whose chain is shown. */
+  speciesId = input.required<number>();
+
+  readonly chain = signal<EvolutionChain | null>(null);
+  readonly error = signal<string | null>(null);
+
+  /** @internal */
+  private readonly speciesId$ = toObservable(this.speciesId);
+
+  ngOnInit(): void {
+    this.speciesId$.pipe(
+      switchMap(speciesId => {
+        this.chain.set(null);
+        this.error.set(null);
+        return this.evolutionService.getEvolutionChain(speciesId).pipe(
+          catchError(err => {
+            console.error('Failed to load evolution chain:', err);
+            this.error.set('Evolution data is unavailable for this Pokémon.');
+            return of(null);
+          })
+        );
+      }),
+      takeUntil(this.destroy$)
+    ).subscribe(chain => this.chain.set(chain));
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Describes how the previous stage evolves into this one
+   * Several triggers (e.g. different games) are alternatives
+   */
+  describeEvolution(stage: EvolutionStage): string {
+    return stage.triggers.map(t => this.evolutionService.describeTrigger(t)).join(' or ');
+  }
+
+  goToDetail(speciesId: number): void {
+    this.router.navigate(['/detail', speciesId]);
+  }
+
+  formatName(name: string): string {
+    return name.charAt(0).toUpperCase() + name.slice(1);
+  }
+}
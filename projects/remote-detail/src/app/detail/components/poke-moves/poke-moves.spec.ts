@@ -0,0 +1,79 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+import { Learnset, MOVE_REPOSITORY, MOVE_SERVICE, Move, MoveService } from '@domain/src/public-api';
+import { Box, Cluster, Stack } from '@ui';
+
+import { TypeBadge } from '../type-badge/type-badge';
+import { PokeMoves } from './poke-moves';
+
+describe('PokeMoves', () => {
+  let component: PokeMoves;
+  let fixture: ComponentFixture<PokeMoves>;
+  let requested: string[][];
+
+  const move = (name: string, type: string): Move => ({
+    id: name.length, name, type, category: 'special', power: 90, accuracy: 100, pp: 15, priority: 0
+  });
+
+  const learnset: Learnset = {
+    pokemonId: 25,
+    versionGroups: ['red-blue', 'scarlet-violet'],
+    groups: [
+      { versionGroup: 'red-blue', method: 'level-up', moves: [{ name: 'thunder-shock', level: 1 }, { name: 'thunder', level: 43 }] },
+      { versionGroup: 'scarlet-violet', method: 'level-up', moves: [{ name: 'thunder-shock', level: 1 }] },
+      { versionGroup: 'scarlet-violet', method: 'machine', moves: [{ name: 'surf', level: null }] }
+    ]
+  };
+
+  const getMoves = (names: string[]) => {
+    requested.push(names);
+    return of(names.map(name => move(name, name === 'surf' ? 'water' : 'electric')));
+  };
+
+  const settle = async () => {
+    fixture.detectChanges();
+    await fixture.whenStable();
+  };
+
+  beforeEach(async () => {
+    requested = [];
+    await TestBed.configureTestingModule({
+      declarations: [PokeMoves, TypeBadge],
+      imports: [Box, Cluster, Stack],
+      providers: [
+        { provide: MOVE_SERVICE, useClass: MoveService },
+        { provide: MOVE_REPOSITORY, useValue: { getLearnset: () => of(learnset), getMoves } }
+      ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PokeMoves);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('pokemonId', 25);
+    await settle();
+  });
+
+  it('should show the moves of the most recent games', () => {
+    expect(component.selectedVersionGroup()).toBe('scarlet-violet');
+    expect(component.methods()).toEqual(['level-up', 'machine']);
+    expect(component.visibleMoves().map(row => row.move.name)).toEqual(['thunder-shock', 'surf']);
+    expect(component.types()).toEqual(['electric', 'water']);
+  });
+
+  it('should only fetch the moves not loaded yet when another game is picked', async () => {
+    component.onVersionGroupChange({ target: { value: 'red-blue' } } as unknown as Event);
+    await settle();
+
+    expect(requested).toEqual([['thunder-shock', 'surf'], ['thunder']]);
+    expect(component.visibleMoves().map(row => row.move.name)).toEqual(['thunder-shock', 'thunder']);
+  });
+
+  it('should filter the rows and toggle the sort direction of a column', async () => {
+    component.onTypeFilter({ target: { value: 'water' } } as unknown as Event);
+    expect(component.visibleMoves().map(row => row.move.name)).toEqual(['surf']);
+
+    component.sortBy('level');
+    expect(component.getSortState('level')).toBe('descending');
+    expect(component.getSortState('name')).toBe('none');
+  });
+});
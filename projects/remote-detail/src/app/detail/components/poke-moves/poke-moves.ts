@@ -0,0 +1,191 @@
+import { Component, ChangeDetectionStrategy, OnInit, OnDestroy, inject, input, signal, computed, linkedSignal } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { Subject, takeUntil, switchMap, catchError, map, of } from 'rxjs';
+import {
+  MOVE_SERVICE,
+  MoveService,
+  Learnset,
+  LearnsetRow,
+  Move,
+  MoveCategory,
+  MoveFilter,
+  MoveSort,
+  MoveSortKey
+} from '@domain/src/public-api';
+
+/**
+ * The learnset of a Pokemon as a sortable, filterable table of moves, per game.
+ *
+ * @description
+ * The PokeMoves component loads the learnset of a Pokemon and shows the moves it learns in
+ * the picked version group, most recent games first, with their type, category, power,
+ * accuracy, PP, priority, level and learn method. Moves can be searched by name, filtered
+ * by method, type and category, and sorted by any column.
+ *
+ * @example
+ * ```html
+ * <pc-poke-moves [pokemonId]="pokemon()!.id"></pc-poke-moves>
+ * ```
+ *
+ * @usageNotes
+ * - Component is part of the detail remote module, not standalone
+ * - Only the move data not fetched yet is requested when another game is picked
+ * - Changing the `pokemonId` input or the game cancels the load in progress
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'pc-poke-moves',
+  standalone: false,
+  templateUrl: './poke-moves.html',
+  styleUrl: './poke-moves.css',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PokeMoves implements OnInit, OnDestroy {
+  private readonly moveService = inject(MOVE_SERVICE) as MoveService;
+  private readonly destroy$ = new Subject<void>();
+  /** Move data already fetched, kept across version group changes */
+  private readonly moveCache = new Map<string, Move>();
+
+  /** Pokemon whose moves are shown. */
+  pokemonId = input.required<number>();
+
+  readonly learnset = signal<Learnset | null>(null);
+  /** Picked version group; the most recent one of each learnset first */
+  readonly selectedVersionGroup = linkedSignal(() => this.learnset()?.versionGroups.at(-1) ?? null);
+  readonly rows = signal<LearnsetRow[]>([]);
+  readonly isLoading = signal(false);
+  readonly error = signal<string | null>(null);
+  readonly filter = signal<MoveFilter>({});
+  readonly sort = signal<MoveSort>({ key: 'level', direction: 'asc' });
+  readonly columns: { key: MoveSortKey; label: string }[] = [
+    { key: 'name', label: 'Move' },
+    { key: 'type', label: 'Type' },
+    { key: 'category', label: 'Category' },
+    { key: 'power', label: 'Power' },
+    { key: 'accuracy', label: 'Acc.' },
+    { key: 'pp', label: 'PP' },
+    { key: 'priority', label: 'Priority' },
+    { key: 'level', label: 'Level' }
+  ];
+  readonly categories: MoveCategory[] = ['physical', 'special', 'status'];
+  readonly methods = computed(() => {
+    const learnset = this.learnset();
+    const versionGroup = this.selectedVersionGroup();
+    return learnset && versionGroup ? this.moveService.getMethods(learnset, versionGroup) : [];
+  });
+  readonly types = computed(() =>
+    [...new Set(this.rows().map(row => row.move.type))].sort()
+  );
+  readonly visibleMoves = computed(() =>
+    this.moveService.sortRows(this.moveService.filterRows(this.rows(), this.filter()), this.sort())
+  );
+
+  /** @internal */
+  private readonly pokemonId$ = toObservable(this.pokemonId);
+  /** Learnset and version group whose rows are shown. @internal */
+  private readonly shown$ = toObservable(computed(() => ({
+    learnset: this.learnset(),
+    versionGroup: this.selectedVersionGroup()
+  })));
+
+  ngOnInit(): void {
+    this.pokemonId$.pipe(
+      switchMap(pokemonId => {
+        this.learnset.set(null);
+        this.error.set(null);
+        this.filter.set({});
+        return this.moveService.getLearnset(pokemonId).pipe(
+          catchError(err => {
+            console.error('Failed to load learnset:', err);
+            this.error.set('Failed to load moves. Please try again.');
+            return of(null);
+          })
+        );
+      }),
+      takeUntil(this.destroy$)
+    ).subscribe(learnset => this.learnset.set(learnset));
+
+    // Fetches only the move data not loaded yet
+    this.shown$.pipe(
+      switchMap(({ learnset, versionGroup }) => {
+        this.filter.update(filter => ({ ...filter, method: undefined }));
+        if (!learnset || !versionGroup) return of([]);
+
+        const missing = this.moveService.getMoveNames(learnset, versionGroup).filter(name => !this.moveCache.has(name));
+        this.isLoading.set(true);
+        return this.moveService.getMoves(missing).pipe(
+          map(moves => {
+            moves.forEach(move => this.moveCache.set(move.name, move));
+            return this.moveService.buildRows(learnset, [...this.moveCache.values()], versionGroup);
+          }),
+          catchError(err => {
+            console.error('Failed to load moves:', err);
+            this.error.set('Failed to load moves. Please try again.');
+            return of([]);
+          })
+        );
+      }),
+      takeUntil(this.destroy$)
+    ).subscribe(rows => {
+      this.rows.set(rows);
+      this.isLoading.set(false);
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  onVersionGroupChange(event: Event): void {
+    this.selectedVersionGroup.set((event.target as HTMLSelectElement).value);
+  }
+
+  onSearch(event: Event): void {
+    const search = (event.target as HTMLInputElement).value;
+    this.filter.update(filter => ({ ...filter, search }));
+  }
+
+  onTypeFilter(event: Event): void {
+    const type = (event.target as HTMLSelectElement).value || undefined;
+    this.filter.update(filter => ({ ...filter, type }));
+  }
+
+  onCategoryFilter(event: Event): void {
+    const category = ((event.target as HTMLSelectElement).value || undefined) as MoveCategory | undefined;
+    this.filter.update(filter => ({ ...filter, category }));
+  }
+
+  onMethodFilter(event: Event): void {
+    const method = (event.target as HTMLSelectElement).value || undefined;
+    this.filter.update(filter => ({ ...filter, method }));
+  }
+
+  /**
+   * Sorts the table by a column, toggling the direction when it is already sorted by it
+   */
+  sortBy(key: MoveSortKey): void {
+    this.sort.update(sort => ({
+      key,
+      direction: sort.key === key && sort.direction === 'asc' ? 'desc' : 'asc'
+    }));
+  }
+
+  getSortState(key: MoveSortKey): 'ascending' | 'descending' | 'none' {
+    const sort = this.sort();
+    if (sort.key !== key) return 'none';
+    return sort.direction === 'asc' ? 'ascending' : 'descending';
+  }
+
+  formatName(name: string): string {
+    return name.charAt(0).toUpperCase() + name.slice(1);
+  }
+
+  /**
+   * Formats a hyphenated resource name for display (e.g. 'level-up' -> 'Level up')
+   */
+  formatLabel(name: string): string {
+    return this.formatName(name.replaceAll('-', ' '));
+  }
+}
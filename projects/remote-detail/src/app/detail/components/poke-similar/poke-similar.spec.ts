@@ -0,0 +1,60 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { Subject } from 'rxjs';
+import { PokemonStatsEntry, SIMILARITY_SERVICE, STATS_DATASET_REPOSITORY, SimilarityService } from '@domain/src/public-api';
+import { POKEMON_FIXTURES } from '@infra/testing/src/public-api';
+import { Box, Cluster, Reel, Stack } from '@ui';
+
+import { TypeBadge } from '../type-badge/type-badge';
+import { PokeSimilar } from './poke-similar';
+
+describe('PokeSimilar', () => {
+  let component: PokeSimilar;
+  let fixture: ComponentFixture<PokeSimilar>;
+  let datasets: Subject<PokemonStatsEntry[]>[];
+
+  const entry = (id: number, name: string): PokemonStatsEntry => ({
+    id, name, speciesId: id, spriteUrl: '', generation: 1, types: ['electric'], abilities: [], isFullyEvolved: true,
+    stats: { hp: 60, attack: 90, defense: 55, specialAttack: 90, specialDefense: 80, speed: 110 }
+  });
+
+  beforeEach(async () => {
+    datasets = [];
+    await TestBed.configureTestingModule({
+      declarations: [PokeSimilar, TypeBadge],
+      imports: [Box, Cluster, Reel, Stack],
+      providers: [
+        provideRouter([]),
+        { provide: SIMILARITY_SERVICE, useClass: SimilarityService },
+        { provide: STATS_DATASET_REPOSITORY, useValue: { getStatsDataset: () => datasets[datasets.push(new Subject()) - 1] } }
+      ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PokeSimilar);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('pokemon', POKEMON_FIXTURES.find(pokemon => pokemon.name === 'pikachu'));
+    fixture.detectChanges();
+    await fixture.whenStable();
+  });
+
+  it('should show the Pokemon closest to the given one', () => {
+    datasets[0].next([entry(26, 'raichu')]);
+    fixture.detectChanges();
+
+    expect(component.isLoading()).toBe(false);
+    expect(fixture.nativeElement.querySelector('.similar-name')?.textContent).toContain('Raichu');
+  });
+
+  it('should ignore the Pokemon found with options no longer selected', async () => {
+    component.onMatchTypesChange({ target: { checked: true } } as unknown as Event);
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    datasets[1].next([entry(26, 'raichu')]);
+    datasets[0].next([entry(100, 'voltorb')]);
+
+    expect(component.similar().map(similar => similar.pokemon.name)).toEqual(['raichu']);
+    expect(component.isLoading()).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { Component, ChangeDetectionStrategy, OnInit, OnDestroy, inject, input, signal, computed } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { Router } from '@angular/router';
+import { Subject, takeUntil, switchMap, catchError, of } from 'rxjs';
+import {
+  SIMILARITY_SERVICE,
+  SimilarityService,
+  SimilarityMetric,
+  SimilarPokemon,
+  PokemonDetail
+} from '@domain/src/public-api';
+
+/**
+ * A rail of the Pokemon closest to a given one by stat profile and, optionally, typing.
+ *
+ * @description
+ * The PokeSimilar component finds the Pokemon whose base stats are closest to those of a
+ * Pokemon, comparing either the stat spread or the actual values. Matching types or
+ * abilities can be made to weigh as much as stats. Each suggestion links to its detail page.
+ *
+ * @example
+ * ```html
+ * <pc-poke-similar [pokemon]="pokemon()!"></pc-poke-similar>
+ * ```
+ *
+ * @usageNotes
+ * - Component is part of the detail remote module, not standalone
+ * - Changing the options or the `pokemon` input cancels the search in progress
+ * - Suggestions are optional, so failures hide the rail
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'pc-poke-similar',
+  standalone: false,
+  templateUrl: './poke-similar.html',
+  styleUrl: './poke-similar.css',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PokeSimilar implements OnInit, OnDestroy {
+  private readonly router = inject(Router);
+  private readonly similarityService = inject(SIMILARITY_SERVICE) as SimilarityService;
+  private readonly destroy$ = new Subject<void>();
+
+  /** Pokemon the suggestions resemble. */
+  pokemon = input.required<PokemonDetail>();
+
+  // Matching types or abilities weighs as much as stats
+  readonly metric = signal<SimilarityMetric>('cosine');
+  readonly matchTypes = signal(false);
+  readonly matchAbilities = signal(false);
+  readonly similar = signal<SimilarPokemon[]>([]);
+  readonly isLoading = signal(false);
+
+  /** @internal */
+  private readonly request$ = toObservable(computed(() => ({
+    pokemon: this.pokemon(),
+    options: {
+      metric: this.metric(),
+      typeWeight: this.matchTypes() ? 1 : 0,
+      abilityWeight: this.matchAbilities() ? 1 : 0
+    }
+  })));
+
+  ngOnInit(): void {
+    this.request$.pipe(
+      switchMap(({ pokemon, options }) => {
+        this.isLoading.set(true);
+        return this.similarityService.findSimilar(pokemon, options).pipe(
+          catchError(err => {
+            console.error('Failed to find similar Pokemon:', err);
+            return of([]);
+          })
+        );
+      }),
+      takeUntil(this.destroy$)
+    ).subscribe(similar => {
+      this.similar.set(similar);
+      this.isLoading.set(false);
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  onMetricChange(event: Event): void {
+    this.metric.set((event.target as HTMLSelectElement).value as SimilarityMetric);
+  }
+
+  onMatchTypesChange(event: Event): void {
+    this.matchTypes.set((event.target as HTMLInputElement).checked);
+  }
+
+  onMatchAbilitiesChange(event: Event): void {
+    this.matchAbilities.set((event.target as HTMLInputElement).checked);
+  }
+
+  goToDetail(pokemonId: number): void {
+    this.router.navigate(['/detail', pokemonId]);
+  }
+
+  formatName(name: string): string {
+    return name.charAt(0).toUpperCase() + name.slice(1);
+  }
+}
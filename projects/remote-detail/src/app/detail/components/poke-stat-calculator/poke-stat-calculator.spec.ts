@@ -0,0 +1,40 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { STAT_CALCULATOR_SERVICE, StatCalculatorService } from '@domain/src/public-api';
+import { POKEMON_FIXTURES } from '@infra/testing/src/public-api';
+import { Box, Cluster, Stack } from '@ui';
+
+import { PokeStatCalculator } from './poke-stat-calculator';
+
+describe('PokeStatCalculator', () => {
+  let component: PokeStatCalculator;
+  let fixture: ComponentFixture<PokeStatCalculator>;
+
+  const inputEvent = (value: string) => ({ target: { value } }) as unknown as Event;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      declarations: [PokeStatCalculator],
+      imports: [Box, Cluster, Stack],
+      providers: [{ provide: STAT_CALCULATOR_SERVICE, useClass: StatCalculatorService }]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PokeStatCalculator);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('baseStats', POKEMON_FIXTURES.find(pokemon => pokemon.name === 'pikachu')!.stats);
+    fixture.detectChanges();
+    await fixture.whenStable();
+  });
+
+  it('should calculate the stats at level 50 with perfect IVs by default', () => {
+    expect(component.calculatedStats()?.hp).toBe(110);
+    expect(component.calculatedStats()?.attack).toBe(75);
+  });
+
+  it('should leave the stats blank while the EVs are invalid', () => {
+    component.onEvChange('hp', inputEvent('300'));
+
+    expect(component.validation().valid).toBe(false);
+    expect(component.calculatedStats()).toBeNull();
+  });
+});
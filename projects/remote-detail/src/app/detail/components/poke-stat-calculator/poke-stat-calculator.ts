@@ -0,0 +1,97 @@
+import { Component, ChangeDetectionStrategy, inject, input, signal, computed } from '@angular/core';
+import {
+  STAT_CALCULATOR_SERVICE,
+  StatCalculatorService,
+  StatCalculationInput,
+  PokemonStats,
+  Nature
+} from '@domain/src/public-api';
+
+/**
+ * A calculator of the actual stats of a Pokemon from its level, nature, IVs and EVs.
+ *
+ * @description
+ * The PokeStatCalculator component edits a level, a nature and the IVs and EVs of each stat,
+ * validates them and shows the resulting stats next to the base stats.
+ *
+ * @example
+ * ```html
+ * <pc-poke-stat-calculator [baseStats]="pokemon()!.stats"></pc-poke-stat-calculator>
+ * ```
+ *
+ * @usageNotes
+ * - Component is part of the detail remote module, not standalone
+ * - Invalid inputs list their errors and leave the stats blank
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'pc-poke-stat-calculator',
+  standalone: false,
+  templateUrl: './poke-stat-calculator.html',
+  styleUrl: './poke-stat-calculator.css',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PokeStatCalculator {
+  private readonly statCalculatorService = inject(STAT_CALCULATOR_SERVICE) as StatCalculatorService;
+
+  /** Base stats of the Pokemon. */
+  baseStats = input.required<PokemonStats>();
+
+  readonly natures = this.statCalculatorService.getNatures();
+  readonly statKeys: { key: keyof PokemonStats; label: string }[] = [
+    { key: 'hp', label: 'HP' },
+    { key: 'attack', label: 'Attack' },
+    { key: 'defense', label: 'Defense' },
+    { key: 'specialAttack', label: 'Sp. Atk' },
+    { key: 'specialDefense', label: 'Sp. Def' },
+    { key: 'speed', label: 'Speed' }
+  ];
+  readonly level = signal(50);
+  readonly nature = signal('hardy');
+  readonly ivs = signal<PokemonStats>({
+    hp: 31, attack: 31, defense: 31, specialAttack: 31, specialDefense: 31, speed: 31
+  });
+  readonly evs = signal<PokemonStats>({
+    hp: 0, attack: 0, defense: 0, specialAttack: 0, specialDefense: 0, speed: 0
+  });
+  readonly validation = computed(() => this.statCalculatorService.validate(this.buildInput()));
+  readonly calculatedStats = computed<PokemonStats | null>(() =>
+    this.validation().valid ? this.statCalculatorService.calculateStats(this.buildInput()) : null
+  );
+
+  onLevelChange(event: Event): void {
+    this.level.set(Number((event.target as HTMLInputElement).value));
+  }
+
+  onNatureChange(event: Event): void {
+    this.nature.set((event.target as HTMLSelectElement).value);
+  }
+
+  onIvChange(stat: keyof PokemonStats, event: Event): void {
+    const value = Number((event.target as HTMLInputElement).value);
+    this.ivs.update(ivs => ({ ...ivs, [stat]: value }));
+  }
+
+  onEvChange(stat: keyof PokemonStats, event: Event): void {
+    const value = Number((event.target as HTMLInputElement).value);
+    this.evs.update(evs => ({ ...evs, [stat]: value }));
+  }
+
+  formatNature(nature: Nature): string {
+    const label = nature.name.charAt(0).toUpperCase() + nature.name.slice(1);
+    if (!nature.increased || !nature.decreased) return `${label} (neutral)`;
+    const statLabel = (key: keyof PokemonStats) => this.statKeys.find(s => s.key === key)?.label;
+    return `${label} (+${statLabel(nature.increased)}, -${statLabel(nature.decreased)})`;
+  }
+
+  private buildInput(): StatCalculationInput {
+    return {
+      baseStats: this.baseStats(),
+      level: this.level(),
+      nature: this.nature(),
+      ivs: this.ivs(),
+      evs: this.evs()
+    };
+  }
+}
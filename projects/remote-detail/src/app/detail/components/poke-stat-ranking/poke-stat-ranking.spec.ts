@@ -0,0 +1,66 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+import { DexStatRanking, PokemonSpecies, RankedStat, STAT_RANKING_SERVICE, StatRankingScope } from '@domain/src/public-api';
+import { POKEMON_FIXTURES } from '@infra/testing/src/public-api';
+import { Cluster, Stack } from '@ui';
+
+import { PokeStatRanking } from './poke-stat-ranking';
+
+describe('PokeStatRanking', () => {
+  let component: PokeStatRanking;
+  let fixture: ComponentFixture<PokeStatRanking>;
+  let scopes: StatRankingScope[];
+
+  const find = (name: string) => POKEMON_FIXTURES.find(pokemon => pokemon.name === name);
+  const STATS: RankedStat[] = ['hp', 'attack', 'defense', 'specialAttack', 'specialDefense', 'speed', 'baseStatTotal'];
+
+  /** Ranks every stat at the 90th percentile */
+  const getRanking = (_: unknown, scope: StatRankingScope) => {
+    scopes.push(scope);
+    return of<DexStatRanking>({
+      scope,
+      stats: Object.fromEntries(STATS.map(stat => [stat, { value: 100, rank: 10, outOf: 100, percentile: 90 }])) as DexStatRanking['stats']
+    });
+  };
+
+  const settle = async () => {
+    fixture.detectChanges();
+    await fixture.whenStable();
+  };
+
+  beforeEach(async () => {
+    scopes = [];
+    await TestBed.configureTestingModule({
+      declarations: [PokeStatRanking],
+      imports: [Cluster, Stack],
+      providers: [{ provide: STAT_RANKING_SERVICE, useValue: { getRanking } }]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PokeStatRanking);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('pokemon', find('pikachu'));
+    await settle();
+  });
+
+  it('should rank the stats within the whole dex by default', () => {
+    expect(scopes).toEqual([{}]);
+    expect(component.badges().find(badge => badge.key === 'speed')?.text).toBe('Faster than 90% of Pokémon');
+    expect(component.scopes().map(scope => scope.label)).toEqual(['All Pokémon', 'Electric-type Pokémon']);
+  });
+
+  it('should offer the generation once the species is known, and go back to the whole dex for another Pokemon', async () => {
+    fixture.componentRef.setInput('species', { generation: 1 } as PokemonSpecies);
+    component.onScopeChange({ target: { value: 'generation' } } as unknown as Event);
+    await settle();
+
+    expect(scopes.at(-1)).toEqual({ generation: 1 });
+    expect(component.badges()[0].text).toBe('More HP than 90% of Gen 1 Pokémon');
+
+    fixture.componentRef.setInput('pokemon', find('mewtwo'));
+    await settle();
+
+    expect(component.scope()).toBe('');
+    expect(scopes.at(-1)).toEqual({});
+  });
+});
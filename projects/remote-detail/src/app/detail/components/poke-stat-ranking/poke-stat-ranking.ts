@@ -0,0 +1,129 @@
+import { Component, ChangeDetectionStrategy, OnInit, OnDestroy, inject, input, signal, computed, linkedSignal } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { Subject, takeUntil, switchMap, catchError, of } from 'rxjs';
+import {
+  STAT_RANKING_SERVICE,
+  StatRankingService,
+  DexStatRanking,
+  StatRankingScope,
+  RankedStat,
+  PokemonDetail,
+  PokemonSpecies
+} from '@domain/src/public-api';
+
+/** Badge wording of each ranked stat, in display order */
+const RANKING_PHRASES: { key: RankedStat; phrase: string }[] = [
+  { key: 'hp', phrase: 'More HP than' },
+  { key: 'attack', phrase: 'Higher Attack than' },
+  { key: 'defense', phrase: 'Higher Defense than' },
+  { key: 'specialAttack', phrase: 'Higher Sp. Atk than' },
+  { key: 'specialDefense', phrase: 'Higher Sp. Def than' },
+  { key: 'speed', phrase: 'Faster than' },
+  { key: 'baseStatTotal', phrase: 'Higher total than' }
+];
+
+/**
+ * Percentile badges placing the base stats of a Pokemon among other Pokemon.
+ *
+ * @description
+ * The PokeStatRanking component ranks each base stat and the base stat total of a Pokemon
+ * within the whole dex, the generation of its species or one of its types, picked with a select.
+ *
+ * @example
+ * ```html
+ * <pc-poke-stat-ranking [pokemon]="pokemon()!" [species]="species()"></pc-poke-stat-ranking>
+ * ```
+ *
+ * @usageNotes
+ * - Component is part of the detail remote module, not standalone
+ * - The scope goes back to the whole dex when the `pokemon` input changes
+ * - The generation scope is offered once `species` is known
+ * - Rankings are optional, so failures only hide them
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'pc-poke-stat-ranking',
+  standalone: false,
+  templateUrl: './poke-stat-ranking.html',
+  styleUrl: './poke-stat-ranking.css',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PokeStatRanking implements OnInit, OnDestroy {
+  private readonly statRankingService = inject(STAT_RANKING_SERVICE) as StatRankingService;
+  private readonly destroy$ = new Subject<void>();
+
+  /** Pokemon whose stats are ranked. */
+  pokemon = input.required<PokemonDetail>();
+
+  /** Species of the Pokemon, for the generation scope; null until loaded. */
+  species = input<PokemonSpecies | null>(null);
+
+  /** Selected scope: '' (whole dex), 'generation' or a type name. */
+  readonly scope = linkedSignal({ source: this.pokemon, computation: () => '' });
+  readonly ranking = signal<DexStatRanking | null>(null);
+
+  readonly scopes = computed(() => {
+    const s = this.species();
+    return [
+      { value: '', label: 'All Pokémon', noun: 'Pokémon' },
+      ...(s ? [{ value: 'generation', label: `Gen ${s.generation} Pokémon`, noun: `Gen ${s.generation} Pokémon` }] : []),
+      ...this.pokemon().types.map(t => ({
+        value: t.name,
+        label: `${this.formatName(t.name)}-type Pokémon`,
+        noun: `${this.formatName(t.name)}-type Pokémon`
+      }))
+    ];
+  });
+  readonly badges = computed(() => {
+    const ranking = this.ranking();
+    if (!ranking) return [];
+
+    const noun = this.scopes().find(scope => scope.value === this.scope())?.noun ?? 'Pokémon';
+    return RANKING_PHRASES.map(({ key, phrase }) => ({
+      key,
+      ...ranking.stats[key],
+      text: `${phrase} ${ranking.stats[key].percentile}% of ${noun}`
+    }));
+  });
+
+  /** Pokemon and scope to rank; the species only counts for the generation scope. @internal */
+  private readonly request$ = toObservable(computed(() => ({
+    pokemon: this.pokemon(),
+    scope: this.toRankingScope(this.scope())
+  })));
+
+  ngOnInit(): void {
+    this.request$.pipe(
+      switchMap(({ pokemon, scope }) => {
+        this.ranking.set(null);
+        return this.statRankingService.getRanking(pokemon, scope).pipe(
+          catchError(err => {
+            console.error('Failed to rank stats:', err);
+            return of(null);
+          })
+        );
+      }),
+      takeUntil(this.destroy$)
+    ).subscribe(ranking => this.ranking.set(ranking));
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  onScopeChange(event: Event): void {
+    this.scope.set((event.target as HTMLSelectElement).value);
+  }
+
+  private toRankingScope(value: string): StatRankingScope {
+    if (!value) return {};
+    if (value === 'generation') return { generation: this.species()?.generation };
+    return { type: value };
+  }
+
+  private formatName(name: string): string {
+    return name.charAt(0).toUpperCase() + name.slice(1);
+  }
+}
@@ -0,0 +1,25 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { TypeBadge } from './type-badge';
+
+describe('TypeBadge', () => {
+  let fixture: ComponentFixture<TypeBadge>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      declarations: [TypeBadge]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(TypeBadge);
+    fixture.componentRef.setInput('type', 'electric');
+    fixture.detectChanges();
+  });
+
+  it('should name the type and expose it for its colors', () => {
+    const element: HTMLElement = fixture.nativeElement;
+
+    expect(element.textContent).toBe('electric');
+    expect(element.getAttribute('data-type')).toBe('electric');
+  });
+});
@@ -0,0 +1,18 @@
+import { InjectionToken } from "@angular/core";
+
+/**
+ * Detail sections whose data only PokeAPI serves
+ * The offline snapshot has no moves or ability effects, so offline builds turn them off
+ */
+export interface DetailSections {
+    moves: boolean; // learnset table
+    abilityDetails: boolean; // ability effects and holders, shown when an ability is expanded
+}
+
+/**
+ * Injection token for the DetailSections; every section is shown by default
+ */
+export const DETAIL_SECTIONS = new InjectionToken<DetailSections>('DetailSections', {
+    providedIn: 'root',
+    factory: () => ({ moves: true, abilityDetails: true })
+});
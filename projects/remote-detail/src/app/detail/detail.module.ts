@@ -1,20 +1,67 @@
-import { NgModule } from "@angular/core";
+import { NgModule, computed, inject } from "@angular/core";
 import { CommonModule } from "@angular/common";
 import { RouterModule } from "@angular/router";
 import { provideHttpClient } from "@angular/common/http";
 import { DETAIL_ROUTES } from "./detail.routes";
 import { PokeDetail } from "./components/poke-detail/poke-detail";
+import { PokeStatRanking } from "./components/poke-stat-ranking/poke-stat-ranking";
+import { PokeEvolutionChain } from "./components/poke-evolution-chain/poke-evolution-chain";
+import { PokeSimilar } from "./components/poke-similar/poke-similar";
+import { PokeCounters } from "./components/poke-counters/poke-counters";
+import { PokeStatCalculator } from "./components/poke-stat-calculator/poke-stat-calculator";
+import { PokeMoves } from "./components/poke-moves/poke-moves";
+import { PokeAbilities } from "./components/poke-abilities/poke-abilities";
+import { PokeCompareSearch } from "./components/poke-compare-search/poke-compare-search";
+import { TypeBadge } from "./components/type-badge/type-badge";
 import { 
-    POKEMON_DETAIL_REPOSITORY, 
-    POKEMON_REPOSITORY,
     POKEMON_DETAIL_SERVICE,
     PokemonDetailService,
     POKEMON_CATALOG_SERVICE,
     PokemonCatalogService,
-    ComparisonService
+    ComparisonService,
+    STAT_CALCULATOR_SERVICE,
+    StatCalculatorService,
+    EVOLUTION_CHAIN_REPOSITORY,
+    EVOLUTION_SERVICE,
+    EvolutionService,
+    SPECIES_REPOSITORY,
+    SPECIES_SERVICE,
+    SpeciesService,
+    MOVE_REPOSITORY,
+    MOVE_SERVICE,
+    MoveService,
+    ABILITY_REPOSITORY,
+    ABILITY_SERVICE,
+    AbilityService,
+    STATS_DATASET_REPOSITORY,
+    STAT_RANKING_SERVICE,
+    StatRankingService,
+    SIMILARITY_SERVICE,
+    SimilarityService,
+    COUNTER_SERVICE,
+    CounterService,
+    GAME_CONTEXT,
+    toGameContext,
+    FAVORITES_REPOSITORY,
+    FAVORITES_SERVICE,
+    FavoritesService
 } from "@domain/src/public-api";
-import { PokeApiDetailAdapter, PokeApiAdapter } from "@infra/src/public-api";
-import { Box, Center, Cluster, Stack, Frame, Button, Sidebar, Searchbar, Switcher } from "@ui";
+import {
+    PokeApiDetailAdapter,
+    PokeApiAdapter,
+    PokeApiEvolutionAdapter,
+    PokeApiSpeciesAdapter,
+    PokeApiMoveAdapter,
+    PokeApiAbilityAdapter,
+    PokeApiStatsDatasetAdapter,
+    LocalStorageFavoritesAdapter,
+    provideCachedPokemonRepository,
+    provideCachedPokemonDetailRepository,
+    provideStaticDataset
+} from "@infra/src/public-api";
+import { environment } from "../../environments/environment";
+import { DETAIL_SECTIONS } from "./detail-sections";
+import { Box, Center, Cluster, Stack, Frame, Button, Sidebar, Searchbar, Switcher, Reel, FavoriteToggle, GameVersionService } from "@ui";
 
 @NgModule({
     imports: [
@@ -28,18 +75,65 @@ import { Box, Center, Cluster, Stack, Frame, Button, Sidebar, Searchbar, Switche
         Button,
         Sidebar,
         Searchbar,
-        Switcher
+        Switcher,
+        Reel,
+        FavoriteToggle
+    ],
+    declarations: [
+        PokeDetail,
+        PokeAbilities,
+        PokeStatRanking,
+        PokeEvolutionChain,
+        PokeSimilar,
+        PokeCounters,
+        PokeStatCalculator,
+        PokeMoves,
+        PokeCompareSearch,
+        TypeBadge
     ],
-    declarations: [PokeDetail],
     providers: [
         provideHttpClient(),
-        // Infrastructure adapters bound to domain ports
-        { provide: POKEMON_DETAIL_REPOSITORY, useClass: PokeApiDetailAdapter },
-        { provide: POKEMON_REPOSITORY, useClass: PokeApiAdapter },
+        // Games picked in the header, honored by the adapters
+        {
+            provide: GAME_CONTEXT,
+            useFactory: () => {
+                const gameVersionService = inject(GameVersionService);
+                return computed(() => toGameContext(gameVersionService.versionGroup()));
+            }
+        },
+        // Infrastructure adapters bound to domain ports: Pokemon, species, evolution and stats data come
+        // from the bundled snapshot in offline builds, otherwise from PokeAPI behind the repository cache
+        ...(environment.dataSource === 'snapshot'
+            ? provideStaticDataset()
+            : [
+                ...provideCachedPokemonDetailRepository(PokeApiDetailAdapter),
+                ...provideCachedPokemonRepository(PokeApiAdapter),
+                { provide: EVOLUTION_CHAIN_REPOSITORY, useClass: PokeApiEvolutionAdapter },
+                { provide: SPECIES_REPOSITORY, useClass: PokeApiSpeciesAdapter },
+                { provide: STATS_DATASET_REPOSITORY, useClass: PokeApiStatsDatasetAdapter }
+            ]),
+        // The snapshot has no moves or ability effects: offline builds hide those sections,
+        // so these adapters are never called there
+        {
+            provide: DETAIL_SECTIONS,
+            useValue: { moves: environment.dataSource !== 'snapshot', abilityDetails: environment.dataSource !== 'snapshot' }
+        },
+        { provide: MOVE_REPOSITORY, useClass: PokeApiMoveAdapter },
+        { provide: ABILITY_REPOSITORY, useClass: PokeApiAbilityAdapter },
+        { provide: FAVORITES_REPOSITORY, useClass: LocalStorageFavoritesAdapter },
         // Domain services (internally inject the repositories)
         ComparisonService,
         { provide: POKEMON_DETAIL_SERVICE, useClass: PokemonDetailService },
-        { provide: POKEMON_CATALOG_SERVICE, useClass: PokemonCatalogService }
+        { provide: POKEMON_CATALOG_SERVICE, useClass: PokemonCatalogService },
+        { provide: STAT_CALCULATOR_SERVICE, useClass: StatCalculatorService },
+        { provide: EVOLUTION_SERVICE, useClass: EvolutionService },
+        { provide: SPECIES_SERVICE, useClass: SpeciesService },
+        { provide: MOVE_SERVICE, useClass: MoveService },
+        { provide: ABILITY_SERVICE, useClass: AbilityService },
+        { provide: STAT_RANKING_SERVICE, useClass: StatRankingService },
+        { provide: SIMILARITY_SERVICE, useClass: SimilarityService },
+        { provide: COUNTER_SERVICE, useClass: CounterService },
+        { provide: FAVORITES_SERVICE, useClass: FavoritesService }
     ]
 })
 export class DetailModule {}
\ No newline at end of file
@@ -0,0 +1,7 @@
+/**
+ * Offline environment configuration for the Pokemon data source
+ * Used by the `offline` build configuration, for machines without internet
+ */
+export const environment = {
+  dataSource: 'snapshot' as 'pokeapi' | 'snapshot'
+};
@@ -0,0 +1,45 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { FavoriteToggle } from './favorite-toggle';
+
+describe('FavoriteToggle', () => {
+  let component: FavoriteToggle;
+  let fixture: ComponentFixture<FavoriteToggle>;
+  let button: HTMLButtonElement;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [FavoriteToggle]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(FavoriteToggle);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('label', 'Pikachu');
+    await fixture.whenStable();
+    button = fixture.nativeElement.querySelector('button');
+  });
+
+  it('should reflect the favorite state', async () => {
+    expect(button.getAttribute('aria-label')).toBe('Add Pikachu to favorites');
+
+    fixture.componentRef.setInput('active', true);
+    await fixture.whenStable();
+
+    expect(button.getAttribute('aria-pressed')).toBe('true');
+    expect(button.getAttribute('aria-label')).toBe('Remove Pikachu from favorites');
+    expect(button.textContent).toBe('★');
+  });
+
+  it('should emit on click without reaching the parent', () => {
+    const toggled = vi.fn();
+    const parentClick = vi.fn();
+    component.favoriteToggle.subscribe(toggled);
+    fixture.nativeElement.addEventListener('click', parentClick);
+
+    button.click();
+
+    expect(toggled).toHaveBeenCalledTimes(1);
+    expect(parentClick).not.toHaveBeenCalled();
+  });
+});
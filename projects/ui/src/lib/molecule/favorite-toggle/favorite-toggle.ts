@@ -0,0 +1,58 @@
+import { ChangeDetectionStrategy, Component, input, output } from '@angular/core';
+import { Size } from '../../types/size';
+
+/**
+ * A star button for adding a Pokemon to the user's favorites, or removing it.
+ *
+ * @description
+ * The FavoriteToggle component shows a filled star for favorites and an outlined one
+ * otherwise, and emits when clicked. It holds no state: the parent saves the favorite
+ * and updates the `active` input.
+ *
+ * @example
+ * ```html
+ * <pc-favorite-toggle
+ *   [active]="isFavorite()"
+ *   [label]="displayName()"
+ *   (favoriteToggle)="toggleFavorite()">
+ * </pc-favorite-toggle>
+ * ```
+ *
+ * @usageNotes
+ * - Clicks and Enter don't propagate, so the star can sit inside a clickable card;
+ *   Enter toggles once, through the click the browser fires on buttons
+ * - `label` names the Pokemon in the button's accessible name
+ * - `size` is a modular scale step, e.g. 's1' in cards and 's2' in page titles
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'pc-favorite-toggle',
+  standalone: true,
+  templateUrl: './favorite-toggle.html',
+  styleUrls: ['./favorite-toggle.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  host: { 'data-pc-component': 'favorite-toggle' }
+})
+export class FavoriteToggle {
+  /** Whether the Pokemon is one of the user's favorites. */
+  active = input<boolean>(false);
+
+  /** Name of the Pokemon, for the accessible name. */
+  label = input<string>('');
+
+  /** Star size, as a modular scale step. */
+  size = input<Size>('s1');
+
+  /** Emitted when the star is clicked. */
+  favoriteToggle = output<void>();
+
+  /**
+   * Emits favoriteToggle without letting the event reach the parent.
+   * @internal
+   */
+  onToggle(event: Event): void {
+    event.stopPropagation();
+    this.favoriteToggle.emit();
+  }
+}
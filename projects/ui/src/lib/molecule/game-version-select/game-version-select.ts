@@ -0,0 +1,52 @@
+import { Component, inject } from '@angular/core';
+import { GameVersionService } from '../../services/game-version.service';
+
+/**
+ * A select for choosing the games Pokemon data should match.
+ *
+ * @description
+ * The GameVersionSelect component lists the main series games, oldest first, after a
+ * "Latest games" default, and updates the GameVersionService when the user picks one.
+ * Older games show the types and base stats Pokemon had back then (e.g. Clefairy is
+ * Normal-type before X / Y). The choice is persisted and shared with every microfrontend.
+ *
+ * @example
+ * ```html
+ * <pc-game-version-select></pc-game-version-select>
+ * ```
+ *
+ * @usageNotes
+ * - Automatically syncs with GameVersionService for the games state
+ * - Typically placed in header or navigation components, next to the language select
+ * - No configuration needed - works out of the box
+ *
+ * @see {@link GameVersionService} for games state management
+ * @see {@link Header} for common placement location
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'pc-game-version-select',
+  standalone: true,
+  templateUrl: './game-version-select.html',
+  styleUrls: ['./game-version-select.css'],
+  host: { 'data-pc-component': 'game-version-select' }
+})
+export class GameVersionSelect {
+  /** Game version service for managing the games preference. @internal */
+  private readonly gameVersionService = inject(GameVersionService);
+
+  /** Signal holding the version group of the picked games, null for the latest games. */
+  readonly versionGroup = this.gameVersionService.versionGroup;
+
+  /** Games offered in the select. */
+  readonly versions = this.gameVersionService.versions;
+
+  /**
+   * Applies the games picked in the select; the empty value stands for the latest games.
+   * @internal
+   */
+  onChange(event: Event): void {
+    this.gameVersionService.setVersionGroup((event.target as HTMLSelectElement).value || null);
+  }
+}
@@ -6,6 +6,8 @@ import { Cluster } from '../../atoms/cluster/cluster';
 import { Frame } from '../../atoms/frame/frame';
 import { Button } from '../../atoms/button/button';
 import { ThemeToggle } from '../theme-toggle/theme-toggle';
+import { LanguageSelect } from '../language-select/language-select';
+import { GameVersionSelect } from '../game-version-select/game-version-select';
 import { NavigationService } from '../../services/navigation.service';
 
 /**
@@ -21,7 +23,7 @@ import { NavigationService } from '../../services/navigation.service';
  * - Logo display with click handling
  * - Application title and optional subtitle
  * - Navigation links with callbacks
- * - Integrated theme toggle
+ * - Integrated theme toggle, language select and game version select
  * - Responsive layout using Cluster
  * - Consistent styling across microfrontends
  * - NavigationService integration for routing
@@ -89,7 +91,7 @@ import { NavigationService } from '../../services/navigation.service';
  */
 @Component({
   selector: 'pc-header',
-  imports: [CommonModule, Label, Box, Cluster, Frame, ThemeToggle, Button],
+  imports: [CommonModule, Label, Box, Cluster, Frame, ThemeToggle, LanguageSelect, GameVersionSelect, Button],
   templateUrl: './header.html',
   styleUrls: ['./header.css'],
   host: { 'data-pc-component': 'header' }
@@ -0,0 +1,51 @@
+import { Component, inject } from '@angular/core';
+import { Language, LanguageService } from '../../services/language.service';
+
+/**
+ * A select for choosing the language Pokemon names are shown in.
+ *
+ * @description
+ * The LanguageSelect component lists the supported languages, each under its own
+ * name, and updates the LanguageService when the user picks one. The choice is
+ * persisted and shared with every microfrontend.
+ *
+ * @example
+ * ```html
+ * <pc-language-select></pc-language-select>
+ * ```
+ *
+ * @usageNotes
+ * - Automatically syncs with LanguageService for language state
+ * - Typically placed in header or navigation components, next to the theme toggle
+ * - No configuration needed - works out of the box
+ *
+ * @see {@link LanguageService} for language state management
+ * @see {@link Header} for common placement location
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'pc-language-select',
+  standalone: true,
+  templateUrl: './language-select.html',
+  styleUrls: ['./language-select.css'],
+  host: { 'data-pc-component': 'language-select' }
+})
+export class LanguageSelect {
+  /** Language service for managing the language preference. @internal */
+  private readonly languageService = inject(LanguageService);
+
+  /** Signal holding the current language. */
+  readonly language = this.languageService.language;
+
+  /** Languages offered in the select. */
+  readonly languages = this.languageService.languages;
+
+  /**
+   * Applies the language picked in the select.
+   * @internal
+   */
+  onChange(event: Event): void {
+    this.languageService.setLanguage((event.target as HTMLSelectElement).value as Language);
+  }
+}
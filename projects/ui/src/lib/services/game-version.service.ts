@@ -0,0 +1,119 @@
+import { Injectable, signal } from '@angular/core';
+
+/** Games offered to users, as PokeAPI version groups, oldest first */
+export const GAME_VERSIONS: { versionGroup: string; label: string }[] = [
+  { versionGroup: 'red-blue', label: 'Red / Blue' },
+  { versionGroup: 'yellow', label: 'Yellow' },
+  { versionGroup: 'gold-silver', label: 'Gold / Silver' },
+  { versionGroup: 'crystal', label: 'Crystal' },
+  { versionGroup: 'ruby-sapphire', label: 'Ruby / Sapphire' },
+  { versionGroup: 'emerald', label: 'Emerald' },
+  { versionGroup: 'firered-leafgreen', label: 'FireRed / LeafGreen' },
+  { versionGroup: 'diamond-pearl', label: 'Diamond / Pearl' },
+  { versionGroup: 'platinum', label: 'Platinum' },
+  { versionGroup: 'heartgold-soulsilver', label: 'HeartGold / SoulSilver' },
+  { versionGroup: 'black-white', label: 'Black / White' },
+  { versionGroup: 'black-2-white-2', label: 'Black 2 / White 2' },
+  { versionGroup: 'x-y', label: 'X / Y' },
+  { versionGroup: 'omega-ruby-alpha-sapphire', label: 'Omega Ruby / Alpha Sapphire' },
+  { versionGroup: 'sun-moon', label: 'Sun / Moon' },
+  { versionGroup: 'ultra-sun-ultra-moon', label: 'Ultra Sun / Ultra Moon' },
+  { versionGroup: 'lets-go-pikachu-lets-go-eevee', label: "Let's Go Pikachu / Eevee" },
+  { versionGroup: 'sword-shield', label: 'Sword / Shield' },
+  { versionGroup: 'brilliant-diamond-and-shining-pearl', label: 'Brilliant Diamond / Shining Pearl' },
+  { versionGroup: 'legends-arceus', label: 'Legends: Arceus' },
+  { versionGroup: 'scarlet-violet', label: 'Scarlet / Violet' }
+];
+
+const GAME_VERSION_STORAGE_KEY = 'pc-game-version';
+
+// Global state key for cross-microfrontend communication
+const GAME_VERSION_STATE_KEY = '__pc_game_version_state__';
+
+interface GlobalGameVersionState {
+  /** Undefined until a microfrontend has read the initial choice */
+  versionGroup: string | null | undefined;
+  listeners: Set<(versionGroup: string | null) => void>;
+}
+
+interface WindowWithGameVersionState extends Window {
+  [GAME_VERSION_STATE_KEY]?: GlobalGameVersionState;
+}
+
+function getGlobalState(): GlobalGameVersionState {
+  if (typeof window !== 'undefined') {
+    const win = window as WindowWithGameVersionState;
+    if (!win[GAME_VERSION_STATE_KEY]) {
+      win[GAME_VERSION_STATE_KEY] = { versionGroup: undefined, listeners: new Set() };
+    }
+    return win[GAME_VERSION_STATE_KEY];
+  }
+  return { versionGroup: undefined, listeners: new Set() };
+}
+
+function isGameVersion(value: string | null): value is string {
+  return GAME_VERSIONS.some(version => version.versionGroup === value);
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class GameVersionService {
+  private readonly versionGroupSignal = signal<string | null>(this.getInitialVersionGroup());
+
+  /** Version group of the picked games as a readonly signal; null for the latest games */
+  readonly versionGroup = this.versionGroupSignal.asReadonly();
+
+  /** Games the user can choose from */
+  readonly versions = GAME_VERSIONS;
+
+  constructor() {
+    // Follow changes made from other microfrontends
+    const globalState = getGlobalState();
+    globalState.versionGroup = this.versionGroupSignal();
+    globalState.listeners.add(versionGroup => this.versionGroupSignal.set(versionGroup));
+  }
+
+  /**
+   * Set the games and persist the choice
+   * @param versionGroup - Version group of the games, or null for the latest games
+   */
+  setVersionGroup(versionGroup: string | null): void {
+    const globalState = getGlobalState();
+    globalState.versionGroup = versionGroup;
+    globalState.listeners.forEach(listener => listener(versionGroup));
+    this.persistVersionGroup(versionGroup);
+  }
+
+  /**
+   * Get the initial games from another microfrontend or storage, defaulting to the latest games
+   */
+  private getInitialVersionGroup(): string | null {
+    const shared = getGlobalState().versionGroup;
+    if (shared !== undefined) {
+      return shared;
+    }
+
+    if (typeof window !== 'undefined' && window.localStorage) {
+      const stored = localStorage.getItem(GAME_VERSION_STORAGE_KEY);
+      if (isGameVersion(stored)) {
+        return stored;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Persist the games choice to localStorage
+   */
+  private persistVersionGroup(versionGroup: string | null): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      if (versionGroup) {
+        localStorage.setItem(GAME_VERSION_STORAGE_KEY, versionGroup);
+      } else {
+        localStorage.removeItem(GAME_VERSION_STORAGE_KEY);
+      }
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { Injectable, signal } from '@angular/core';
+
+/** Language Pokemon names are shown in */
+export type Language = 'en' | 'fr' | 'ja';
+
+/** Languages offered to users, with their name in that language */
+export const LANGUAGES: { code: Language; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'fr', label: 'Français' },
+  { code: 'ja', label: '日本語' }
+];
+
+const LANGUAGE_STORAGE_KEY = 'pc-language';
+
+// Global state key for cross-microfrontend communication
+const LANGUAGE_STATE_KEY = '__pc_language_state__';
+
+interface GlobalLanguageState {
+  language: Language | null;
+  listeners: Set<(language: Language) => void>;
+}
+
+interface WindowWithLanguageState extends Window {
+  [LANGUAGE_STATE_KEY]?: GlobalLanguageState;
+}
+
+function getGlobalState(): GlobalLanguageState {
+  if (typeof window !== 'undefined') {
+    const win = window as WindowWithLanguageState;
+    if (!win[LANGUAGE_STATE_KEY]) {
+      win[LANGUAGE_STATE_KEY] = { language: null, listeners: new Set() };
+    }
+    return win[LANGUAGE_STATE_KEY];
+  }
+  return { language: null, listeners: new Set() };
+}
+
+function isLanguage(value: string | null): value is Language {
+  return LANGUAGES.some(language => language.code === value);
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class LanguageService {
+  private readonly languageSignal = signal<Language>(this.getInitialLanguage());
+
+  /** Current language as a readonly signal */
+  readonly language = this.languageSignal.asReadonly();
+
+  /** Languages the user can choose from */
+  readonly languages = LANGUAGES;
+
+  constructor() {
+    // Follow changes made from other microfrontends
+    const globalState = getGlobalState();
+    globalState.language = this.languageSignal();
+    globalState.listeners.add(language => this.languageSignal.set(language));
+  }
+
+  /**
+   * Set the language and persist the choice
+   */
+  setLanguage(language: Language): void {
+    const globalState = getGlobalState();
+    globalState.language = language;
+    globalState.listeners.forEach(listener => listener(language));
+    this.persistLanguage(language);
+  }
+
+  /**
+   * Get the initial language from another microfrontend, storage or browser preference
+   */
+  private getInitialLanguage(): Language {
+    const shared = getGlobalState().language;
+    if (shared) {
+      return shared;
+    }
+
+    if (typeof window !== 'undefined' && window.localStorage) {
+      const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+      if (isLanguage(stored)) {
+        return stored;
+      }
+    }
+
+    // Fall back to the browser language (e.g. 'fr-FR' -> 'fr')
+    if (typeof navigator !== 'undefined') {
+      const preferred = navigator.language?.split('-')[0] ?? null;
+      if (isLanguage(preferred)) {
+        return preferred;
+      }
+    }
+
+    return 'en';
+  }
+
+  /**
+   * Persist language choice to localStorage
+   */
+  private persistLanguage(language: Language): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+    }
+  }
+}
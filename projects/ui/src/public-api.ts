@@ -21,10 +21,15 @@ export * from './lib/atoms/switcher/switcher';
 export * from './lib/molecule/searchbar/searchbar';
 export * from './lib/molecule/header/header';
 export * from './lib/molecule/theme-toggle/theme-toggle';
+export * from './lib/molecule/language-select/language-select';
+export * from './lib/molecule/game-version-select/game-version-select';
 export * from './lib/molecule/paginated-list/paginated-list';
+export * from './lib/molecule/favorite-toggle/favorite-toggle';
 
 // Services
 export * from './lib/services/theme.service';
+export * from './lib/services/language.service';
+export * from './lib/services/game-version.service';
 export * from './lib/services/navigation.service';
 
 // Utils
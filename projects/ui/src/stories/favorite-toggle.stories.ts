@@ -0,0 +1,29 @@
+import { Meta, StoryObj } from '@storybook/angular';
+import { FavoriteToggle } from '../lib/molecule/favorite-toggle/favorite-toggle';
+
+const meta: Meta<FavoriteToggle> = {
+  title: 'Molecule/FavoriteToggle',
+  component: FavoriteToggle,
+  tags: ['autodocs'],
+  args: {
+    label: 'Pikachu',
+    size: 's1'
+  },
+  render: (args) => ({
+    component: FavoriteToggle,
+    props: args,
+  }),
+};
+export default meta;
+
+type Story = StoryObj<FavoriteToggle>;
+
+export const Default: Story = {};
+
+export const Active: Story = {
+  args: { active: true }
+};
+
+export const Large: Story = {
+  args: { active: true, size: 's2' }
+};
@@ -0,0 +1,17 @@
+import { Meta, StoryObj } from '@storybook/angular';
+import { GameVersionSelect } from '../lib/molecule/game-version-select/game-version-select';
+
+const meta: Meta<GameVersionSelect> = {
+  title: 'Molecule/GameVersionSelect',
+  component: GameVersionSelect,
+  tags: ['autodocs'],
+  render: (args) => ({
+    component: GameVersionSelect,
+    props: args,
+  }),
+};
+export default meta;
+
+type Story = StoryObj<GameVersionSelect>;
+
+export const Default: Story = {};
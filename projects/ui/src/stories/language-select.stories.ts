@@ -0,0 +1,17 @@
+import { Meta, StoryObj } from '@storybook/angular';
+import { LanguageSelect } from '../lib/molecule/language-select/language-select';
+
+const meta: Meta<LanguageSelect> = {
+  title: 'Molecule/LanguageSelect',
+  component: LanguageSelect,
+  tags: ['autodocs'],
+  render: (args) => ({
+    component: LanguageSelect,
+    props: args,
+  }),
+};
+export default meta;
+
+type Story = StoryObj<LanguageSelect>;
+
+export const Default: Story = {};
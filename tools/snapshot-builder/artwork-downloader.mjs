@@ -0,0 +1,127 @@
+import { access, mkdir, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { request } from './crawler.mjs';
+
+/** Artwork directory, next to the snapshot file; the sprite URLs of the snapshot are relative to that file */
+export const ARTWORK_DIR = 'artwork';
+
+/**
+ * Outcome of an artwork download
+ * @typedef {object} ArtworkResult
+ * @property {import('./snapshot-writer.mjs').SnapshotData} data - The data, with sprite URLs pointing to the downloaded files
+ * @property {number} downloaded - Images requested by this run
+ * @property {number} reused - Images already in the output directory
+ * @property {string[]} failed - URLs that could not be downloaded
+ */
+
+/**
+ * Downloads the images the sprite URLs of the data point to, so that the snapshot needs no image server,
+ * and makes those URLs relative to the snapshot file (e.g. `artwork/25.png`)
+ * Images already in the output directory are kept, so that interrupted runs resume
+ * @param {import('./snapshot-writer.mjs').SnapshotData} data - Mapped data, with the sprite URLs of the crawled server
+ * @param {import('./options.mjs').BuilderOptions} options - Builder options
+ * @param {(message: string) => void} log - Progress output
+ * @returns {Promise<ArtworkResult>}
+ */
+export async function downloadArtwork(data, options, log) {
+  // The evolution mapper points stages to PokeAPI's sprite repository; the default Pokemon of a species has the same image
+  const bySpecies = new Map(data.pokemon
+    .filter(pokemon => pokemon.id === pokemon.speciesId)
+    .map(pokemon => [pokemon.id, pokemon.spriteUrl]));
+  /** @param {import('domain').EvolutionStage} stage */
+  const stageSprite = stage => bySpecies.get(stage.speciesId) || stage.spriteUrl;
+
+  const files = fileNames([
+    ...data.pokemon.map(pokemon => pokemon.spriteUrl),
+    ...data.evolutionChains.flatMap(chain => allStages(chain.root)).map(stageSprite)
+  ]);
+  /** @type {ArtworkResult} */
+  const result = { data, downloaded: 0, reused: 0, failed: [] };
+  const directory = join(options.outDir, ARTWORK_DIR);
+  await mkdir(directory, { recursive: true });
+  log(`Downloading ${files.size} images`);
+
+  const queue = [...files];
+  let done = 0;
+  const worker = async () => {
+    while (queue.length > 0) {
+      const [url, file] = queue.shift();
+      try {
+        await downloadOne(url, join(directory, file), result);
+      } catch (error) {
+        result.failed.push(url);
+        log(`Failed ${url}: ${error instanceof Error ? error.message : error}`);
+      }
+      if (++done % 100 === 0) {
+        log(`${done}/${files.size}`);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: options.concurrency }, worker));
+
+  /** @param {string} url */
+  const local = url => files.has(url) ? `${ARTWORK_DIR}/${files.get(url)}` : url;
+  /** @param {import('domain').EvolutionStage} stage */
+  const localStage = stage => ({ ...stage, spriteUrl: local(stageSprite(stage)), evolvesTo: stage.evolvesTo.map(localStage) });
+  result.data = {
+    ...data,
+    pokemon: data.pokemon.map(pokemon => ({ ...pokemon, spriteUrl: local(pokemon.spriteUrl) })),
+    evolutionChains: data.evolutionChains.map(chain => ({ ...chain, root: localStage(chain.root) }))
+  };
+  return result;
+}
+
+/**
+ * One file name per distinct URL, the last segment of the URL, numbered when two URLs share it
+ * @param {string[]} urls - Sprite URLs; empty ones are skipped
+ * @returns {Map<string, string>} File names by URL
+ */
+function fileNames(urls) {
+  const files = new Map();
+  const taken = new Set();
+  for (const url of urls) {
+    if (!url || files.has(url)) {
+      continue;
+    }
+    const name = new URL(url).pathname.split('/').pop() || 'image';
+    const dot = name.lastIndexOf('.');
+    let file = name;
+    for (let n = 2; taken.has(file); n++) {
+      file = dot > 0 ? `${name.slice(0, dot)}-${n}${name.slice(dot)}` : `${name}-${n}`;
+    }
+    taken.add(file);
+    files.set(url, file);
+  }
+  return files;
+}
+
+/**
+ * Every stage of a chain
+ * @param {import('domain').EvolutionStage} stage
+ * @returns {import('domain').EvolutionStage[]}
+ */
+function allStages(stage) {
+  return [stage, ...stage.evolvesTo.flatMap(allStages)];
+}
+
+/**
+ * Downloads an image unless the file exists; the file is replaced at once, so that a run stopped
+ * midway never leaves a truncated image behind
+ * @param {string} url
+ * @param {string} path
+ * @param {ArtworkResult} result - Counters to update
+ */
+async function downloadOne(url, path, result) {
+  try {
+    await access(path);
+    result.reused++;
+    return;
+  } catch {
+    // Not downloaded yet
+  }
+
+  const response = await request(url, {});
+  await writeFile(`${path}.tmp`, Buffer.from(await response.arrayBuffer()));
+  await rename(`${path}.tmp`, path);
+  result.downloaded++;
+}
@@ -0,0 +1,198 @@
+// Compiled by `npm run snapshot` from the infra sources, see tsconfig.json
+import { extractResourceId } from '../../out-tsc/snapshot-builder/projects/infra/src/lib/adapters/pokeapi-pokemon.mapper.js';
+
+/**
+ * Outcome of a crawl
+ * @typedef {object} CrawlResult
+ * @property {object[]} pokemon - `/pokemon/{id}` responses in index order; failed Pokemon are missing
+ * @property {object[]} species - `/pokemon-species/{id}` responses of the crawled Pokemon, by ID
+ * @property {object[]} evolutionChains - `/evolution-chain/{id}` responses of the crawled species, by ID
+ * @property {number} fetched - New or changed responses
+ * @property {number} unchanged - Responses revalidated with --update and still current
+ * @property {number} reused - Responses reused from an earlier run without a request
+ * @property {string[]} failed - URLs that could not be crawled
+ */
+
+/**
+ * A resource to crawl
+ * @typedef {object} Resource
+ * @property {string} key - Resource path in the store, e.g. 'pokemon/25'
+ * @property {string} url - Resource URL
+ */
+
+/** Larger than the number of Pokemon, so that one list call returns all of them */
+const INDEX_LIMIT = 100000;
+
+/** Attempts per request on network errors, rate limiting and server errors */
+const MAX_ATTEMPTS = 4;
+
+/** First retry delay, doubled on each attempt unless the server sends Retry-After */
+const RETRY_DELAY_MS = 1000;
+
+/**
+ * Crawls every Pokemon listed by the server, then their species and the evolution chains of those
+ * Responses stored by an earlier run are reused as is, or revalidated with conditional
+ * requests when `update` is set, so that only new and changed resources are downloaded
+ * @param {import('./options.mjs').BuilderOptions} options - Builder options
+ * @param {import('./response-store.mjs').ResponseStore} store - Responses of earlier runs
+ * @param {(message: string) => void} log - Progress output
+ * @returns {Promise<CrawlResult>}
+ */
+export async function crawlPokemon(options, store, log) {
+  const index = await (await request(`${options.baseUrl}/pokemon?limit=${INDEX_LIMIT}`, {})).json();
+  const entries = options.limit ? index.results.slice(0, options.limit) : index.results;
+  /** @type {CrawlResult} */
+  const result = { pokemon: [], species: [], evolutionChains: [], fetched: 0, unchanged: 0, reused: 0, failed: [] };
+  log(`${entries.length} Pokemon listed by ${options.baseUrl}`);
+
+  result.pokemon = await crawlAll(
+    'Pokemon',
+    entries.map(entry => ({ key: `pokemon/${extractResourceId(entry.url)}`, url: entry.url })),
+    options, store, result, log
+  );
+  result.species = await crawlAll(
+    'species',
+    uniqueResources('pokemon-species', result.pokemon.map(pokemon => pokemon.species.url)),
+    options, store, result, log
+  );
+  result.evolutionChains = await crawlAll(
+    'evolution chains',
+    uniqueResources('evolution-chain', result.species.map(species => species.evolution_chain?.url)),
+    options, store, result, log
+  );
+
+  return result;
+}
+
+/**
+ * Crawls resources with `options.concurrency` requests at once
+ * @param {string} label - What is crawled, for the progress output
+ * @param {Resource[]} resources
+ * @param {import('./options.mjs').BuilderOptions} options
+ * @param {import('./response-store.mjs').ResponseStore} store
+ * @param {CrawlResult} result - Counters and failures to update
+ * @param {(message: string) => void} log
+ * @returns {Promise<object[]>} The responses in resource order; failed resources are missing
+ */
+async function crawlAll(label, resources, options, store, result, log) {
+  const crawled = new Array(resources.length).fill(null);
+  log(`Crawling ${resources.length} ${label}`);
+
+  let next = 0;
+  let done = 0;
+  const worker = async () => {
+    while (next < resources.length) {
+      const position = next++;
+      const { key, url } = resources[position];
+      try {
+        crawled[position] = await crawlOne(key, url, options, store, result);
+      } catch (error) {
+        result.failed.push(url);
+        log(`Failed ${url}: ${error instanceof Error ? error.message : error}`);
+      }
+      if (++done % 100 === 0) {
+        log(`${done}/${resources.length}`);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: options.concurrency }, worker));
+
+  return crawled.filter(response => response !== null);
+}
+
+/**
+ * One resource per distinct URL, by ID
+ * @param {string} path - Resource path in the store, e.g. 'pokemon-species'
+ * @param {(string | undefined)[]} urls - Resource URLs; missing ones are skipped
+ * @returns {Resource[]}
+ */
+function uniqueResources(path, urls) {
+  const byId = new Map();
+  for (const url of urls) {
+    if (url) {
+      byId.set(extractResourceId(url), url);
+    }
+  }
+  return [...byId]
+    .sort(([a], [b]) => a - b)
+    .map(([id, url]) => ({ key: `${path}/${id}`, url }));
+}
+
+/**
+ * Returns a resource from the store, requesting or revalidating it when needed
+ * @param {string} key - Resource path in the store
+ * @param {string} url - Resource URL
+ * @param {import('./options.mjs').BuilderOptions} options
+ * @param {import('./response-store.mjs').ResponseStore} store
+ * @param {CrawlResult} result - Counters to update
+ */
+async function crawlOne(key, url, options, store, result) {
+  const stored = await store.read(key);
+  if (stored && !options.update) {
+    result.reused++;
+    return stored.body;
+  }
+
+  /** @type {Record<string, string>} */
+  const headers = {};
+  if (stored?.etag) headers['If-None-Match'] = stored.etag;
+  if (stored?.lastModified) headers['If-Modified-Since'] = stored.lastModified;
+
+  const response = await request(url, headers);
+  const fetchedAt = new Date().toISOString();
+
+  if (response.status === 304 && stored) {
+    await store.write(key, { ...stored, fetchedAt });
+    result.unchanged++;
+    return stored.body;
+  }
+
+  const updated = {
+    url,
+    fetchedAt,
+    etag: response.headers.get('ETag'),
+    lastModified: response.headers.get('Last-Modified'),
+    body: await response.json()
+  };
+  await store.write(key, updated);
+  result.fetched++;
+  return updated.body;
+}
+
+/**
+ * Requests a URL, retrying on network errors, rate limiting and server errors
+ * @param {string} url
+ * @param {Record<string, string>} headers
+ * @returns {Promise<Response>} A successful or not modified response
+ * @throws {Error} Once the attempts are exhausted, or at once on other statuses
+ */
+export async function request(url, headers) {
+  for (let attempt = 1; ; attempt++) {
+    let retryAfter = null;
+    try {
+      const response = await fetch(url, { headers });
+      if (response.ok || response.status === 304) {
+        return response;
+      }
+      if (response.status !== 429 && response.status < 500) {
+        throw new RequestError(`HTTP ${response.status}`);
+      }
+      retryAfter = Number(response.headers.get('Retry-After')) || null;
+      if (attempt >= MAX_ATTEMPTS) {
+        throw new RequestError(`HTTP ${response.status}`);
+      }
+    } catch (error) {
+      if (error instanceof RequestError || attempt >= MAX_ATTEMPTS) {
+        throw error;
+      }
+    }
+
+    const delay = retryAfter ? retryAfter * 1000 : RETRY_DELAY_MS * 2 ** (attempt - 1);
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+}
+
+/**
+ * A request that will not succeed by trying again
+ */
+class RequestError extends Error {}
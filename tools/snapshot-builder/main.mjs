@@ -0,0 +1,61 @@
+/**
+ * Crawls a PokeAPI-compatible server and writes the offline snapshot read by StaticDatasetAdapter
+ * Run through `npm run snapshot`, which first compiles the adapters' mapping (see tsconfig.json)
+ * Exits with 1 on failure; a partial crawl or artwork download writes no snapshot and is resumed by the next run
+ */
+import { downloadArtwork } from './artwork-downloader.mjs';
+import { crawlPokemon } from './crawler.mjs';
+import { OptionsError, USAGE, parseOptions } from './options.mjs';
+import { ResponseStore } from './response-store.mjs';
+import { mapSnapshotData, writeSnapshot } from './snapshot-writer.mjs';
+
+/**
+ * @param {string[]} args - Arguments after the script name
+ * @returns {Promise<number>} Exit code
+ */
+async function main(args) {
+  const options = parseOptions(args);
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const store = new ResponseStore(options.cacheDir, options.baseUrl);
+  const crawl = await crawlPokemon(options, store, message => console.log(message));
+  console.log(`Fetched ${crawl.fetched}, unchanged ${crawl.unchanged}, reused ${crawl.reused}`);
+
+  if (crawl.failed.length > 0) {
+    console.error(`${crawl.failed.length} resources could not be crawled; run again to resume`);
+    return 1;
+  }
+
+  let data = mapSnapshotData(crawl);
+  if (!options.remoteArtwork) {
+    const artwork = await downloadArtwork(data, options, message => console.log(message));
+    console.log(`Downloaded ${artwork.downloaded} images, reused ${artwork.reused}`);
+
+    if (artwork.failed.length > 0) {
+      console.error(`${artwork.failed.length} images could not be downloaded; run again to resume`);
+      return 1;
+    }
+    data = artwork.data;
+  }
+
+  const { manifest, changed } = await writeSnapshot(data, options.baseUrl, options.outDir);
+  console.log(changed
+    ? `Wrote snapshot ${manifest.version} (${manifest.counts.pokemon} Pokemon, ${manifest.counts.species} species, ` +
+      `${manifest.counts.evolutionChains} evolution chains) to ${options.outDir}`
+    : `Snapshot ${manifest.version} is up to date`);
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    if (error instanceof OptionsError) {
+      console.error(`\n${USAGE}`);
+    }
+    process.exit(1);
+  }
+);
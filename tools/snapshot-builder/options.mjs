@@ -0,0 +1,109 @@
+/**
+ * Command line options of the snapshot builder
+ * @typedef {object} BuilderOptions
+ * @property {string} baseUrl - PokeAPI-compatible base URL, without trailing slash
+ * @property {string} outDir - Where the snapshot and its manifest are written
+ * @property {string} cacheDir - Where crawled responses are kept between runs
+ * @property {number} concurrency - Requests running at once
+ * @property {number | null} limit - Only the first Pokemon of the index, e.g. for a small demo snapshot
+ * @property {boolean} update - Revalidate cached responses instead of reusing them as is
+ * @property {boolean} remoteArtwork - Keep the sprite URLs of the server instead of downloading the artwork
+ */
+
+/**
+ * Invalid command line; the message is meant for the user
+ */
+export class OptionsError extends Error {}
+
+export const USAGE = `Builds the offline Pokemon snapshot from a PokeAPI-compatible server
+
+Usage: npm run snapshot -- --base-url <url> [options]
+
+Options:
+  --base-url <url>     PokeAPI-compatible base URL, e.g. http://localhost/api/v2 (required)
+  --out <dir>          Output directory (default: dist/snapshot)
+  --cache-dir <dir>    Crawled responses, reused by later runs (default: tmp/snapshot-builder)
+  --concurrency <n>    Requests running at once (default: 4)
+  --limit <n>          Only the first n Pokemon of the index
+  --update             Revalidate cached responses, fetching only what changed on the server
+  --remote-artwork     Keep the server's sprite URLs instead of downloading the artwork next to the snapshot
+  --help               Show this help
+
+Interrupted runs resume where they stopped: responses already crawled are not requested again.`;
+
+/**
+ * Reads the options from the command line arguments
+ * @param {string[]} args - Arguments after the script name
+ * @returns {BuilderOptions | null} The options, or null if the help was asked for
+ * @throws {OptionsError} When an option is missing or invalid
+ */
+export function parseOptions(args) {
+  /** @type {BuilderOptions} */
+  const options = {
+    baseUrl: '',
+    outDir: 'dist/snapshot',
+    cacheDir: 'tmp/snapshot-builder',
+    concurrency: 4,
+    limit: null,
+    update: false,
+    remoteArtwork: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined || next.startsWith('--')) {
+        throw new OptionsError(`Missing value for ${arg}`);
+      }
+      return next;
+    };
+
+    switch (arg) {
+      case '--help':
+        return null;
+      case '--base-url':
+        options.baseUrl = value().replace(/\/+$/, '');
+        break;
+      case '--out':
+        options.outDir = value();
+        break;
+      case '--cache-dir':
+        options.cacheDir = value();
+        break;
+      case '--concurrency':
+        options.concurrency = parsePositive(arg, value());
+        break;
+      case '--limit':
+        options.limit = parsePositive(arg, value());
+        break;
+      case '--update':
+        options.update = true;
+        break;
+      case '--remote-artwork':
+        options.remoteArtwork = true;
+        break;
+      default:
+        throw new OptionsError(`Unknown option ${arg}`);
+    }
+  }
+
+  if (!options.baseUrl) {
+    throw new OptionsError('Missing --base-url');
+  }
+
+  return options;
+}
+
+/**
+ * @param {string} option
+ * @param {string} value
+ * @returns {number}
+ */
+function parsePositive(option, value) {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new OptionsError(`${option} expects a positive integer, got ${value}`);
+  }
+  return parsed;
+}
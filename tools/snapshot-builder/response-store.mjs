@@ -0,0 +1,63 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+
+/**
+ * A crawled response, with what is needed to revalidate it
+ * @template T
+ * @typedef {object} StoredResponse
+ * @property {string} url
+ * @property {string} fetchedAt - ISO date of the last request, revalidations included
+ * @property {string | null} etag
+ * @property {string | null} lastModified
+ * @property {T} body
+ */
+
+/**
+ * Keeps crawled responses on disk, one file per resource, so that interrupted runs resume
+ * and later runs only revalidate
+ * Each base URL gets its own directory, so that servers never mix
+ */
+export class ResponseStore {
+  /**
+   * @param {string} cacheDir - Directory shared by every base URL
+   * @param {string} baseUrl - Base URL the responses come from
+   */
+  constructor(cacheDir, baseUrl) {
+    /** @private */
+    this.root = join(cacheDir, baseUrl.replace(/^https?:\/\//, '').replace(/[^a-z0-9.-]+/gi, '_'));
+  }
+
+  /**
+   * Reads a stored response
+   * @param {string} key - Resource path, e.g. 'pokemon/25'
+   * @returns {Promise<StoredResponse<any> | null>} The response, or null if it was never stored or cannot be read
+   */
+  async read(key) {
+    try {
+      return JSON.parse(await readFile(this.path(key), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Stores a response; the file is replaced at once, so that a run stopped midway never leaves
+   * a truncated response behind
+   * @param {string} key - Resource path, e.g. 'pokemon/25'
+   * @param {StoredResponse<any>} response
+   */
+  async write(key, response) {
+    const path = this.path(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(`${path}.tmp`, JSON.stringify(response));
+    await rename(`${path}.tmp`, path);
+  }
+
+  /**
+   * @private
+   * @param {string} key
+   */
+  path(key) {
+    return join(this.root, `${key}.json`);
+  }
+}
@@ -0,0 +1,143 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  mapPastStats,
+  mapPastTypes,
+  mapToPokemonDetail
+} from '../../out-tsc/snapshot-builder/projects/infra/src/lib/adapters/pokeapi-pokemon.mapper.js';
+import { mapToPokemonSpecies } from '../../out-tsc/snapshot-builder/projects/infra/src/lib/adapters/pokeapi-species.mapper.js';
+import { mapToEvolutionChain } from '../../out-tsc/snapshot-builder/projects/infra/src/lib/adapters/pokeapi-evolution.mapper.js';
+import { POKEMON_SNAPSHOT_FORMAT } from '../../out-tsc/snapshot-builder/projects/infra/src/lib/snapshot/pokemon-snapshot.js';
+import { SUPPORTED_LANGUAGES } from '../../out-tsc/snapshot-builder/projects/domain/src/lib/models/language.model.js';
+
+/** Snapshot file, as loaded by StaticDatasetAdapter (see STATIC_DATASET_CONFIG) */
+export const SNAPSHOT_FILE = 'pokemon-snapshot.json';
+
+/** Manifest describing the snapshot file */
+export const MANIFEST_FILE = 'pokemon-snapshot.manifest.json';
+
+/**
+ * Checksums and metadata of a written snapshot
+ * @typedef {object} SnapshotManifest
+ * @property {number} format
+ * @property {string} version
+ * @property {string} source
+ * @property {string} createdAt
+ * @property {string} dataChecksum - sha256 of the data alone; unchanged data keeps its version
+ * @property {{ pokemon: number, species: number, evolutionChains: number }} counts
+ * @property {{ path: string, sha256: string, bytes: number }[]} files
+ */
+
+/**
+ * Data of a snapshot, as domain models
+ * @typedef {object} SnapshotData
+ * @property {object[]} pokemon - SnapshotPokemon
+ * @property {object[]} species - PokemonSpecies
+ * @property {import('domain').EvolutionChain[]} evolutionChains
+ */
+
+/**
+ * Maps crawled responses with the adapters' mapping
+ * @param {import('./crawler.mjs').CrawlResult} crawl - Crawled responses
+ * @returns {SnapshotData}
+ */
+export function mapSnapshotData(crawl) {
+  return {
+    pokemon: crawl.pokemon.map(toSnapshotPokemon),
+    species: crawl.species.map(response => mapToPokemonSpecies(response, SUPPORTED_LANGUAGES)),
+    evolutionChains: crawl.evolutionChains.map(mapToEvolutionChain)
+  };
+}
+
+/**
+ * Writes the snapshot and its manifest
+ * The snapshot is compact JSON; its version is the crawl date and a data checksum, so that
+ * unchanged data keeps the existing files and version
+ * @param {SnapshotData} data - Mapped data
+ * @param {string} source - Base URL it was crawled from
+ * @param {string} outDir - Output directory
+ * @returns {Promise<{ manifest: SnapshotManifest, changed: boolean }>} The manifest, and whether the files were written
+ */
+export async function writeSnapshot(data, source, outDir) {
+  const { pokemon, species, evolutionChains } = data;
+  const dataChecksum = sha256(JSON.stringify({ source, pokemon, species, evolutionChains }));
+
+  const existing = await readManifest(outDir);
+  if (existing?.format === POKEMON_SNAPSHOT_FORMAT && existing.dataChecksum === dataChecksum) {
+    return { manifest: existing, changed: false };
+  }
+
+  const createdAt = new Date().toISOString();
+  const snapshot = {
+    format: POKEMON_SNAPSHOT_FORMAT,
+    version: `${createdAt.slice(0, 10)}.${dataChecksum.slice(0, 8)}`,
+    source,
+    createdAt,
+    pokemon,
+    species,
+    evolutionChains
+  };
+  const content = JSON.stringify(snapshot);
+
+  /** @type {SnapshotManifest} */
+  const manifest = {
+    format: snapshot.format,
+    version: snapshot.version,
+    source,
+    createdAt,
+    dataChecksum,
+    counts: { pokemon: pokemon.length, species: species.length, evolutionChains: evolutionChains.length },
+    files: [{ path: SNAPSHOT_FILE, sha256: sha256(content), bytes: Buffer.byteLength(content) }]
+  };
+
+  await mkdir(outDir, { recursive: true });
+  await replaceFile(join(outDir, SNAPSHOT_FILE), content);
+  await replaceFile(join(outDir, MANIFEST_FILE), `${JSON.stringify(manifest, null, 2)}\n`);
+  return { manifest, changed: true };
+}
+
+/**
+ * Latest data plus what changed in older games; empty history is left out to keep the file small
+ * @param {object} response - `/pokemon/{id}` response
+ */
+function toSnapshotPokemon(response) {
+  const pokemon = mapToPokemonDetail(response);
+  const pastTypes = mapPastTypes(response);
+  const pastStats = mapPastStats(response);
+
+  return {
+    ...pokemon,
+    ...(pastTypes.length > 0 ? { pastTypes } : {}),
+    ...(pastStats.length > 0 ? { pastStats } : {})
+  };
+}
+
+/**
+ * @param {string} outDir
+ * @returns {Promise<SnapshotManifest | null>}
+ */
+async function readManifest(outDir) {
+  try {
+    return JSON.parse(await readFile(join(outDir, MANIFEST_FILE), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replaces a file at once, so that readers never see half of it
+ * @param {string} path
+ * @param {string} content
+ */
+async function replaceFile(path, content) {
+  await writeFile(`${path}.tmp`, content);
+  await rename(`${path}.tmp`, path);
+}
+
+/**
+ * @param {string} content
+ */
+function sha256(content) {
+  return createHash('sha256').update(content).digest('hex');
+}